@@ -3,10 +3,22 @@
  * Defines the Assistant class that encapsulates assistant configuration.
  */
 
+import type { LLMClientOptions } from '../types.js';
+
+/**
+ * Engine settings an assistant can pin; anything left out comes from the environment.
+ */
+export interface AssistantEngineSettings {
+  engine?: string; // ENGINE value
+  clientOptions?: LLMClientOptions;
+}
+
 export class Assistant {
   private _id: string;
   private _systemPrompt: string;
   private _name: string;
+  private _engine: string | undefined;
+  private _clientOptions: LLMClientOptions;
 
   /**
    * Initialize an Assistant with system prompt and name configuration.
@@ -14,11 +26,14 @@ export class Assistant {
    * @param id - Unique identifier for the assistant
    * @param systemPrompt - The system instruction/prompt that defines the assistant's behavior
    * @param name - The display name of the assistant
+   * @param settings - Optional engine, model, sampling and tool overrides
    */
-  constructor(id: string, systemPrompt: string, name: string) {
+  constructor(id: string, systemPrompt: string, name: string, settings: AssistantEngineSettings = {}) {
     this._id = id;
     this._systemPrompt = systemPrompt;
     this._name = name;
+    this._engine = settings.engine;
+    this._clientOptions = settings.clientOptions || {};
   }
 
   /**
@@ -41,4 +56,18 @@ export class Assistant {
   get name(): string {
     return this._name;
   }
+
+  /**
+   * Get the engine pinned by this assistant, or undefined to use ENGINE.
+   */
+  get engine(): string | undefined {
+    return this._engine;
+  }
+
+  /**
+   * Get the client options (model, sampling, tools) pinned by this assistant.
+   */
+  get clientOptions(): LLMClientOptions {
+    return this._clientOptions;
+  }
 }
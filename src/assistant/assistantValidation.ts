@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { azorTools } from '../tools/definitions.js';
+
+const TOOL_NAMES = azorTools.map((tool) => tool.name);
+
+export const ASSISTANT_ID_PATTERN = /^[a-z0-9_-]+$/;
+export const ASSISTANT_ID_MESSAGE = 'id może zawierać tylko małe litery, cyfry, "_" i "-"';
+
+export const AssistantSamplingSchema = z
+	.object({
+		temperature: z.number().min(0).max(2).optional().describe('Temperatura próbkowania (0-2)'),
+		topP: z.number().min(0).max(1).optional().describe('Top P próbkowania (0-1)'),
+		topK: z.number().int().min(1).optional().describe('Top K próbkowania (min 1)'),
+		maxOutputTokens: z
+			.number()
+			.int()
+			.min(1)
+			.optional()
+			.describe('Maksymalna liczba tokenów odpowiedzi'),
+	})
+	.strict();
+
+export const AssistantFileSchema = z
+	.object({
+		id: z
+			.string()
+			.regex(ASSISTANT_ID_PATTERN, ASSISTANT_ID_MESSAGE)
+			.describe('Identyfikator asystenta'),
+		name: z.string().min(1, 'name nie może być pusty').describe('Wyświetlana nazwa'),
+		description: z.string().default('').describe('Krótki opis asystenta'),
+		systemPrompt: z
+			.string()
+			.trim()
+			.min(1, 'systemPrompt nie może być pusty')
+			.describe('Instrukcja systemowa'),
+		engine: z
+			.string()
+			.min(1)
+			.transform((engine) => engine.toUpperCase())
+			.optional()
+			.describe('Preferowany silnik (wartość ENGINE)'),
+		model: z.string().min(1).optional().describe('Preferowany model'),
+		sampling: AssistantSamplingSchema.optional().describe('Parametry próbkowania'),
+		tools: z
+			.array(
+				z.string().refine((name) => TOOL_NAMES.includes(name), {
+					message: `Nieznane narzędzie. Dostępne: ${TOOL_NAMES.join(', ')}`,
+				}),
+			)
+			.optional()
+			.describe('Włączone narzędzia (domyślnie wszystkie)'),
+	})
+	.strict();
+
+export type AssistantSampling = z.infer<typeof AssistantSamplingSchema>;
+export type AssistantFile = z.infer<typeof AssistantFileSchema>;
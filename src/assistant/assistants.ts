@@ -1,9 +1,12 @@
 /**
  * Assistant Registry
- * Defines all available assistants and provides factory functions.
+ * Defines the built-in assistants, merges them with user-defined assistant files
+ * and provides factory functions.
  */
 
+import { loadAssistantFiles } from '../files/assistantFiles.js';
 import { Assistant } from './assistant.js';
+import type { AssistantSampling } from './assistantValidation.js';
 
 /**
  * Assistant definition interface
@@ -13,10 +16,19 @@ export interface AssistantDefinition {
 	name: string;
 	systemPrompt: string;
 	description: string;
+	engine?: string; // Preferred engine (ENGINE value)
+	model?: string; // Preferred model name
+	sampling?: AssistantSampling;
+	tools?: string[]; // Enabled tool names; all tools when omitted
+	source?: string; // File the assistant was loaded from; undefined for built-ins
 }
 
+/** User-defined assistants, loaded on first use */
+let fileAssistants: Record<string, AssistantDefinition> | null = null;
+let loadErrors: string[] = [];
+
 /**
- * Registry of all available assistants
+ * Registry of the built-in assistants
  */
 export const AVAILABLE_ASSISTANTS: Record<string, AssistantDefinition> = {
 	azor: {
@@ -75,6 +87,66 @@ WAŻNE - Zasady używania narzędzia request_clarification:
 	},
 };
 
+/**
+ * Reloads user-defined assistants from disk.
+ * Files reusing a built-in ID or an ID already loaded from another file are skipped.
+ *
+ * @returns Error messages for invalid and duplicate files
+ */
+export function reloadAssistants(): string[] {
+	const [definitions, errors] = loadAssistantFiles();
+	const loaded: Record<string, AssistantDefinition> = {};
+
+	for (const definition of definitions) {
+		if (definition.id in AVAILABLE_ASSISTANTS) {
+			errors.push(
+				`${definition.source}: ID '${definition.id}' należy do wbudowanego asystenta`,
+			);
+			continue;
+		}
+		const existing = loaded[definition.id];
+		if (existing) {
+			errors.push(
+				`${definition.source}: ID '${definition.id}' jest już zdefiniowane w ${existing.source}`,
+			);
+			continue;
+		}
+		loaded[definition.id] = definition;
+	}
+
+	fileAssistants = loaded;
+	loadErrors = errors;
+	return errors;
+}
+
+/**
+ * Returns built-in and user-defined assistants, loading the files on first use.
+ */
+function getRegistry(): Record<string, AssistantDefinition> {
+	if (!fileAssistants) {
+		reloadAssistants();
+	}
+	return { ...AVAILABLE_ASSISTANTS, ...fileAssistants };
+}
+
+/**
+ * Get errors from the last load of user-defined assistants
+ * @returns Error messages for invalid and duplicate files
+ */
+export function getAssistantLoadErrors(): string[] {
+	getRegistry();
+	return loadErrors;
+}
+
+/**
+ * Check if an assistant is built in (not loaded from a file)
+ * @param id - Assistant identifier
+ * @returns True if the assistant is built in
+ */
+export function isBuiltInAssistant(id: string): boolean {
+	return id.toLowerCase() in AVAILABLE_ASSISTANTS;
+}
+
 /**
  * Get assistant definition by ID
  * @param id - Assistant identifier
@@ -83,12 +155,13 @@ WAŻNE - Zasady używania narzędzia request_clarification:
  */
 export function getAssistantById(id: string): AssistantDefinition {
 	const normalizedId = id.toLowerCase();
-	const assistant = AVAILABLE_ASSISTANTS[normalizedId];
+	const registry = getRegistry();
+	const assistant = registry[normalizedId];
 
 	if (!assistant) {
 		throw new Error(
 			`Nieznany asystent: ${id}. Dostępni asystenci: ${Object.keys(
-				AVAILABLE_ASSISTANTS,
+				registry,
 			).join(', ')}`,
 		);
 	}
@@ -103,7 +176,17 @@ export function getAssistantById(id: string): AssistantDefinition {
  */
 export function createAssistant(id: string): Assistant {
 	const def = getAssistantById(id);
-	return new Assistant(def.id, def.systemPrompt, def.name);
+	return new Assistant(def.id, def.systemPrompt, def.name, {
+		engine: def.engine,
+		clientOptions: {
+			modelName: def.model,
+			temperature: def.sampling?.temperature,
+			topP: def.sampling?.topP,
+			topK: def.sampling?.topK,
+			maxOutputTokens: def.sampling?.maxOutputTokens,
+			tools: def.tools,
+		},
+	});
 }
 
 /**
@@ -111,7 +194,7 @@ export function createAssistant(id: string): Assistant {
  * @returns Array of assistant IDs
  */
 export function listAssistantIds(): string[] {
-	return Object.keys(AVAILABLE_ASSISTANTS);
+	return Object.keys(getRegistry());
 }
 
 /**
@@ -119,7 +202,7 @@ export function listAssistantIds(): string[] {
  * @returns Array of assistant definitions
  */
 export function listAssistants(): AssistantDefinition[] {
-	return Object.values(AVAILABLE_ASSISTANTS);
+	return Object.values(getRegistry());
 }
 
 /**
@@ -128,5 +211,5 @@ export function listAssistants(): AssistantDefinition[] {
  * @returns True if assistant exists
  */
 export function assistantExists(id: string): boolean {
-	return id.toLowerCase() in AVAILABLE_ASSISTANTS;
+	return id.toLowerCase() in getRegistry();
 }
@@ -1,9 +1,29 @@
-import { getSessionIdFromCLI } from './cli/args.js';
+import { getAssistantLoadErrors } from './assistant/assistants.js';
+import { getCLIOptions } from './cli/args.js';
 import { getSessionManager } from './session/index.js';
 import { handleCommand } from './commandHandler.js';
-import { printAssistant, printInfo, printError, printWarning } from './cli/console.js';
+import {
+  printAssistant,
+  printAssistantChunk,
+  printInfo,
+  printError,
+  printWarning,
+} from './cli/console.js';
 import { getUserInput } from './cli/prompt.js';
+import { attachFileToSession } from './commands/attachFile.js';
+import { importSessionsCommand } from './commands/sessionImport.js';
 import { printWelcome } from './commands/welcome.js';
+import { findInlineAttachmentPaths } from './files/attachments.js';
+import { recoverSessionsFromWAL } from './files/walRecovery.js';
+import {
+  checkBudget,
+  computeSpend,
+  estimateTurnCost,
+  formatCost,
+  hasBudgetLimits,
+  loadBudgetLimits,
+} from './session/budget.js';
+import type { ChatSession } from './session/chatSession.js';
 import { generateTitleFromPrompt } from './utils/titleGenerator.js';
 import type { LLMResponse } from './types.js';
 
@@ -17,9 +37,29 @@ export async function initChat(): Promise<void> {
   printWelcome();
   const manager = getSessionManager();
 
-  // Initialize session based on CLI args
-  const cliSessionId = getSessionIdFromCLI();
-  await manager.initializeFromCLI(cliSessionId);
+  // Invalid or duplicate assistant files are skipped, but reported
+  for (const error of getAssistantLoadErrors()) {
+    printWarning(`Pominięto plik asystenta: ${error}`);
+  }
+
+  // Replay exchanges that reached the WAL but not the session files (e.g. after a crash)
+  const recovery = recoverSessionsFromWAL();
+  if (recovery.recoveredSessions.length > 0) {
+    printWarning(
+      `Odzyskano ${recovery.replayedEntries} wpisów z WAL dla sesji: ${recovery.recoveredSessions.join(', ')}`,
+    );
+  }
+  if (recovery.skippedLines > 0) {
+    printWarning(`Pominięto ${recovery.skippedLines} uszkodzonych linii w WAL.`);
+  }
+  for (const error of recovery.errors) {
+    printError(`Błąd odzyskiwania WAL: ${error}`);
+  }
+
+  // Initialize session based on CLI args; a single imported conversation is opened right away
+  const { sessionId, importPath } = getCLIOptions();
+  const importedIds = importPath ? importSessionsCommand([importPath]) : [];
+  await manager.initializeFromCLI(sessionId || (importedIds.length === 1 ? importedIds[0] : null));
 
   // Register cleanup handlers
   process.on('SIGINT', async () => {
@@ -42,11 +82,78 @@ export async function initChat(): Promise<void> {
   });
 }
 
+/**
+ * Generates the session title from the first prompt, using the session's model.
+ */
+async function generateSessionTitle(session: ChatSession, userInput: string): Promise<void> {
+  const llmClient = session.getLLMClient();
+  if (llmClient) {
+    const title = await generateTitleFromPrompt(userInput, llmClient, usage => session.recordUsage(usage, 'title'));
+    session.setTitle(title);
+    printInfo(`✓ Wygenerowano tytuł sesji: "${title}"`);
+  }
+}
+
+/**
+ * Sends a message to the round-table, streaming each reply under its speaker's name
+ * followed by the speaker's token usage and cost.
+ */
+async function sendToRoundtable(
+  session: ChatSession,
+  userInput: string,
+  isFirstMessage: boolean,
+): Promise<void> {
+  let streamStarted = false;
+
+  const replies = await session.sendRoundtableMessage(userInput, {
+    onSpeaker: speaker => {
+      streamStarted = false;
+      return chunk => {
+        if (!streamStarted) {
+          streamStarted = true;
+          printAssistantChunk(`\n${speaker.name}: `);
+        }
+        printAssistantChunk(chunk);
+      };
+    },
+    onReply: ({ speaker, modelName, response }) => {
+      if (streamStarted) {
+        process.stdout.write('\n');
+      } else if (response.text) {
+        // Error fallbacks are returned without being streamed
+        printAssistant(`\n${speaker.name}: ${response.text}`);
+      }
+
+      if (response.usage) {
+        const turnCost = estimateTurnCost(modelName, response.usage);
+        printInfo(
+          `Tura (${modelName}): ${response.usage.promptTokens} wejście + ${response.usage.completionTokens} wyjście` +
+            (turnCost !== null ? ` | Koszt: ${formatCost(turnCost)}` : ''),
+        );
+      }
+    },
+  });
+
+  if (isFirstMessage && replies.some(reply => reply.response.text)) {
+    await generateSessionTitle(session, userInput);
+  }
+
+  const [totalTokens, remainingTokens, maxTokens, estimated] = await session.getTokenInfo();
+  const [spend] = computeSpend(session.getSessionId());
+  printInfo(
+    `Tokens: ${estimated ? '~' : ''}${totalTokens} (Pozostało: ${estimated ? '~' : ''}${remainingTokens} / ${maxTokens}) | Koszt sesji: ${formatCost(spend.sessionCost)}`,
+  );
+}
+
 /**
  * Main loop of the interactive chat.
  */
 export async function mainLoop(): Promise<void> {
   const manager = getSessionManager();
+  const [budgetLimits, budgetError] = loadBudgetLimits();
+  if (budgetError) {
+    printError(budgetError);
+  }
 
   while (true) {
     try {
@@ -70,14 +177,60 @@ export async function mainLoop(): Promise<void> {
       // Check if this is the first message (before sending)
       const isFirstMessage = session.isEmpty();
 
+      // Refuse to send once a hard budget is exhausted; soft limits only warn
+      if (hasBudgetLimits(budgetLimits)) {
+        const [spend] = computeSpend(session.getSessionId());
+        const budget = checkBudget(spend, budgetLimits);
+        if (budget.level === 'hard') {
+          budget.messages.forEach(message => printError(message));
+          printError('Wiadomość nie została wysłana. Szczegóły: /budget');
+          continue;
+        }
+        budget.messages.forEach(message => printWarning(message));
+      }
+
+      // Inline @path references attach files just like /attach
+      for (const path of findInlineAttachmentPaths(userInput)) {
+        attachFileToSession(session, path);
+      }
+
+      // Round-table: every participant answers in turn, without tools or clarifications
+      if (session.isRoundtable()) {
+        await sendToRoundtable(session, userInput, isFirstMessage);
+
+        const [success, error] = await session.saveToFile();
+        if (!success && error) {
+          printError(`Error saving session: ${error}`);
+        }
+        continue;
+      }
+
       // Send message and handle clarification loop
       let response: LLMResponse;
       let currentInput = userInput;
       let clarificationRounds = 0;
 
       while (true) {
+        // Stream the reply; the speaker prefix is printed lazily so that
+        // clarification requests without any text don't leave a dangling label
+        let streamStarted = false;
+        const onChunk = (chunk: string): void => {
+          if (!streamStarted) {
+            streamStarted = true;
+            printAssistantChunk(`\n${session.assistantName}: `);
+          }
+          printAssistantChunk(chunk);
+        };
+
         // Send message (handles WAL logging internally)
-        response = await session.sendMessage(currentInput);
+        response = await session.sendMessage(currentInput, onChunk);
+
+        if (streamStarted) {
+          process.stdout.write('\n');
+        } else if (response.text) {
+          // Error fallbacks are returned without being streamed
+          printAssistant(`\n${session.assistantName}: ${response.text}`);
+        }
 
         // Check if clarification is needed
         if (response.clarificationNeeded) {
@@ -116,20 +269,28 @@ export async function mainLoop(): Promise<void> {
       if (response.text) {
         // Auto-generate title after first successful response
         if (isFirstMessage) {
-          const llmClient = session.getLLMClient();
-          if (llmClient) {
-            const title = await generateTitleFromPrompt(userInput, llmClient);
-            session.setTitle(title);
-            printInfo(`✓ Wygenerowano tytuł sesji: "${title}"`);
-          }
+          await generateSessionTitle(session, userInput);
         }
 
         // Get token information
-        const [totalTokens, remainingTokens, maxTokens] = await session.getTokenInfo();
+        const [totalTokens, remainingTokens, maxTokens, estimated] = await session.getTokenInfo();
+
+        // Response text has already been streamed to the console
+        const turnUsage = response.usage
+          ? ` | Tura: ${response.usage.promptTokens} wejście + ${response.usage.completionTokens} wyjście`
+          : '';
+        printInfo(`Tokens: ${estimated ? '~' : ''}${totalTokens} (Pozostało: ${estimated ? '~' : ''}${remainingTokens} / ${maxTokens})${turnUsage}`);
 
-        // Display response
-        printAssistant(`\n${session.assistantName}: ${response.text}`);
-        printInfo(`Tokens: ${totalTokens} (Pozostało: ${remainingTokens} / ${maxTokens})`);
+        // Running cost estimate, only for models with a known price
+        const turnCost = response.usage
+          ? estimateTurnCost(session.getLLMClient()?.getModelName() || '', response.usage)
+          : null;
+        if (turnCost !== null) {
+          const [spend] = computeSpend(session.getSessionId());
+          printInfo(
+            `Koszt: ${formatCost(turnCost)} (sesja: ${formatCost(spend.sessionCost)}, dziś: ${formatCost(spend.dailyCost)})`,
+          );
+        }
       }
 
       // Save session
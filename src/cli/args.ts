@@ -1,16 +1,28 @@
 import { Command } from 'commander';
 
 /**
- * Parses CLI arguments in search of --session-id.
+ * Options given on the command line.
  */
-export function getSessionIdFromCLI(): string | null {
+export interface CLIOptions {
+  sessionId: string | null;
+  importPath: string | null;
+}
+
+/**
+ * Parses CLI arguments in search of --session-id and --import.
+ */
+export function getCLIOptions(): CLIOptions {
   const program = new Command();
 
   program
     .description('Interaktywny pies asystent! 🐶')
     .option('--session-id <id>', 'ID sesji do wczytania i kontynuowania (np. a1b2c3d4-log.json -> a1b2c3d4)')
+    .option('--import <plik>', 'Importuje rozmowy z eksportu ChatGPT, Gemini/AI Studio lub tablicy wiadomości OpenAI')
     .parse(process.argv);
 
   const options = program.opts();
-  return options.sessionId || null;
+  return {
+    sessionId: options.sessionId || null,
+    importPath: options.import || null
+  };
 }
@@ -19,6 +19,13 @@ export function printAssistant(message: string): void {
 	console.log(chalk.cyan(message));
 }
 
+/**
+ * Write a fragment of a streamed assistant message in cyan color, without a newline.
+ */
+export function printAssistantChunk(chunk: string): void {
+	process.stdout.write(chalk.cyan(chunk));
+}
+
 /**
  * Print a user message in blue color.
  */
@@ -56,21 +63,92 @@ export function displayHelp(sessionId: string): void {
 	printHelp(
 		'  /switch [ID]      - Przełącza na istniejącą sesję (interaktywne wyszukiwanie gdy bez ID).',
 	);
+	printHelp(
+		'  /search <zapytanie> - Szuka w treści wszystkich sesji ("fraza", role:user|model); /switch <nr> przechodzi do wyniku.',
+	);
+	printHelp(
+		'  /recall <pytanie> - Szuka powiązanych rozmów po znaczeniu (embeddingi); /switch <nr> przechodzi do wyniku.',
+	);
 	printHelp('  /help             - Wyświetla tę pomoc.');
 	printHelp('  /exit, /quit      - Zakończenie czatu.');
-	printHelp('\n  /session list     - Wyświetla listę dostępnych sesji.');
+	printHelp(
+		'\n  /session list [--tag=x] [--folder=x] [--pinned] - Wyświetla listę sesji (przypięte i foldery najpierw).',
+	);
 	printHelp('  /session display  - Wyświetla całą historię sesji.');
 	printHelp(
 		'  /session pop      - Usuwa ostatnią parę wpisów (TY i asystent).',
 	);
 	printHelp('  /session clear    - Czyści historię bieżącej sesji.');
 	printHelp('  /session new      - Rozpoczyna nową sesję.');
+	printHelp(
+		'  /session reindex  - Przebudowuje indeks metadanych sesji (gdy pliki zmieniono ręcznie).',
+	);
+	printHelp(
+		'  /session import <plik> - Importuje rozmowy z eksportu ChatGPT, Gemini/AI Studio lub OpenAI jako nowe sesje.',
+	);
+	printHelp(
+		'  /session tag [add|remove <tag>] - Wyświetla, dodaje lub usuwa tagi bieżącej sesji.',
+	);
+	printHelp(
+		'  /session pin | unpin - Przypina sesję na początku list i w /switch (lub odpina).',
+	);
+	printHelp(
+		'  /session folder [<nazwa> | --none] - Przenosi sesję do folderu (projektu) lub z niego usuwa.',
+	);
+	printHelp(
+		'  /session fork [nr] [nazwa] - Tworzy gałąź z pierwszych nr wiadomości i przełącza na nią.',
+	);
+	printHelp('  /session branches - Wyświetla gałęzie bieżącej sesji.');
+	printHelp('  /session checkout <nazwa> - Przełącza na inną gałąź.');
+	printHelp(
+		'\n  /retry [ID] [--temp=T] - Generuje ponownie ostatnią odpowiedź (opcjonalnie inny asystent lub temperatura).',
+	);
+	printHelp('  /edit <nr> [treść] - Zmienia Twoją wiadomość nr i kontynuuje od niej.');
+	printHelp('  /variants [nr]    - Wyświetla warianty ostatniej wymiany lub przełącza na wybrany.');
+	printHelp(
+		'\n  /attach <ścieżka> - Dołącza obraz, PDF lub plik tekstowy do następnej wiadomości (także @ścieżka w treści).',
+	);
+	printHelp('  /attach [clear]   - Wyświetla lub usuwa oczekujące załączniki.');
+	printHelp(
+		'\n  /context          - Pokazuje okno kontekstu (budżet, podsumowanie, przypięte wiadomości).',
+	);
+	printHelp(
+		'  /context pin|unpin <nr> - Przypina/odpina wymianę, by zawsze trafiała do kontekstu.',
+	);
+	printHelp(
+		'  /context strategy <truncate|summarize> - Zmienia strategię przy przepełnieniu.',
+	);
+	printHelp('  /context compact  - Natychmiast podsumowuje/pomija starsze wymiany.');
+	printHelp(
+		'  /usage [dni]      - Zużycie tokenów w bieżącej sesji i w ostatnich dniach (domyślnie 7).',
+	);
+	printHelp('  /budget           - Szacowany koszt sesji i dnia oraz pozostały budżet.');
+	printHelp('\n  /model            - Pokazuje bieżący silnik i model.');
+	printHelp('  /model list [SILNIK] - Wyświetla modele dostępne w silnikach.');
+	printHelp(
+		'  /model switch <SILNIK>:<model> - Przełącza silnik i model z zachowaniem historii.',
+	);
 	printHelp('\n  /pdf              - Eksportuje sesję do PDF.');
+	printHelp(
+		'  /export <md|html|json|txt> [ścieżka] [--session=ID] - Eksportuje sesję (domyślnie bieżącą) do pliku.',
+	);
 	printHelp(
 		'  /audio [--lang=KOD] - Odczytuje ostatnią odpowiedź asystenta (domyślnie: pl-PL).',
 	);
 	printHelp('\n  /assistant list   - Wyświetla listę dostępnych asystentów.');
 	printHelp('  /assistant switch <ID> - Przełącza na innego asystenta.');
+	printHelp(
+		'  /assistant create [ID] - Tworzy nowego asystenta (nazwa, opis, instrukcja w $EDITOR).',
+	);
+	printHelp('  /assistant edit <ID>   - Edytuje asystenta zdefiniowanego w pliku.');
+	printHelp(
+		'  /assistant clone <ID> <nowe-ID> - Kopiuje asystenta (także wbudowanego).',
+	);
+	printHelp('  /assistant delete <ID> - Usuwa asystenta zdefiniowanego w pliku.');
+	printHelp(
+		'  /roundtable <ID1> <ID2> [...] - Każdą wiadomość komentują kolejno wskazani asystenci.',
+	);
+	printHelp('  /roundtable off   - Kończy tryb okrągłego stołu.');
 }
 
 /**
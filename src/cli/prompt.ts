@@ -3,8 +3,9 @@
  * Simplified version using @inquirer/prompts for TypeScript.
  */
 
-import { input, search } from '@inquirer/prompts';
+import { confirm, editor, input, search, Separator } from '@inquirer/prompts';
 import chalk from 'chalk';
+import { compareSessions, getSessionGroup } from '../session/organization.js';
 
 /**
  * Session choice type for search prompt.
@@ -14,6 +15,30 @@ export interface SessionChoice {
 	title?: string;
 	messagesCount?: number;
 	lastActivity?: string;
+	updatedAt?: string; // ISO timestamp of the last message, for ranking by recency
+	tags?: string[];
+	folder?: string;
+	pinned?: boolean;
+}
+
+/**
+ * Assistant details entered by the user.
+ */
+export interface AssistantDetails {
+	name: string;
+	description: string;
+	systemPrompt: string;
+}
+
+/**
+ * Checks whether a prompt was cancelled with Ctrl+C or Escape.
+ */
+function isPromptCancelled(error: unknown): boolean {
+	if (error && typeof error === 'object') {
+		const errorName = error.constructor?.name || (error as any).name;
+		return errorName === 'ExitPromptError';
+	}
+	return false;
 }
 
 /**
@@ -57,7 +82,9 @@ export async function getUserInput(
 
 /**
  * Interactive session search with autocomplete.
- * Allows users to search and select from available sessions by ID or title.
+ * Allows users to search and select from available sessions by ID, title, tag or folder
+ * (`#tag` matches tags only). Sessions are grouped into pinned ones, folders and the rest;
+ * within a group, sessions tagged with the search term come first, then the most recent.
  *
  * @param sessions - List of available sessions
  * @param currentSessionId - ID of the current session (to exclude from list)
@@ -76,22 +103,43 @@ export async function searchSession(
 
 	try {
 		const selectedId = await search<string>({
-			message: 'Wybierz sesję (wpisz by filtrować po ID lub tytule):',
+			message: 'Wybierz sesję (wpisz by filtrować po ID, tytule, tagu lub folderze):',
 			source: async (term) => {
 				const searchTerm = (term || '').toLowerCase().trim();
+				const tagTerm = searchTerm.replace(/^#/, '');
+				const hasTag = (session: SessionChoice): boolean =>
+					!!tagTerm && !!session.tags?.includes(tagTerm);
 
 				// Filter sessions based on search term
 				const filtered = availableSessions.filter((session) => {
 					if (!searchTerm) return true;
+					if (searchTerm.startsWith('#')) {
+						return !!session.tags?.some((tag) => tag.startsWith(tagTerm));
+					}
 					const matchesId = session.id.toLowerCase().includes(searchTerm);
 					const matchesTitle = session.title
 						?.toLowerCase()
 						.includes(searchTerm);
-					return matchesId || matchesTitle;
+					const matchesTag = session.tags?.some((tag) => tag.includes(searchTerm));
+					const matchesFolder = session.folder
+						?.toLowerCase()
+						.includes(searchTerm);
+					return matchesId || matchesTitle || matchesTag || matchesFolder;
+				});
+
+				// Sort: group by pin and folder, then exact tag matches, then by last activity
+				filtered.sort((a, b) => {
+					const sameGroup = getSessionGroup(a) === getSessionGroup(b);
+					return sameGroup && hasTag(a) !== hasTag(b)
+						? Number(hasTag(b)) - Number(hasTag(a))
+						: compareSessions(a, b);
 				});
 
-				// Sort: prioritize title matches, then by last activity
-				return filtered.map((session) => {
+				const choices: Array<
+					Separator | { name: string; value: string; description?: string }
+				> = [];
+				let group: string | null | undefined;
+				for (const session of filtered) {
 					const shortId = session.id.substring(0, 8);
 					const displayName = session.title
 						? `${session.title} (${shortId}...)`
@@ -104,16 +152,28 @@ export async function searchSession(
 						session.lastActivity
 							? `Ostatnia aktywność: ${session.lastActivity}`
 							: null,
+						session.tags?.length
+							? session.tags.map((tag) => `#${tag}`).join(' ')
+							: null,
 					]
 						.filter(Boolean)
 						.join(' | ');
 
-					return {
+					// Group headers only when sessions are organized at all
+					const sessionGroup = getSessionGroup(session);
+					if (sessionGroup !== group && (sessionGroup || group)) {
+						choices.push(new Separator(chalk.bold(sessionGroup || '📄 Pozostałe')));
+					}
+					group = sessionGroup;
+
+					choices.push({
 						name: displayName,
 						value: session.id,
 						description: description || undefined,
-					};
-				});
+					});
+				}
+
+				return choices;
 			},
 			pageSize: 10,
 			theme: {
@@ -136,3 +196,105 @@ export async function searchSession(
 		throw error;
 	}
 }
+
+/**
+ * Asks for an assistant's name, description and system prompt.
+ * The system prompt is edited in $EDITOR, so it can span multiple lines.
+ *
+ * @param defaults - Current values, offered as defaults when editing
+ * @returns Entered details, or null if cancelled
+ */
+export async function promptAssistantDetails(
+	defaults?: AssistantDetails,
+): Promise<AssistantDetails | null> {
+	try {
+		const name = await input({
+			message: 'Nazwa asystenta:',
+			default: defaults?.name,
+			validate: (value) => value.trim().length > 0 || 'Nazwa nie może być pusta',
+		});
+		const description = await input({
+			message: 'Opis:',
+			default: defaults?.description,
+		});
+		const systemPrompt = await editor({
+			message: 'Instrukcja systemowa (otworzy się edytor $EDITOR):',
+			default: defaults?.systemPrompt,
+			postfix: '.md',
+			validate: (value) =>
+				value.trim().length > 0 || 'Instrukcja systemowa nie może być pusta',
+		});
+
+		return {
+			name: name.trim(),
+			description: description.trim(),
+			systemPrompt: systemPrompt.trim(),
+		};
+	} catch (error) {
+		if (isPromptCancelled(error)) {
+			return null;
+		}
+		throw error;
+	}
+}
+
+/**
+ * Asks for the ID of a new assistant.
+ *
+ * @param validate - Returns true for an acceptable ID, or an error message
+ * @returns Entered ID, or null if cancelled
+ */
+export async function promptAssistantId(
+	validate: (id: string) => true | string,
+): Promise<string | null> {
+	try {
+		const id = await input({
+			message: 'ID nowego asystenta:',
+			validate: (value) => validate(value.trim()),
+		});
+		return id.trim();
+	} catch (error) {
+		if (isPromptCancelled(error)) {
+			return null;
+		}
+		throw error;
+	}
+}
+
+/**
+ * Asks the user to confirm an action.
+ *
+ * @returns True if confirmed; false if declined or cancelled
+ */
+export async function confirmAction(message: string): Promise<boolean> {
+	try {
+		return await confirm({ message, default: false });
+	} catch (error) {
+		if (isPromptCancelled(error)) {
+			return false;
+		}
+		throw error;
+	}
+}
+
+/**
+ * Opens a message in $EDITOR so it can be changed.
+ *
+ * @param text - Current message text
+ * @returns Edited text, or null if cancelled or left empty
+ */
+export async function promptMessageEdit(text: string): Promise<string | null> {
+	try {
+		const edited = await editor({
+			message: 'Edytuj wiadomość (otworzy się edytor $EDITOR):',
+			default: text,
+			postfix: '.md',
+		});
+		return edited.trim() || null;
+	} catch (error) {
+		if (isPromptCancelled(error)) {
+			return null;
+		}
+		throw error;
+	}
+}
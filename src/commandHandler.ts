@@ -1,13 +1,50 @@
 import { listAssistants } from './assistant/assistants.js';
 import { displayHelp, printError, printInfo } from './cli/console.js';
 import { searchSession } from './cli/prompt.js';
+import {
+	cloneAssistantCommand,
+	createAssistantCommand,
+	deleteAssistantCommand,
+	editAssistantCommand,
+} from './commands/assistantAuthoring.js';
+import { attachCommand } from './commands/attachFile.js';
 import { generateAudioFromLastMessage } from './commands/audioGeneration.js';
+import { budgetCommand } from './commands/budgetCommand.js';
+import { contextCommand } from './commands/contextCommand.js';
+import { exportCommand } from './commands/exportCommand.js';
+import { modelCommand } from './commands/modelCommand.js';
+import {
+	editCommand,
+	retryCommand,
+	variantsCommand,
+} from './commands/regenerateCommand.js';
+import { recallCommand } from './commands/recallCommand.js';
+import { roundtableCommand } from './commands/roundtableCommand.js';
+import {
+	getSearchHitSessionId,
+	searchCommand,
+} from './commands/searchCommand.js';
+import {
+	checkoutBranchCommand,
+	forkBranchCommand,
+	listBranchesCommand,
+} from './commands/sessionBranches.js';
 import { displayFullSession } from './commands/sessionDisplay.js';
-import { listSessionsCommand } from './commands/sessionList.js';
+import {
+	listSessionsCommand,
+	reindexSessionsCommand,
+} from './commands/sessionList.js';
+import {
+	folderCommand,
+	pinCommand,
+	tagCommand,
+} from './commands/sessionOrganize.js';
+import { importSessionsCommand } from './commands/sessionImport.js';
 import { removeSessionCommand } from './commands/sessionRemove.js';
 import { renameSessionCommand } from './commands/sessionRename.js';
 import { displayHistorySummary } from './commands/sessionSummary.js';
 import { exportSessionToPdf } from './commands/sessionToPdf.js';
+import { usageCommand } from './commands/usageCommand.js';
 import { listSessions } from './files/sessionFiles.js';
 import { getSessionManager } from './session/index.js';
 
@@ -18,8 +55,20 @@ const VALID_SLASH_COMMANDS = [
 	'/help',
 	'/session',
 	'/pdf',
+	'/export',
 	'/assistant',
 	'/audio',
+	'/attach',
+	'/context',
+	'/usage',
+	'/budget',
+	'/model',
+	'/roundtable',
+	'/retry',
+	'/edit',
+	'/variants',
+	'/search',
+	'/recall',
 ];
 
 /**
@@ -59,8 +108,10 @@ export async function handleCommand(userInput: string): Promise<boolean> {
 		let targetSessionId: string | null = null;
 
 		if (parts.length === 2) {
-			// Direct session ID provided
-			targetSessionId = parts[1];
+			// Direct session ID, or the number of a hit from the last /search or /recall
+			targetSessionId = /^\d+$/.test(parts[1])
+				? getSearchHitSessionId(parseInt(parts[1], 10)) || parts[1]
+				: parts[1];
 		} else if (parts.length === 1) {
 			// No session ID provided - show interactive search
 			const sessions = listSessions();
@@ -74,6 +125,10 @@ export async function handleCommand(userInput: string): Promise<boolean> {
 					title: s.title,
 					messagesCount: s.messages_count,
 					lastActivity: s.last_activity,
+					updatedAt: s.updated_at,
+					tags: s.tags,
+					folder: s.folder,
+					pinned: s.pinned,
 				}));
 
 			if (sessionChoices.length === 0) {
@@ -89,7 +144,7 @@ export async function handleCommand(userInput: string): Promise<boolean> {
 				return false;
 			}
 		} else {
-			printError('Błąd: Użycie: /switch [SESSION-ID]');
+			printError('Błąd: Użycie: /switch [SESSION-ID | nr wyniku /search lub /recall]');
 			return false;
 		}
 
@@ -138,7 +193,7 @@ export async function handleCommand(userInput: string): Promise<boolean> {
 	else if (command === '/session') {
 		if (parts.length < 2) {
 			printError(
-				'Błąd: Komenda /session wymaga podkomendy (list, display, pop, clear, new, rename, remove).',
+				'Błąd: Komenda /session wymaga podkomendy (list, display, pop, clear, new, rename, remove, reindex, import, tag, pin, unpin, folder, fork, branches, checkout).',
 			);
 		} else {
 			await handleSessionSubcommand(parts.slice(1), manager);
@@ -147,12 +202,12 @@ export async function handleCommand(userInput: string): Promise<boolean> {
 
 	// PDF export
 	else if (command === '/pdf') {
-		const current = manager.getCurrentSession();
-		await exportSessionToPdf(
-			await current.getHistory(),
-			current.getSessionId(),
-			current.assistantName,
-		);
+		await exportSessionToPdf(manager.getCurrentSession());
+	}
+
+	// Markdown, HTML, JSON and text export
+	else if (command === '/export') {
+		await exportCommand(manager.getCurrentSession(), parts.slice(1));
 	}
 
 	// Audio generation
@@ -169,10 +224,64 @@ export async function handleCommand(userInput: string): Promise<boolean> {
 		);
 	}
 
+	// Attachments for the next message (the path may contain spaces)
+	else if (command === '/attach') {
+		attachCommand(
+			manager.getCurrentSession(),
+			userInput.trim().slice(parts[0].length),
+		);
+	}
+
+	// Context window management
+	else if (command === '/context') {
+		await contextCommand(manager.getCurrentSession(), parts.slice(1));
+	}
+
+	// Token usage totals from the WAL
+	else if (command === '/usage') {
+		usageCommand(manager.getCurrentSession(), parts.slice(1));
+	}
+
+	// Estimated cost and budget limits
+	else if (command === '/budget') {
+		budgetCommand(manager.getCurrentSession());
+	}
+
+	// Runtime engine/model switching
+	else if (command === '/model') {
+		await modelCommand(manager.getCurrentSession(), parts.slice(1));
+	}
+
+	// Several assistants answering each message
+	else if (command === '/roundtable') {
+		await roundtableCommand(manager.getCurrentSession(), parts.slice(1));
+	}
+
+	// Full-text search across sessions (the query may contain quoted phrases)
+	else if (command === '/search') {
+		searchCommand(userInput.trim().slice(parts[0].length));
+	}
+
+	// Semantic search across sessions
+	else if (command === '/recall') {
+		await recallCommand(userInput.trim().slice(parts[0].length));
+	}
+
+	// Answering an exchange again, keeping the previous version
+	else if (command === '/retry') {
+		await retryCommand(manager.getCurrentSession(), parts.slice(1));
+	} else if (command === '/edit') {
+		await editCommand(manager.getCurrentSession(), parts.slice(1));
+	} else if (command === '/variants') {
+		await variantsCommand(manager.getCurrentSession(), parts.slice(1));
+	}
+
 	// Assistant management
 	else if (command === '/assistant') {
 		if (parts.length < 2) {
-			printError('Błąd: Komenda /assistant wymaga podkomendy (list, switch).');
+			printError(
+				'Błąd: Komenda /assistant wymaga podkomendy (list, switch, create, edit, clone, delete).',
+			);
 		} else {
 			await handleAssistantSubcommand(parts.slice(1), manager);
 		}
@@ -192,7 +301,7 @@ async function handleSessionSubcommand(
 	const current = manager.getCurrentSession();
 
 	if (subcommand === 'list') {
-		listSessionsCommand();
+		listSessionsCommand(parts.slice(1));
 	} else if (subcommand === 'display') {
 		displayFullSession(
 			await current.getHistory(),
@@ -236,6 +345,22 @@ async function handleSessionSubcommand(
 	} else if (subcommand === 'rename') {
 		const newTitle = parts.slice(1).join(' ');
 		await renameSessionCommand(manager, newTitle);
+	} else if (subcommand === 'reindex') {
+		reindexSessionsCommand();
+	} else if (subcommand === 'import') {
+		importSessionsCommand(parts.slice(1));
+	} else if (subcommand === 'tag') {
+		await tagCommand(current, parts.slice(1));
+	} else if (subcommand === 'pin' || subcommand === 'unpin') {
+		await pinCommand(current, subcommand === 'pin');
+	} else if (subcommand === 'folder') {
+		await folderCommand(current, parts.slice(1));
+	} else if (subcommand === 'fork') {
+		await forkBranchCommand(current, parts.slice(1));
+	} else if (subcommand === 'branches') {
+		await listBranchesCommand(current);
+	} else if (subcommand === 'checkout') {
+		await checkoutBranchCommand(current, parts.slice(1));
 	} else {
 		printError(
 			`Błąd: Nieznana podkomenda dla /session: ${subcommand}. Użyj /help.`,
@@ -263,6 +388,13 @@ async function handleAssistantSubcommand(
 			printInfo(`\n${assistant.name}${currentMarker}`);
 			printInfo(`  ID: ${assistant.id}`);
 			printInfo(`  Opis: ${assistant.description}`);
+			if (assistant.engine || assistant.model) {
+				const model = [assistant.engine, assistant.model].filter(Boolean).join(' / ');
+				printInfo(`  Model: ${model}`);
+			}
+			if (assistant.source) {
+				printInfo(`  Plik: ${assistant.source}`);
+			}
 		});
 		printInfo('\nUżycie: /assistant switch <ID>');
 	} else if (subcommand === 'switch') {
@@ -295,6 +427,22 @@ async function handleAssistantSubcommand(
 				);
 			}
 		}
+	} else if (subcommand === 'create') {
+		await createAssistantCommand(parts[1]);
+	} else if (subcommand === 'edit' || subcommand === 'delete') {
+		if (parts.length < 2) {
+			printError(`Błąd: Użycie: /assistant ${subcommand} <ID>`);
+		} else if (subcommand === 'edit') {
+			await editAssistantCommand(manager, parts[1]);
+		} else {
+			await deleteAssistantCommand(manager, parts[1]);
+		}
+	} else if (subcommand === 'clone') {
+		if (parts.length < 3) {
+			printError('Błąd: Użycie: /assistant clone <ID> <nowe-ID>');
+		} else {
+			cloneAssistantCommand(parts[1], parts[2]);
+		}
 	} else {
 		printError(
 			`Błąd: Nieznana podkomenda dla /assistant: ${subcommand}. Użyj /help.`,
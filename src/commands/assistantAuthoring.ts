@@ -0,0 +1,182 @@
+/**
+ * Assistant authoring commands: create, edit, clone and delete user-defined assistants
+ */
+
+import {
+  assistantExists,
+  getAssistantById,
+  isBuiltInAssistant,
+  reloadAssistants,
+  type AssistantDefinition
+} from '../assistant/assistants.js';
+import { ASSISTANT_ID_MESSAGE, ASSISTANT_ID_PATTERN } from '../assistant/assistantValidation.js';
+import { printError, printInfo, printWarning } from '../cli/console.js';
+import { confirmAction, promptAssistantDetails, promptAssistantId } from '../cli/prompt.js';
+import { deleteAssistantFile, saveAssistantFile } from '../files/assistantFiles.js';
+import type { SessionManager } from '../session/sessionManager.js';
+
+/**
+ * Validates the ID of a new assistant.
+ * @returns true if the ID is free and well-formed, otherwise an error message
+ */
+function validateNewId(id: string): true | string {
+  if (!ASSISTANT_ID_PATTERN.test(id)) {
+    return ASSISTANT_ID_MESSAGE;
+  }
+  if (assistantExists(id)) {
+    return `Asystent '${id}' już istnieje`;
+  }
+  return true;
+}
+
+/**
+ * Looks up an assistant, printing an error if it doesn't exist.
+ */
+function findAssistant(id: string): AssistantDefinition | null {
+  try {
+    return getAssistantById(id);
+  } catch (error) {
+    printError(`Błąd: ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+}
+
+/**
+ * Saves a definition and reloads the registry, reporting problems with other files.
+ * @returns true if the assistant was saved
+ */
+function persistAssistant(definition: AssistantDefinition): boolean {
+  const [filePath, error] = saveAssistantFile(definition);
+  if (!filePath) {
+    printError(`Błąd: ${error}`);
+    return false;
+  }
+
+  for (const loadError of reloadAssistants()) {
+    printWarning(`Pominięto plik asystenta: ${loadError}`);
+  }
+  printInfo(`✓ Zapisano asystenta '${definition.id}' w ${filePath}`);
+  return true;
+}
+
+/**
+ * Reloads the current session's assistant after its definition changed or was removed.
+ */
+async function refreshCurrentAssistant(manager: SessionManager, id: string): Promise<void> {
+  if (manager.getCurrentSession().assistantId !== id) {
+    return;
+  }
+  const nextId = assistantExists(id) ? id : 'azor';
+  await manager.switchAssistantInCurrentSession(nextId);
+  printInfo(`Bieżąca sesja używa teraz asystenta: ${manager.getCurrentSession().assistantName}`);
+}
+
+/**
+ * Handles /assistant create [id]: asks for the details and saves a new assistant.
+ */
+export async function createAssistantCommand(id?: string): Promise<void> {
+  if (id) {
+    const validation = validateNewId(id);
+    if (validation !== true) {
+      printError(`Błąd: ${validation}`);
+      return;
+    }
+  }
+
+  const newId = id || (await promptAssistantId(validateNewId));
+  if (!newId) {
+    printInfo('Anulowano tworzenie asystenta.');
+    return;
+  }
+
+  const details = await promptAssistantDetails();
+  if (!details) {
+    printInfo('Anulowano tworzenie asystenta.');
+    return;
+  }
+
+  persistAssistant({ id: newId, ...details });
+}
+
+/**
+ * Handles /assistant edit <id>: edits the name, description and system prompt in place.
+ * Built-in assistants can't be edited; they can be cloned instead.
+ */
+export async function editAssistantCommand(manager: SessionManager, id: string): Promise<void> {
+  if (isBuiltInAssistant(id)) {
+    printError(`Błąd: Wbudowanego asystenta nie można edytować. Użyj: /assistant clone ${id} <nowe-id>`);
+    return;
+  }
+
+  const definition = findAssistant(id);
+  if (!definition) {
+    return;
+  }
+
+  const details = await promptAssistantDetails({
+    name: definition.name,
+    description: definition.description,
+    systemPrompt: definition.systemPrompt
+  });
+  if (!details) {
+    printInfo('Anulowano edycję asystenta.');
+    return;
+  }
+
+  if (persistAssistant({ ...definition, ...details })) {
+    await refreshCurrentAssistant(manager, definition.id);
+  }
+}
+
+/**
+ * Handles /assistant clone <id> <new-id>: copies any assistant, built-in ones included,
+ * to a new file in the user directory.
+ */
+export function cloneAssistantCommand(id: string, newId: string): void {
+  const definition = findAssistant(id);
+  if (!definition) {
+    return;
+  }
+
+  const validation = validateNewId(newId);
+  if (validation !== true) {
+    printError(`Błąd: ${validation}`);
+    return;
+  }
+
+  const { source: _source, ...fields } = definition;
+  if (persistAssistant({ ...fields, id: newId, name: `${definition.name} (kopia)` })) {
+    printInfo(`Aby dostosować kopię, użyj: /assistant edit ${newId}`);
+  }
+}
+
+/**
+ * Handles /assistant delete <id>: removes a user-defined assistant after confirmation.
+ * Built-in assistants can't be deleted.
+ */
+export async function deleteAssistantCommand(manager: SessionManager, id: string): Promise<void> {
+  if (isBuiltInAssistant(id)) {
+    printError('Błąd: Wbudowanych asystentów nie można usuwać.');
+    return;
+  }
+
+  const definition = findAssistant(id);
+  if (!definition) {
+    return;
+  }
+
+  if (!(await confirmAction(`Usunąć asystenta '${definition.id}' (${definition.source})?`))) {
+    printInfo('Anulowano usuwanie asystenta.');
+    return;
+  }
+
+  const [success, error] = deleteAssistantFile(definition);
+  if (!success) {
+    printError(`Błąd: ${error}`);
+    return;
+  }
+
+  reloadAssistants();
+  printInfo(`✓ Usunięto asystenta '${definition.id}'.`);
+  await refreshCurrentAssistant(manager, definition.id);
+}
@@ -0,0 +1,60 @@
+/**
+ * Attachment command implementation
+ */
+
+import type { ChatSession } from '../session/chatSession.js';
+import { printError, printInfo } from '../cli/console.js';
+import { storeAttachment } from '../files/attachments.js';
+import { describePart } from '../utils/messageParts.js';
+
+/**
+ * Stores a file and queues it for the next message in the session.
+ * Used by /attach and by inline `@file` references.
+ *
+ * @returns true if the file was attached
+ */
+export function attachFileToSession(session: ChatSession, filePath: string): boolean {
+  const [attachment, error] = storeAttachment(filePath);
+
+  if (!attachment) {
+    printError(`Błąd: ${error}`);
+    return false;
+  }
+
+  if (session.addAttachment(attachment)) {
+    printInfo(`✓ Dołączono: ${describePart(attachment)}`);
+  } else {
+    printInfo(`Plik ${attachment.attachment.filename} jest już dołączony.`);
+  }
+  return true;
+}
+
+/**
+ * Handles the /attach command.
+ * Usage: /attach <path> | /attach (list queued files) | /attach clear
+ */
+export function attachCommand(session: ChatSession, argument: string): void {
+  const trimmed = argument.trim();
+
+  if (trimmed.toLowerCase() === 'clear') {
+    session.clearPendingAttachments();
+    printInfo('Usunięto załączniki oczekujące na wysłanie.');
+    return;
+  }
+
+  if (trimmed) {
+    attachFileToSession(session, trimmed);
+    return;
+  }
+
+  const pending = session.getPendingAttachments();
+  if (pending.length === 0) {
+    printInfo('Brak załączników. Użycie: /attach <ścieżka> lub @ścieżka w treści wiadomości.');
+    return;
+  }
+
+  printInfo('Załączniki do wysłania z następną wiadomością:');
+  for (const attachment of pending) {
+    printInfo(`  ${describePart(attachment)}`);
+  }
+}
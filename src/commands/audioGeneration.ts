@@ -1,6 +1,7 @@
 import type { ChatHistory } from '../types.js';
 import { printInfo, printError } from '../cli/console.js';
 import say from 'say';
+import { getMessageText } from '../utils/messageParts.js';
 
 /**
  * Maps language codes to voice names for macOS say command.
@@ -44,7 +45,7 @@ export async function generateAudioFromLastMessage(
     return;
   }
 
-  const text = lastAssistantMessage.parts[0].text;
+  const text = getMessageText(lastAssistantMessage);
 
   if (!text || text.trim().length === 0) {
     printError('Ostatnia wiadomość asystenta jest pusta.');
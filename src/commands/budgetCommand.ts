@@ -0,0 +1,71 @@
+/**
+ * Budget command implementation
+ */
+
+import type { ChatSession } from '../session/chatSession.js';
+import { printError, printHelp, printInfo, printWarning } from '../cli/console.js';
+import { findModelPrice, loadPricingTable } from '../files/pricing.js';
+import {
+  checkBudget,
+  computeSpend,
+  formatCost,
+  loadBudgetLimits
+} from '../session/budget.js';
+
+/**
+ * Formats spend against a soft and a hard limit.
+ */
+function formatAllowance(cost: number, soft: number | null, hard: number | null): string {
+  const limits: string[] = [];
+  if (soft !== null) {
+    limits.push(`miękki ${formatCost(soft)}`);
+  }
+  if (hard !== null) {
+    limits.push(`twardy ${formatCost(hard)}, pozostało ${formatCost(Math.max(0, hard - cost))}`);
+  }
+  return limits.length > 0
+    ? `${formatCost(cost)} (limit: ${limits.join('; ')})`
+    : `${formatCost(cost)} (bez limitu)`;
+}
+
+/**
+ * Handles the /budget command: estimated spend of the session and today, with remaining allowance.
+ */
+export function budgetCommand(session: ChatSession): void {
+  const [limits, limitsError] = loadBudgetLimits();
+  if (limitsError) {
+    printError(limitsError);
+  }
+  const [spend, pricingError] = computeSpend(session.getSessionId());
+  if (pricingError) {
+    printError(pricingError);
+  }
+
+  const modelName = session.getLLMClient()?.getModelName() || '';
+  const [pricing] = loadPricingTable();
+  const price = findModelPrice(pricing, modelName);
+
+  printInfo('\n=== Budżet ===');
+  printInfo(
+    price
+      ? `Model: ${modelName} ($${price.input} / $${price.output} za milion tokenów wejścia / wyjścia)`
+      : `Model: ${modelName} (brak ceny - traktowany jako bezpłatny)`
+  );
+  printInfo(`Sesja: ${formatAllowance(spend.sessionCost, limits.sessionSoft, limits.sessionHard)}`);
+  printInfo(`Dziś: ${formatAllowance(spend.dailyCost, limits.dailySoft, limits.dailyHard)}`);
+
+  if (spend.unpricedSessionTurns > 0 || spend.unpricedDailyTurns > 0) {
+    printHelp(
+      `Tury modeli bez ceny (nieuwzględnione w koszcie): sesja ${spend.unpricedSessionTurns}, dziś ${spend.unpricedDailyTurns}`
+    );
+  }
+
+  const status = checkBudget(spend, limits);
+  for (const message of status.messages) {
+    if (status.level === 'hard') {
+      printError(message);
+    } else {
+      printWarning(message);
+    }
+  }
+}
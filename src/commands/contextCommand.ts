@@ -0,0 +1,101 @@
+/**
+ * Context window command implementation
+ */
+
+import type { ChatSession } from '../session/chatSession.js';
+import { printError, printInfo } from '../cli/console.js';
+import {
+  CONTEXT_STRATEGIES,
+  isContextStrategy
+} from '../session/contextManager.js';
+
+const CONTEXT_USAGE =
+  'Użycie: /context [pin <nr> | unpin <nr> | strategy <truncate|summarize> | compact]';
+
+/**
+ * Displays what is currently sent to the model: budget, usage, pins and summary.
+ */
+async function displayContext(session: ChatSession): Promise<void> {
+  const context = session.getContextState();
+  const history = await session.getHistory();
+  const [usedTokens, , maxTokens, estimated] = await session.getTokenInfo();
+  const percentage = maxTokens > 0 ? Math.round((usedTokens / maxTokens) * 100) : 0;
+
+  printInfo('\n=== Okno kontekstu ===');
+  printInfo(`Strategia: ${context.strategy}`);
+  printInfo(`Budżet: ${maxTokens} tokenów, użyte: ${estimated ? '~' : ''}${usedTokens} (${percentage}%)${estimated ? ' (szacunek)' : ''}`);
+
+  if (context.cutoff === 0) {
+    printInfo(`Wysyłane wiadomości: wszystkie (${history.length})`);
+  } else {
+    printInfo(
+      `Wysyłane wiadomości: ${context.cutoff + 1}-${history.length} z ${history.length}` +
+        ` (wcześniejsze ${context.strategy === 'summarize' ? 'podsumowane' : 'pominięte'})`
+    );
+  }
+
+  if (context.pinned.length > 0) {
+    printInfo(`Przypięte wiadomości: ${context.pinned.map(index => index + 1).join(', ')}`);
+  }
+
+  if (context.summary) {
+    printInfo('\nPodsumowanie wcześniejszej rozmowy:');
+    printInfo(context.summary);
+  }
+
+  printInfo(`\n${CONTEXT_USAGE}`);
+}
+
+/**
+ * Handles the /context command and its subcommands.
+ */
+export async function contextCommand(session: ChatSession, args: string[]): Promise<void> {
+  if (args.length === 0) {
+    await displayContext(session);
+    return;
+  }
+
+  const subcommand = args[0].toLowerCase();
+
+  if (subcommand === 'pin' || subcommand === 'unpin') {
+    const messageNumber = Number(args[1]);
+    if (args.length !== 2 || !Number.isInteger(messageNumber)) {
+      printError(`Błąd: Użycie: /context ${subcommand} <nr wiadomości z /session display>`);
+      return;
+    }
+
+    const [success, error] = await session.setPinned(messageNumber, subcommand === 'pin');
+    if (!success) {
+      printError(`Błąd: ${error}`);
+      return;
+    }
+    printInfo(
+      subcommand === 'pin'
+        ? `✓ Przypięto wymianę zawierającą wiadomość ${messageNumber}.`
+        : `✓ Odpięto wymianę zawierającą wiadomość ${messageNumber}.`
+    );
+  } else if (subcommand === 'strategy') {
+    const strategy = (args[1] || '').toLowerCase();
+    if (!isContextStrategy(strategy)) {
+      printError(`Błąd: Strategia musi być jedną z wartości: ${CONTEXT_STRATEGIES.join(', ')}`);
+      return;
+    }
+    await session.setContextStrategy(strategy);
+    printInfo(`✓ Strategia kontekstu: ${strategy}`);
+  } else if (subcommand === 'compact') {
+    const [compacted, warning] = await session.compactContext('', true);
+    if (warning) {
+      printError(warning);
+    }
+    if (!compacted) {
+      if (!warning) {
+        printInfo('Nie ma starszych wymian do przeniesienia poza kontekst.');
+      }
+      return;
+    }
+    await session.saveToFile();
+    printInfo(`✓ Kontekst zaczyna się teraz od wiadomości ${session.getContextState().cutoff + 1}.`);
+  } else {
+    printError(`Błąd: Nieznana podkomenda dla /context: ${subcommand}. ${CONTEXT_USAGE}`);
+  }
+}
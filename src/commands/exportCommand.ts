@@ -0,0 +1,144 @@
+/**
+ * Export command implementation
+ * Writes the current or a chosen session as Markdown, HTML, JSON or plain text.
+ */
+
+import { existsSync, mkdirSync, statSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join, resolve } from 'path';
+import type { ChatSession } from '../session/chatSession.js';
+import { getAssistantById } from '../assistant/assistants.js';
+import { printError, printInfo } from '../cli/console.js';
+import { OUTPUT_DIR } from '../files/config.js';
+import { renderHtml } from '../files/export/html.js';
+import {
+  buildSessionExport,
+  EXPORT_FORMATS,
+  renderJson,
+  renderMarkdown,
+  renderText,
+  type ExportFormat,
+  type ExportSource,
+  type SessionExport
+} from '../files/export/sessionExport.js';
+import {
+  loadStoredSession,
+  storedHistoryToChatHistory,
+  storedOrganizationToSessionOrganization
+} from '../files/sessionFiles.js';
+
+const EXPORT_USAGE = `Użycie: /export <${EXPORT_FORMATS.join('|')}> [ścieżka] [--session=ID]`;
+
+const RENDERERS: Record<ExportFormat, (document: SessionExport) => string> = {
+  md: renderMarkdown,
+  html: renderHtml,
+  json: renderJson,
+  txt: renderText
+};
+
+/**
+ * Collects the export data of an open session.
+ */
+export async function getSessionExportSource(session: ChatSession): Promise<ExportSource> {
+  return {
+    sessionId: session.getSessionId(),
+    title: session.getTitle(),
+    assistantId: session.assistantId,
+    assistantName: session.assistantName,
+    model: session.getLLMClient()?.getModelName() || '',
+    branch: session.getActiveBranch(),
+    organization: session.getOrganization(),
+    history: await session.getHistory()
+  };
+}
+
+/**
+ * Collects the export data of a saved session.
+ *
+ * @returns [source, error_message]
+ */
+function storedSessionSource(sessionId: string): [ExportSource | null, string | null] {
+  const [stored, error] = loadStoredSession(sessionId);
+  if (!stored) {
+    return [null, error || `Nie znaleziono sesji o ID: ${sessionId}`];
+  }
+
+  let assistantName = stored.assistant_id.toUpperCase();
+  try {
+    assistantName = getAssistantById(stored.assistant_id).name;
+  } catch {
+    // Removed assistants are shown by their ID
+  }
+
+  return [{
+    sessionId,
+    title: stored.title || null,
+    assistantId: stored.assistant_id,
+    assistantName,
+    model: stored.model,
+    ...(stored.branch && { branch: stored.branch }),
+    organization: storedOrganizationToSessionOrganization(stored),
+    history: storedHistoryToChatHistory(stored.history)
+  }, null];
+}
+
+/**
+ * Resolves the output file: the default name in OUTPUT_DIR, or the given path
+ * (a directory gets the default name inside it; `~` is the home directory).
+ */
+function resolveOutputPath(path: string | undefined, sessionId: string, format: ExportFormat): string {
+  const filename = `${sessionId}.${format}`;
+  if (!path) {
+    return join(OUTPUT_DIR, filename);
+  }
+
+  const resolved = resolve(path.replace(/^~(?=$|\/)/, homedir()));
+  const isDirectory = path.endsWith('/') || (existsSync(resolved) && statSync(resolved).isDirectory());
+  return isDirectory ? join(resolved, filename) : resolved;
+}
+
+/**
+ * Handles /export: renders a session in the chosen format and writes it to a file.
+ * Usage: /export <md|html|json|txt> [path] [--session=ID]
+ */
+export async function exportCommand(session: ChatSession, args: string[]): Promise<void> {
+  const format = args[0]?.toLowerCase() as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    printError(`Błąd: ${args[0] ? `Nieznany format: ${args[0]}. ` : ''}${EXPORT_USAGE}`);
+    return;
+  }
+
+  const sessionArg = args.find(arg => arg.startsWith('--session='));
+  const pathArgs = args.slice(1).filter(arg => arg !== sessionArg);
+  const sessionId = sessionArg?.slice('--session='.length);
+
+  let source: ExportSource | null;
+  if (!sessionId || sessionId === session.getSessionId()) {
+    source = await getSessionExportSource(session);
+  } else {
+    let error: string | null;
+    [source, error] = storedSessionSource(sessionId);
+    if (!source) {
+      printError(`Błąd: ${error}`);
+      return;
+    }
+  }
+
+  if (source.history.length === 0) {
+    printInfo('Historia sesji jest pusta. Nie ma czego eksportować.');
+    return;
+  }
+
+  // Paths may contain spaces
+  const outputPath = resolveOutputPath(pathArgs.join(' ') || undefined, source.sessionId, format);
+  try {
+    const content = RENDERERS[format](buildSessionExport(source));
+    mkdirSync(dirname(outputPath), { recursive: true });
+    writeFileSync(outputPath, content, 'utf-8');
+  } catch (error) {
+    printError(`Błąd eksportu: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+
+  printInfo(`✓ Wyeksportowano sesję (${source.history.length} wiadomości) do: ${outputPath}`);
+}
@@ -0,0 +1,126 @@
+/**
+ * Model command implementation
+ * Lists the models of each engine and switches the session's engine/model at runtime.
+ */
+
+import type { ChatSession } from '../session/chatSession.js';
+import { printError, printHelp, printInfo } from '../cli/console.js';
+import { getEngine, listEngineNames } from '../llm/engineRegistry.js';
+
+const MODEL_USAGE = 'Użycie: /model [list [SILNIK] | switch <SILNIK>[:<model>]]';
+
+/**
+ * Displays the engine and model of the session and its recorded model changes.
+ */
+function displayCurrentModel(session: ChatSession): void {
+  const modelName = session.getLLMClient()?.getModelName() || 'brak';
+  printInfo(`\nSilnik: ${session.getEngineName() || 'brak'}, model: ${modelName}`);
+
+  const changes = session.getModelChanges();
+  if (changes.length > 0) {
+    printInfo('Zmiany modelu w tej sesji:');
+    for (const change of changes) {
+      const time = new Date(change.timestamp).toLocaleString('pl-PL');
+      printHelp(
+        `  ${time} po ${change.messageIndex} wiadomościach: ${change.engine}:${change.model || '(domyślny)'}`
+      );
+    }
+  }
+
+  printInfo(`\n${MODEL_USAGE}`);
+}
+
+/**
+ * Lists the models available to each engine (or a single one).
+ */
+async function listModels(session: ChatSession, engineFilter?: string): Promise<void> {
+  let engineNames = listEngineNames();
+  if (engineFilter) {
+    try {
+      engineNames = [getEngine(engineFilter).name];
+    } catch (error) {
+      printError(`Błąd: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+  }
+
+  const currentEngine = session.getEngineName();
+  const currentModel = session.getLLMClient()?.getModelName();
+
+  for (const name of engineNames) {
+    const engine = getEngine(name);
+    printInfo(`\n=== ${name} ===`);
+
+    if (!engine.listModels) {
+      printHelp('  Silnik nie udostępnia listy modeli.');
+      continue;
+    }
+
+    const [models, error] = await engine.listModels();
+    if (error) {
+      printError(`  ${error}`);
+    } else if (models.length === 0) {
+      printHelp('  Brak modeli.');
+    }
+
+    for (const model of models) {
+      const isCurrent =
+        name === currentEngine && (model === currentModel || model === `${currentModel}.gguf`);
+      printInfo(`  ${name}:${model}${isCurrent ? ' (AKTUALNY)' : ''}`);
+    }
+  }
+
+  printInfo('\nUżycie: /model switch <SILNIK>:<model>');
+}
+
+/**
+ * Parses `<engine>[:<model>]`; only the first colon separates them, since model
+ * names such as Ollama's `llama3.2:latest` contain colons themselves.
+ */
+function parseModelSpec(spec: string): [string, string | undefined] {
+  const separator = spec.indexOf(':');
+  if (separator === -1) {
+    return [spec, undefined];
+  }
+  return [spec.slice(0, separator), spec.slice(separator + 1) || undefined];
+}
+
+/**
+ * Switches the session to another engine/model, keeping the conversation.
+ */
+async function switchModel(session: ChatSession, spec: string): Promise<void> {
+  const [engineName, model] = parseModelSpec(spec);
+
+  try {
+    getEngine(engineName);
+    await session.switchModel(engineName, model);
+  } catch (error) {
+    printError(`Błąd: ${error instanceof Error ? error.message : error}`);
+    printInfo('Pozostawiono dotychczasowy model. Dostępne modele: /model list');
+    return;
+  }
+
+  const modelName = session.getLLMClient()?.getModelName();
+  printInfo(`\n✓ Przełączono na ${session.getEngineName()}:${modelName}`);
+  printInfo('Historia konwersacji została zachowana.');
+}
+
+/**
+ * Handles the /model command and its subcommands.
+ */
+export async function modelCommand(session: ChatSession, args: string[]): Promise<void> {
+  if (args.length === 0) {
+    displayCurrentModel(session);
+    return;
+  }
+
+  const subcommand = args[0].toLowerCase();
+
+  if (subcommand === 'list' && args.length <= 2) {
+    await listModels(session, args[1]);
+  } else if (subcommand === 'switch' && args.length === 2) {
+    await switchModel(session, args[1]);
+  } else {
+    printError(`Błąd: ${MODEL_USAGE}`);
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Recall command implementation
+ * Semantic search over all saved sessions: finds earlier exchanges related to a question,
+ * even when they use different words.
+ */
+
+import { printError, printHelp, printInfo } from '../cli/console.js';
+import { recallExchanges } from '../files/vectorIndex.js';
+import { createEmbeddingProvider } from '../llm/embeddings.js';
+import { rememberSearchHits } from './searchCommand.js';
+
+const RECALL_USAGE = 'Użycie: /recall <pytanie>';
+const MAX_HITS = 5;
+const PREVIEW_LENGTH = 200;
+
+/**
+ * Shortens an exchange to a one-line preview.
+ */
+function preview(text: string): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > PREVIEW_LENGTH ? `${line.slice(0, PREVIEW_LENGTH)}...` : line;
+}
+
+/**
+ * Handles /recall: lists the exchanges of saved sessions closest in meaning to a question.
+ * New and changed sessions are embedded first, which may take a while the first time.
+ */
+export async function recallCommand(input: string): Promise<void> {
+  const question = input.trim();
+  if (!question) {
+    printError(`Błąd: ${RECALL_USAGE}`);
+    return;
+  }
+
+  const [provider, providerError] = createEmbeddingProvider();
+  if (!provider) {
+    printError(`Błąd: ${providerError}`);
+    return;
+  }
+
+  printInfo(`Szukam w zapisanych sesjach (embeddingi: ${provider.id})...`);
+  const [hits, error] = await recallExchanges(provider, question, MAX_HITS);
+  if (error) {
+    printError(error);
+  }
+  if (hits.length === 0) {
+    if (!error) {
+      printInfo('Brak zapisanych rozmów do przeszukania.');
+    }
+    return;
+  }
+
+  rememberSearchHits(hits.map(hit => hit.sessionId));
+  printHelp(`\n--- Powiązane rozmowy: ${question} ---`);
+  hits.forEach((hit, index) => {
+    const session = hit.title
+      ? `${hit.title} (ID: ${hit.sessionId.substring(0, 8)}...)`
+      : `ID: ${hit.sessionId}`;
+    const time = new Date(hit.timestamp).toLocaleString('pl-PL');
+    printInfo(`${index + 1}. ${session} - wiadomość ${hit.messageIndex + 1}, ${time} (podobieństwo: ${hit.score.toFixed(2)})`);
+    printHelp(`   ${preview(hit.text)}`);
+  });
+  printHelp('----------------------------------');
+  printInfo('Aby przejść do sesji: /switch <nr wyniku> lub /switch <ID>');
+}
@@ -0,0 +1,234 @@
+/**
+ * Regenerate commands implementation
+ * /retry and /edit answer an exchange again; the previous version is kept as a variant
+ * branch that /variants can switch back to.
+ */
+
+import type { ChatSession, RegenerateOptions } from '../session/chatSession.js';
+import { createAssistant } from '../assistant/assistants.js';
+import { printAssistant, printAssistantChunk, printError, printHelp, printInfo } from '../cli/console.js';
+import { promptMessageEdit } from '../cli/prompt.js';
+import {
+  checkBudget,
+  computeSpend,
+  estimateTurnCost,
+  formatCost,
+  hasBudgetLimits,
+  loadBudgetLimits
+} from '../session/budget.js';
+import { getExchangeRange } from '../session/contextManager.js';
+import type { LLMResponse, StreamChunkHandler } from '../types.js';
+import { getMessageText } from '../utils/messageParts.js';
+import { displayHistorySummary } from './sessionSummary.js';
+
+const RETRY_USAGE = 'Użycie: /retry [ID_asystenta] [--temp=0.0-2.0]';
+const EDIT_USAGE = 'Użycie: /edit <nr> [nowa treść]';
+const PREVIEW_LENGTH = 80;
+
+/**
+ * Checks the conditions every regeneration needs: no round-table and budget left.
+ */
+function canRegenerate(session: ChatSession): boolean {
+  if (session.isRoundtable()) {
+    printError('Błąd: Tej komendy nie można użyć przy okrągłym stole. Zakończ go: /roundtable off');
+    return false;
+  }
+
+  const [limits] = loadBudgetLimits();
+  if (hasBudgetLimits(limits)) {
+    const [spend] = computeSpend(session.getSessionId());
+    const budget = checkBudget(spend, limits);
+    if (budget.level === 'hard') {
+      budget.messages.forEach(message => printError(message));
+      printError('Wiadomość nie została wysłana. Szczegóły: /budget');
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Runs a regeneration, streaming the answer under the speaker's name and
+ * reporting token usage afterwards.
+ */
+async function streamRegenerated(
+  session: ChatSession,
+  speakerName: string,
+  regenerate: (onChunk: StreamChunkHandler) => Promise<LLMResponse>
+): Promise<void> {
+  let streamStarted = false;
+  const onChunk = (chunk: string): void => {
+    if (!streamStarted) {
+      streamStarted = true;
+      printAssistantChunk(`\n${speakerName}: `);
+    }
+    printAssistantChunk(chunk);
+  };
+
+  let response: LLMResponse;
+  try {
+    response = await regenerate(onChunk);
+  } catch (error) {
+    printError(`Błąd: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+
+  if (streamStarted) {
+    process.stdout.write('\n');
+  } else if (response.text) {
+    printAssistant(`\n${speakerName}: ${response.text}`);
+  }
+
+  const [totalTokens, remainingTokens, maxTokens, estimated] = await session.getTokenInfo();
+  const turnUsage = response.usage
+    ? ` | Tura: ${response.usage.promptTokens} wejście + ${response.usage.completionTokens} wyjście`
+    : '';
+  printInfo(`Tokens: ${estimated ? '~' : ''}${totalTokens} (Pozostało: ${estimated ? '~' : ''}${remainingTokens} / ${maxTokens})${turnUsage}`);
+
+  const turnCost = response.usage
+    ? estimateTurnCost(session.getLLMClient()?.getModelName() || '', response.usage)
+    : null;
+  if (turnCost !== null) {
+    printInfo(`Koszt: ${formatCost(turnCost)}`);
+  }
+  printInfo('Poprzednia wersja została zachowana. Aby ją przywrócić: /variants');
+}
+
+/**
+ * Handles /retry: generates a new answer to the last prompt, optionally from another
+ * assistant or with another temperature.
+ */
+export async function retryCommand(session: ChatSession, args: string[]): Promise<void> {
+  const options: RegenerateOptions = {};
+
+  for (const arg of args) {
+    if (arg.startsWith('--temp=')) {
+      const temperature = Number(arg.slice('--temp='.length));
+      if (!Number.isFinite(temperature) || temperature < 0 || temperature > 2) {
+        printError(`Błąd: Temperatura musi być liczbą z zakresu 0-2. ${RETRY_USAGE}`);
+        return;
+      }
+      options.temperature = temperature;
+    } else if (!options.assistant) {
+      try {
+        options.assistant = createAssistant(arg.toLowerCase());
+      } catch (error) {
+        printError(`Błąd: ${error instanceof Error ? error.message : error}`);
+        printInfo('Aby zobaczyć listę dostępnych asystentów, użyj: /assistant list');
+        return;
+      }
+    } else {
+      printError(`Błąd: ${RETRY_USAGE}`);
+      return;
+    }
+  }
+
+  if (!canRegenerate(session)) {
+    return;
+  }
+
+  // The same assistant answers as the session's one, with its attribution
+  if (options.assistant?.id === session.assistantId) {
+    delete options.assistant;
+  }
+
+  await streamRegenerated(
+    session,
+    options.assistant?.name || session.assistantName,
+    onChunk => session.retryLastExchange(options, onChunk)
+  );
+}
+
+/**
+ * Handles /edit: changes one of the user's prompts and answers it again.
+ * Without a new text the prompt is opened in $EDITOR.
+ */
+export async function editCommand(session: ChatSession, args: string[]): Promise<void> {
+  const number = args.length > 0 ? parseInt(args[0], 10) : NaN;
+  const history = await session.getHistory();
+  if (!Number.isInteger(number) || number < 1 || number > history.length) {
+    printError(`Błąd: Podaj numer wiadomości z zakresu 1-${history.length} (jak w /session display). ${EDIT_USAGE}`);
+    return;
+  }
+
+  if (!canRegenerate(session)) {
+    return;
+  }
+
+  const text = args.slice(1).join(' ') || await promptMessageEdit(getMessageText(history[number - 1]));
+  if (!text) {
+    printInfo('Anulowano edycję.');
+    return;
+  }
+
+  await streamRegenerated(
+    session,
+    session.assistantName,
+    onChunk => session.editMessage(number - 1, text, onChunk)
+  );
+}
+
+/**
+ * Shortens text for a one-line preview.
+ */
+function preview(text: string): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > PREVIEW_LENGTH ? `${line.slice(0, PREVIEW_LENGTH)}...` : line;
+}
+
+/**
+ * Handles /variants: lists the versions of the last exchange, or switches to one.
+ * Usage: /variants [nr]
+ */
+export async function variantsCommand(session: ChatSession, args: string[]): Promise<void> {
+  const variants = session.getVariants();
+  if (variants.length === 0) {
+    printInfo('Brak wymiany, dla której istnieją warianty.');
+    return;
+  }
+
+  if (args.length === 0) {
+    const exchangeStart = session.getLastExchangeStart();
+    printHelp('\n--- Warianty ostatniej wymiany ---');
+    variants.forEach((variant, index) => {
+      const [, end] = getExchangeRange(variant.path, exchangeStart);
+      const exchange = variant.path.slice(exchangeStart, end);
+      const answer = [...exchange].reverse().find(message => message.role === 'model' && getMessageText(message));
+      const speakerName = answer?.speaker?.name || session.assistantName;
+
+      const header = `${variant.active ? '*' : ' '} ${index + 1}. ${variant.branch.name}`;
+      if (variant.active) {
+        printInfo(header);
+      } else {
+        printHelp(header);
+      }
+      printHelp(`     TY: ${preview(getMessageText(exchange[0]))}`);
+      printHelp(`     ${speakerName}: ${answer ? preview(getMessageText(answer)) : '(brak odpowiedzi)'}`);
+    });
+    printHelp('----------------------------------');
+    printInfo('Użycie: /variants <nr> - przełącza na wybrany wariant');
+    return;
+  }
+
+  const number = parseInt(args[0], 10);
+  const variant = variants[number - 1];
+  if (!variant) {
+    printError(`Błąd: Podaj numer wariantu z zakresu 1-${variants.length}.`);
+    return;
+  }
+  if (variant.active) {
+    printInfo('Ten wariant jest już aktywny.');
+    return;
+  }
+
+  try {
+    await session.checkoutBranch(variant.branch.name);
+  } catch (error) {
+    printError(`Błąd: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+
+  printInfo(`\n✓ Przełączono na wariant ${number} (gałąź '${variant.branch.name}').`);
+  displayHistorySummary(await session.getHistory(), session.assistantName);
+}
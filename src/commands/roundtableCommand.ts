@@ -0,0 +1,59 @@
+/**
+ * Round-table command implementation
+ */
+
+import type { Assistant } from '../assistant/assistant.js';
+import { createAssistant } from '../assistant/assistants.js';
+import type { ChatSession } from '../session/chatSession.js';
+import { printError, printInfo } from '../cli/console.js';
+
+const ROUNDTABLE_USAGE = 'Użycie: /roundtable <ID1> <ID2> [...] | /roundtable off';
+
+/**
+ * Displays the current round-table participants.
+ */
+function displayRoundtable(session: ChatSession): void {
+  const participants = session.getRoundtable();
+  if (participants.length === 0) {
+    printInfo('Tryb okrągłego stołu jest wyłączony.');
+  } else {
+    printInfo(`Przy okrągłym stole: ${participants.map(participant => participant.name).join(', ')}`);
+  }
+  printInfo(ROUNDTABLE_USAGE);
+}
+
+/**
+ * Handles the /roundtable command: starts, shows or ends a round-table.
+ */
+export async function roundtableCommand(session: ChatSession, args: string[]): Promise<void> {
+  if (args.length === 0) {
+    displayRoundtable(session);
+    return;
+  }
+
+  if (args.length === 1 && args[0].toLowerCase() === 'off') {
+    if (!session.isRoundtable()) {
+      printInfo('Tryb okrągłego stołu jest już wyłączony.');
+      return;
+    }
+    await session.endRoundtable();
+    printInfo(`✓ Zakończono okrągły stół. Rozmowę kontynuuje: ${session.assistantName}`);
+    return;
+  }
+
+  const participants: Assistant[] = [];
+  try {
+    for (const id of new Set(args.map(arg => arg.toLowerCase()))) {
+      participants.push(createAssistant(id));
+    }
+    await session.startRoundtable(participants);
+  } catch (error) {
+    printError(`Błąd: ${error instanceof Error ? error.message : error}`);
+    printInfo(ROUNDTABLE_USAGE);
+    printInfo('Aby zobaczyć listę dostępnych asystentów, użyj: /assistant list');
+    return;
+  }
+
+  printInfo(`\n✓ Okrągły stół: ${participants.map(participant => participant.name).join(', ')}`);
+  printInfo('Każdą wiadomość skomentują kolejno wszyscy uczestnicy. Aby zakończyć: /roundtable off');
+}
@@ -0,0 +1,92 @@
+/**
+ * Search command implementation
+ * Full-text search over the messages of all saved sessions.
+ */
+
+import { getAssistantById } from '../assistant/assistants.js';
+import { printError, printHelp, printInfo } from '../cli/console.js';
+import { parseSearchQuery, searchSessions, type SearchHit } from '../files/searchIndex.js';
+
+const SEARCH_USAGE = 'Użycie: /search <słowa> ["fraza"] [role:user|model]';
+const MAX_HITS = 20;
+const BEFORE_LENGTH = 80;
+
+/** Sessions of the last search's hits (/search or /recall), so /switch can jump to them by number */
+let lastHitSessionIds: string[] = [];
+
+/**
+ * Stores the sessions of a search's hits, in the order they were listed.
+ */
+export function rememberSearchHits(sessionIds: string[]): void {
+  lastHitSessionIds = sessionIds;
+}
+
+/**
+ * Returns the session of a hit from the last search (numbered from 1), or null.
+ */
+export function getSearchHitSessionId(number: number): string | null {
+  return lastHitSessionIds[number - 1] ?? null;
+}
+
+/**
+ * Shortens text to its last characters, as context before a hit.
+ */
+function tail(text: string): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > BEFORE_LENGTH ? `...${line.slice(-BEFORE_LENGTH)}` : line;
+}
+
+/**
+ * Returns the label of a hit's author, as in the session display.
+ */
+function authorLabel(hit: SearchHit): string {
+  if (hit.role === 'user') {
+    return 'TY';
+  }
+  try {
+    return getAssistantById(hit.author).name;
+  } catch {
+    return hit.author.toUpperCase();
+  }
+}
+
+/**
+ * Handles /search: finds messages containing the query in every saved session.
+ */
+export function searchCommand(input: string): void {
+  const [query, queryError] = parseSearchQuery(input);
+  if (!query) {
+    printError(`Błąd: ${queryError}. ${SEARCH_USAGE}`);
+    return;
+  }
+
+  const [hits, error] = searchSessions(query, MAX_HITS);
+  if (error) {
+    printError(error);
+    return;
+  }
+
+  rememberSearchHits(hits.map(hit => hit.sessionId));
+  if (hits.length === 0) {
+    printInfo(`Brak wyników dla: ${input.trim()}`);
+    return;
+  }
+
+  printHelp(`\n--- Wyniki wyszukiwania: ${input.trim()} ---`);
+  hits.forEach((hit, index) => {
+    const session = hit.title
+      ? `${hit.title} (ID: ${hit.sessionId.substring(0, 8)}...)`
+      : `ID: ${hit.sessionId}`;
+    const time = new Date(hit.timestamp).toLocaleString('pl-PL');
+    printInfo(`${index + 1}. ${session} - wiadomość ${hit.messageIndex + 1}, ${time}`);
+    if (hit.before) {
+      printHelp(`     ${tail(hit.before)}`);
+    }
+    printHelp(`   ${authorLabel(hit)}: ${hit.snippet}`);
+  });
+  printHelp('----------------------------------');
+  if (hits.length === MAX_HITS) {
+    printInfo(`Pokazano ${MAX_HITS} najnowszych wyników; zawęź zapytanie, aby zobaczyć starsze.`);
+  }
+  printInfo('Aby przejść do sesji: /switch <nr wyniku> lub /switch <ID>');
+}
@@ -0,0 +1,99 @@
+/**
+ * Session branch commands implementation
+ * Forks the conversation at any message, lists branches and switches between them.
+ */
+
+import type { ChatSession } from '../session/chatSession.js';
+import { printError, printHelp, printInfo } from '../cli/console.js';
+import { nextBranchName } from '../session/branches.js';
+import { isExchangeStart } from '../session/contextManager.js';
+import { getMessageText } from '../utils/messageParts.js';
+import { commonPrefixLength } from '../utils/messageTree.js';
+import { displayHistorySummary } from './sessionSummary.js';
+
+const PREVIEW_LENGTH = 60;
+
+/**
+ * Creates a branch from the first messages of the history and checks it out.
+ * Usage: /session fork [nr] [name] - nr defaults to the whole history
+ */
+export async function forkBranchCommand(session: ChatSession, args: string[]): Promise<void> {
+  const history = await session.getHistory();
+  const hasIndex = args.length > 0 && /^\d+$/.test(args[0]);
+  const messageCount = hasIndex ? parseInt(args[0], 10) : history.length;
+  const name = (hasIndex ? args[1] : args[0]) ||
+    nextBranchName(session.getBranches().map(info => info.branch));
+  const previousBranch = session.getActiveBranch();
+
+  try {
+    await session.forkBranch(name, messageCount);
+  } catch (error) {
+    printError(`Błąd: ${error instanceof Error ? error.message : error}`);
+    printInfo('Użycie: /session fork [nr] [nazwa]');
+    return;
+  }
+
+  printInfo(`\n✓ Utworzono gałąź '${name}' z ${messageCount} wiadomości i przełączono na nią.`);
+  printInfo(`Gałąź '${previousBranch}' pozostaje bez zmian: /session checkout ${previousBranch}`);
+  displayHistorySummary(await session.getHistory(), session.assistantName);
+}
+
+/**
+ * Lists the branches of the session with their length and last prompt.
+ */
+export async function listBranchesCommand(session: ChatSession): Promise<void> {
+  const history = await session.getHistory();
+
+  printHelp('\n--- Gałęzie sesji ---');
+  for (const { branch, path, active } of session.getBranches()) {
+    const created = new Date(branch.createdAt).toLocaleString('pl-PL');
+    const shared = commonPrefixLength(path, history);
+    const lastPrompt = [...path].reverse().find(isExchangeStart);
+    const promptText = lastPrompt ? getMessageText(lastPrompt) : '';
+    const preview = promptText.length > PREVIEW_LENGTH
+      ? `${promptText.slice(0, PREVIEW_LENGTH)}...`
+      : promptText;
+
+    const details = active
+      ? `${path.length} wiadomości`
+      : `${path.length} wiadomości, wspólne z aktywną: ${shared}`;
+    const line = `${active ? '*' : ' '} ${branch.name} (${details}, utworzona ${created})`;
+    if (active) {
+      printInfo(line);
+    } else {
+      printHelp(line);
+    }
+    if (preview) {
+      printHelp(`    Ostatnie pytanie: ${preview}`);
+    }
+  }
+  printHelp('---------------------');
+  printInfo('Użycie: /session fork [nr] [nazwa] | /session checkout <nazwa>');
+}
+
+/**
+ * Switches the session to another branch.
+ * Usage: /session checkout <name>
+ */
+export async function checkoutBranchCommand(session: ChatSession, args: string[]): Promise<void> {
+  if (args.length !== 1) {
+    printError('Błąd: Podaj nazwę gałęzi. Użycie: /session checkout <nazwa>');
+    return;
+  }
+
+  const name = args[0];
+  if (name === session.getActiveBranch()) {
+    printInfo(`Gałąź '${name}' jest już aktywna.`);
+    return;
+  }
+
+  try {
+    await session.checkoutBranch(name);
+  } catch (error) {
+    printError(`Błąd: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+
+  printInfo(`\n✓ Przełączono na gałąź '${name}'.`);
+  displayHistorySummary(await session.getHistory(), session.assistantName);
+}
@@ -1,12 +1,13 @@
 import type { ChatHistory } from '../types.js';
 import { printInfo, printUser, printAssistant } from '../cli/console.js';
+import { describeMessage, isToolResultMessage } from '../utils/messageParts.js';
 
 /**
  * Displays the full session history.
  *
- * @param history - List of messages in the format {"role": "user|model", "parts": [{"text": "..."}]}
+ * @param history - List of messages in the format {"role": "user|model", "parts": [...]}
  * @param sessionId - Session ID
- * @param assistantName - Name of the assistant to display
+ * @param assistantName - Name of the assistant to display (round-table replies show their speaker)
  */
 export function displayFullSession(
   history: ChatHistory,
@@ -25,16 +26,16 @@ export function displayFullSession(
 
     // Handle universal dictionary format
     const role = content.role || '';
-    const displayRole = role === 'user' ? 'TY' : assistantName;
+    const displayRole = role === 'user' ? 'TY' : content.speaker?.name || assistantName;
 
-    // Extract text from parts
-    let text = '';
-    if (content.parts && content.parts.length > 0) {
-      text = content.parts[0].text || '';
-    }
+    // Render every part: text, tool calls and tool results
+    const text = describeMessage(content);
 
     // Display with appropriate function
-    if (role === 'user') {
+    if (isToolResultMessage(content)) {
+      printInfo(`\n[${i + 1}] NARZĘDZIE:`);
+      printInfo(`${text}`);
+    } else if (role === 'user') {
       printUser(`\n[${i + 1}] ${displayRole}:`);
       printUser(`${text}`);
     } else {
@@ -0,0 +1,74 @@
+/**
+ * Session import command implementation
+ * Saves conversations exported from other chat tools as new sessions of the default assistant.
+ */
+
+import { randomUUID } from 'crypto';
+import { homedir } from 'os';
+import { resolve } from 'path';
+import { createAssistant } from '../assistant/assistants.js';
+import { printError, printInfo, printWarning } from '../cli/console.js';
+import { readImportFile } from '../files/import/sessionImport.js';
+import { indexSession } from '../files/searchIndex.js';
+import { saveSessionHistory } from '../files/sessionFiles.js';
+import { generateTitleFromKeywords } from '../utils/titleGenerator.js';
+import { getMessageText } from '../utils/messageParts.js';
+
+const IMPORT_USAGE = 'Użycie: /session import <plik>';
+
+/**
+ * Handles /session import and --import: saves every conversation of an export file
+ * as a new session, titled after the conversation or its first prompt.
+ * Usage: /session import <file>
+ *
+ * @returns IDs of the imported sessions
+ */
+export function importSessionsCommand(args: string[]): string[] {
+  // Paths may contain spaces
+  const path = args.join(' ').trim();
+  if (!path) {
+    printError(`Błąd: ${IMPORT_USAGE}`);
+    return [];
+  }
+
+  const [result, error] = readImportFile(resolve(path.replace(/^~(?=$|\/)/, homedir())));
+  if (!result) {
+    printError(`Błąd importu: ${error}`);
+    return [];
+  }
+
+  const assistant = createAssistant('azor');
+  const imported: string[] = [];
+  for (const conversation of result.conversations) {
+    const sessionId = randomUUID();
+    const title = conversation.title || generateTitleFromKeywords(getMessageText(conversation.history[0]));
+    const [success, saveError] = saveSessionHistory(
+      sessionId,
+      conversation.history,
+      assistant.systemPrompt,
+      conversation.model || result.format,
+      title,
+      assistant.id
+    );
+
+    if (!success) {
+      printError(`Błąd zapisu rozmowy "${title}": ${saveError}`);
+      continue;
+    }
+    const [, indexError] = indexSession(sessionId, conversation.history.map(message => getMessageText(message)));
+    if (indexError) {
+      printWarning(indexError);
+    }
+    imported.push(sessionId);
+    printInfo(`  ${sessionId}: ${title} (${conversation.history.length} wiadomości)`);
+  }
+
+  printInfo(`✓ Zaimportowano rozmów: ${imported.length} (plik: ${path}, format: ${result.format}).`);
+  if (result.skipped > 0) {
+    printInfo(`Pominięto rozmów bez pełnej wymiany wiadomości: ${result.skipped}.`);
+  }
+  if (imported.length > 0) {
+    printInfo('Użyj /switch <ID>, aby kontynuować zaimportowaną rozmowę.');
+  }
+  return imported;
+}
@@ -1,16 +1,88 @@
-import { listSessions } from '../files/sessionFiles.js';
-import { printHelp, printError } from '../cli/console.js';
+import { listSessions, rebuildSessionIndex } from '../files/sessionFiles.js';
+import { printHelp, printError, printInfo } from '../cli/console.js';
+import { compareSessions, getSessionGroup, normalizeTag } from '../session/organization.js';
+
+const LIST_USAGE = 'Użycie: /session list [--tag=<tag>]... [--folder=<nazwa>] [--pinned]';
 
 /**
- * Displays a formatted list of available sessions.
+ * Filters of the session list; a session must match all of them.
  */
-export function listSessionsCommand(): void {
-  const sessions = listSessions();
+interface SessionListFilters {
+  tags: string[];
+  folder?: string;
+  pinned: boolean;
+}
+
+/**
+ * Parses the list options.
+ *
+ * @returns [filters, error_message]
+ */
+function parseListFilters(args: string[]): [SessionListFilters | null, string | null] {
+  const filters: SessionListFilters = { tags: [], pinned: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.startsWith('--tag=')) {
+      try {
+        filters.tags.push(normalizeTag(arg.slice('--tag='.length)));
+      } catch (error) {
+        return [null, error instanceof Error ? error.message : String(error)];
+      }
+    } else if (arg.startsWith('--folder=')) {
+      // Folder names may contain spaces: the name runs until the next option
+      const words = [arg.slice('--folder='.length)];
+      while (i + 1 < args.length && !args[i + 1].startsWith('--')) {
+        words.push(args[++i]);
+      }
+      filters.folder = words.join(' ').toLowerCase();
+    } else if (arg === '--pinned') {
+      filters.pinned = true;
+    } else {
+      return [null, `Nieznana opcja: ${arg}`];
+    }
+  }
+
+  return [filters, null];
+}
+
+/**
+ * Displays a formatted list of available sessions, grouped by pin and folder,
+ * most recent first.
+ * Usage: /session list [--tag=<tag>]... [--folder=<name>] [--pinned]
+ */
+export function listSessionsCommand(args: string[] = []): void {
+  const [filters, filterError] = parseListFilters(args);
+  if (!filters) {
+    printError(`Błąd: ${filterError}. ${LIST_USAGE}`);
+    return;
+  }
+
+  const isFiltered = filters.tags.length > 0 || filters.folder !== undefined || filters.pinned;
+  const sessions = listSessions()
+    .filter(session =>
+      !isFiltered || (
+        !session.error &&
+        filters.tags.every(tag => session.tags?.includes(tag)) &&
+        (filters.folder === undefined || session.folder?.toLowerCase() === filters.folder) &&
+        (!filters.pinned || session.pinned)
+      )
+    )
+    .map(session => ({ ...session, updatedAt: session.updated_at }))
+    .sort(compareSessions);
 
   if (sessions.length > 0) {
     printHelp('\n--- Dostępne zapisane sesje ---');
 
+    let group: string | null | undefined;
     for (const session of sessions) {
+      // Group headers only when sessions are organized at all
+      const sessionGroup = getSessionGroup(session);
+      if (sessionGroup !== group && (sessionGroup || group)) {
+        printInfo(sessionGroup || '📄 Pozostałe');
+      }
+      group = sessionGroup;
+
       if (session.error) {
         printError(`- ID: ${session.id} (${session.error})`);
       } else {
@@ -25,12 +97,30 @@ export function listSessionsCommand(): void {
         }
 
         displayText += ` (Wiadomości: ${session.messages_count}, Ost. aktywność: ${session.last_activity})`;
+        if (session.pinned && session.folder) {
+          displayText += ` [📁 ${session.folder}]`;
+        }
+        if (session.tags?.length) {
+          displayText += ` ${session.tags.map(tag => `#${tag}`).join(' ')}`;
+        }
         printHelp(displayText);
       }
     }
 
     printHelp('----------------------------------');
+  } else if (isFiltered) {
+    printHelp('\nBrak sesji pasujących do filtrów.');
   } else {
     printHelp('\nBrak zapisanych sesji.');
   }
 }
+
+/**
+ * Rebuilds the session metadata index from the session files, e.g. after they were
+ * copied or edited by hand.
+ */
+export function reindexSessionsCommand(): void {
+  const [indexed, errors] = rebuildSessionIndex();
+  errors.forEach(error => printError(`Błąd: ${error}`));
+  printInfo(`✓ Przebudowano indeks sesji: ${indexed} sesji.`);
+}
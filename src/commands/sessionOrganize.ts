@@ -0,0 +1,118 @@
+/**
+ * Session organization commands implementation
+ * Tags, folders and pinning of the current session.
+ */
+
+import type { ChatSession } from '../session/chatSession.js';
+import { printError, printHelp, printInfo } from '../cli/console.js';
+import { normalizeFolderName, normalizeTag } from '../session/organization.js';
+
+const TAG_USAGE = 'Użycie: /session tag [add|remove <tag>...]';
+const FOLDER_USAGE = 'Użycie: /session folder [<nazwa> | --none]';
+
+/**
+ * Saves the session after a change of its organization and confirms it.
+ * A session without a complete exchange isn't saved yet; the change is kept until it is.
+ */
+async function saveOrganization(session: ChatSession, message: string): Promise<void> {
+  const [success, error] = await session.saveToFile();
+  if (!success && error) {
+    printError(`Błąd podczas zapisywania sesji: ${error}`);
+    return;
+  }
+
+  printInfo(message);
+  if ((await session.getHistory()).length < 2) {
+    printInfo('Sesja zostanie zapisana po pierwszej wymianie wiadomości.');
+  }
+}
+
+/**
+ * Handles /session tag: lists the session's tags, adds or removes them.
+ * Tags are stored without '#' and in lower case.
+ */
+export async function tagCommand(session: ChatSession, args: string[]): Promise<void> {
+  const [action, ...rawTags] = args;
+
+  if (!action) {
+    const { tags } = session.getOrganization();
+    printHelp(tags.length > 0
+      ? `Tagi sesji: ${tags.map(tag => `#${tag}`).join(' ')}`
+      : 'Sesja nie ma tagów.');
+    printInfo(TAG_USAGE);
+    return;
+  }
+
+  if ((action !== 'add' && action !== 'remove') || rawTags.length === 0) {
+    printError(`Błąd: ${TAG_USAGE}`);
+    return;
+  }
+
+  let tags: string[];
+  try {
+    tags = rawTags.map(normalizeTag);
+  } catch (error) {
+    printError(`Błąd: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+
+  const changed = tags.filter(tag => action === 'add' ? session.addTag(tag) : session.removeTag(tag));
+  if (changed.length === 0) {
+    printInfo(action === 'add' ? 'Sesja ma już te tagi.' : 'Sesja nie ma tych tagów.');
+    return;
+  }
+
+  const labels = changed.map(tag => `#${tag}`).join(' ');
+  await saveOrganization(session, action === 'add' ? `✓ Dodano tagi: ${labels}` : `✓ Usunięto tagi: ${labels}`);
+}
+
+/**
+ * Handles /session pin and /session unpin.
+ */
+export async function pinCommand(session: ChatSession, pinned: boolean): Promise<void> {
+  if (session.getOrganization().pinned === pinned) {
+    printInfo(pinned ? 'Sesja jest już przypięta.' : 'Sesja nie jest przypięta.');
+    return;
+  }
+
+  session.setSessionPinned(pinned);
+  await saveOrganization(
+    session,
+    pinned ? '✓ Przypięto sesję na początku list sesji.' : '✓ Odpięto sesję.'
+  );
+}
+
+/**
+ * Handles /session folder: shows the session's folder, moves it to another one,
+ * or takes it out of its folder with --none.
+ */
+export async function folderCommand(session: ChatSession, args: string[]): Promise<void> {
+  const current = session.getOrganization().folder;
+
+  if (args.length === 0) {
+    printHelp(current ? `Folder sesji: ${current}` : 'Sesja nie jest w żadnym folderze.');
+    printInfo(FOLDER_USAGE);
+    return;
+  }
+
+  if (args[0] === '--none') {
+    if (!current) {
+      printInfo('Sesja nie jest w żadnym folderze.');
+      return;
+    }
+    session.setFolder(null);
+    await saveOrganization(session, `✓ Usunięto sesję z folderu: ${current}`);
+    return;
+  }
+
+  let folder: string;
+  try {
+    folder = normalizeFolderName(args.join(' '));
+  } catch (error) {
+    printError(`Błąd: ${error instanceof Error ? error.message : error}. ${FOLDER_USAGE}`);
+    return;
+  }
+
+  session.setFolder(folder);
+  await saveOrganization(session, `✓ Przeniesiono sesję do folderu: ${folder}`);
+}
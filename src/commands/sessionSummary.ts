@@ -1,11 +1,12 @@
 import { printAssistant, printInfo, printUser } from '../cli/console.js';
 import type { ChatHistory } from '../types.js';
+import { describeMessage } from '../utils/messageParts.js';
 
 /**
  * Displays history summary: count of omitted messages and the last 2 messages.
  *
  * @param history - List of messages in the format {"role": "user|model", "parts": [{"text": "..."}]}
- * @param assistantName - Name of the assistant to display
+ * @param assistantName - Name of the assistant to display (round-table replies show their speaker)
  */
 export function displayHistorySummary(
 	history: ChatHistory,
@@ -33,13 +34,11 @@ export function displayHistorySummary(
 	for (const content of lastTwo) {
 		// Handle universal dictionary format
 		const role = content.role || '';
-		const displayRole = role === 'user' ? 'TY' : assistantName;
+		const displayRole =
+			role === 'user' ? 'TY' : content.speaker?.name || assistantName;
 
-		// Extract text from parts
-		let text = '';
-		if (content.parts && content.parts.length > 0) {
-			text = content.parts[0].text || '';
-		}
+		// Extract text from all parts, including tool calls and results
+		const text = describeMessage(content).replace(/\s+/g, ' ');
 
 		// Only add ellipsis if text was actually truncated
 		const displayText =
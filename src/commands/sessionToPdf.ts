@@ -1,43 +1,89 @@
 import { printError, printInfo } from '../cli/console.js';
+import { isImageAttachment, readAttachmentData } from '../files/attachments.js';
+import {
+	buildSessionExport,
+	formatExportTime,
+	getExportMetadata,
+	getExportTitle,
+} from '../files/export/sessionExport.js';
 import { generatePdfFromMarkdown } from '../files/pdf/pdf.js';
-import type { ChatHistory } from '../types.js';
+import type { ChatSession } from '../session/chatSession.js';
+import type { Message } from '../types.js';
+import {
+	describePart,
+	isAttachmentPart,
+	isToolResultMessage,
+} from '../utils/messageParts.js';
+import { getSessionExportSource } from './exportCommand.js';
 
 /**
- * Exports the session history to a PDF file.
+ * Renders a message as markdown; stored image attachments are followed by an
+ * `attachment:<hash>` image reference, with their data added to `images`, so that
+ * only they are embedded in the PDF.
+ */
+function messageToMarkdown(message: Message, images: Map<string, Buffer>): string {
+	return (message.parts || [])
+		.map((part) => {
+			const text = describePart(part);
+			if (isAttachmentPart(part) && isImageAttachment(part)) {
+				const data = readAttachmentData(part);
+				if (data) {
+					const src = `attachment:${part.attachment.hash}`;
+					images.set(src, data);
+					return `${text}\n\n![${part.attachment.filename}](${src})`;
+				}
+			}
+			return text;
+		})
+		.filter((text) => text.length > 0)
+		.join('\n\n');
+}
+
+/**
+ * Exports the session history to a PDF file, opened by a title page with the
+ * session metadata.
  *
- * @param history - List of messages in the format {"role": "user|model", "parts": [{"text": "..."}]}
- * @param sessionId - The ID of the session
- * @param assistantName - The name of the assistant to display
+ * @param session - The session to export (round-table replies show their speaker)
  */
-export async function exportSessionToPdf(
-	history: ChatHistory,
-	sessionId: string,
-	assistantName: string,
-): Promise<void> {
-	if (!history || history.length === 0) {
+export async function exportSessionToPdf(session: ChatSession): Promise<void> {
+	const source = await getSessionExportSource(session);
+	const { history, assistantName, sessionId } = source;
+	if (history.length === 0) {
 		printInfo('Session history is empty. No PDF will be generated.');
 		return;
 	}
 
-	let markdownContent = `# Chat Session: ${sessionId}\n\n`;
+	let markdownContent = '';
+	const images = new Map<string, Buffer>();
 
 	for (const message of history) {
 		const role = message.role || '';
-		const displayRole = role === 'user' ? 'User' : assistantName;
+		const displayRole = isToolResultMessage(message)
+			? 'Tool'
+			: role === 'user'
+				? 'User'
+				: message.speaker?.name || assistantName;
+		const time = formatExportTime(message.timestamp);
 
-		let text = '';
-		if (message.parts && message.parts.length > 0) {
-			text = message.parts[0].text || '';
-		}
+		const text = messageToMarkdown(message, images);
 
-		markdownContent += `## ${displayRole}\n\n`;
+		markdownContent += `## ${displayRole}${time ? ` · ${time}` : ''}\n\n`;
 		markdownContent += `${text}\n\n`;
 	}
 
+	const document = buildSessionExport(source);
 	const outputFilename = `${sessionId}.pdf`;
 
 	try {
-		await generatePdfFromMarkdown(markdownContent, outputFilename);
+		await generatePdfFromMarkdown(
+			markdownContent,
+			outputFilename,
+			{
+				title: getExportTitle(document),
+				metadata: getExportMetadata(document),
+			},
+			images,
+		);
 	} catch (error) {
 		printError(`Failed to generate PDF: ${error}`);
 	}
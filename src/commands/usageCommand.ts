@@ -0,0 +1,81 @@
+/**
+ * Token usage command implementation
+ * Totals are read from the usage ledger, so they include sessions that were removed later
+ * and entries already rotated out of the WAL.
+ */
+
+import type { ChatSession } from '../session/chatSession.js';
+import { printError, printHelp, printInfo } from '../cli/console.js';
+import type { TotalsByModel } from '../files/usageLedger.js';
+import { getLocalDay, readUsageLedger } from '../files/wal.js';
+import type { TokenUsage } from '../types.js';
+import { addTokenUsage, createTokenUsage } from '../utils/tokenUsage.js';
+
+const DEFAULT_DAYS = 7;
+
+/**
+ * Usage summed over a group of turns; turns logged without engine counts are only counted.
+ * Title and summary requests add their tokens without counting as turns.
+ */
+interface UsageTotals {
+  usage: TokenUsage;
+  turns: number;
+  turnsWithoutUsage: number;
+}
+
+function sumTotals(totalsByModel: TotalsByModel = {}): UsageTotals {
+  const totals: UsageTotals = { usage: createTokenUsage(), turns: 0, turnsWithoutUsage: 0 };
+  for (const modelTotals of Object.values(totalsByModel)) {
+    totals.usage = addTokenUsage(
+      totals.usage,
+      createTokenUsage(modelTotals.prompt_tokens, modelTotals.completion_tokens)
+    );
+    totals.turns += modelTotals.turns;
+    totals.turnsWithoutUsage += modelTotals.turns_without_usage;
+  }
+  return totals;
+}
+
+function formatTotals(totals: UsageTotals): string {
+  const { promptTokens, completionTokens, totalTokens } = totals.usage;
+  let text = `${totalTokens} tokenów (wejście: ${promptTokens}, wyjście: ${completionTokens}), tur: ${totals.turns}`;
+  if (totals.turnsWithoutUsage > 0) {
+    text += `, w tym bez danych o zużyciu: ${totals.turnsWithoutUsage}`;
+  }
+  return text;
+}
+
+/**
+ * Handles the /usage command: token totals of the current session and of the last days.
+ * Usage: /usage [liczba dni]
+ */
+export function usageCommand(session: ChatSession, args: string[]): void {
+  const days = args.length > 0 ? Number(args[0]) : DEFAULT_DAYS;
+  if (!Number.isInteger(days) || days < 1) {
+    printError('Błąd: Użycie: /usage [liczba dni]');
+    return;
+  }
+
+  const ledger = readUsageLedger();
+  const sessionTotals = sumTotals(ledger.sessions[session.getSessionId()]);
+
+  const firstDay = new Date();
+  firstDay.setDate(firstDay.getDate() - (days - 1));
+  const firstDayKey = getLocalDay(firstDay);
+  const dailyTotals = new Map(
+    Object.entries(ledger.days)
+      .filter(([day]) => day >= firstDayKey)
+      .map(([day, totalsByModel]) => [day, sumTotals(totalsByModel)])
+  );
+
+  printInfo('\n=== Zużycie tokenów ===');
+  printInfo(`Bieżąca sesja: ${formatTotals(sessionTotals)}`);
+
+  printInfo(`\nOstatnie dni (${days}):`);
+  if (dailyTotals.size === 0) {
+    printHelp('  Brak wpisów w tym okresie.');
+  }
+  for (const [day, totals] of [...dailyTotals.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    printHelp(`  ${day}: ${formatTotals(totals)}`);
+  }
+}
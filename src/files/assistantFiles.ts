@@ -0,0 +1,133 @@
+/**
+ * User-defined assistant files
+ * Assistants are read from `*.yaml`, `*.yml` and `*.json` files in USER_ASSISTANTS_DIR
+ * and PROJECT_ASSISTANTS_DIR, one assistant per file.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, unlinkSync } from 'fs';
+import { extname, join, resolve } from 'path';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import type { AssistantDefinition } from '../assistant/assistants.js';
+import { AssistantFileSchema } from '../assistant/assistantValidation.js';
+import { writeFileAtomic } from './atomicWrite.js';
+import { PROJECT_ASSISTANTS_DIR, USER_ASSISTANTS_DIR } from './config.js';
+
+const ASSISTANT_FILE_EXTENSIONS = new Set(['.yaml', '.yml', '.json']);
+
+/**
+ * Returns the directories searched for assistant files, user directory first.
+ * The project directory is skipped when it is the user directory (e.g. run from `~`).
+ */
+export function getAssistantDirectories(): string[] {
+  return resolve(PROJECT_ASSISTANTS_DIR) === resolve(USER_ASSISTANTS_DIR)
+    ? [USER_ASSISTANTS_DIR]
+    : [USER_ASSISTANTS_DIR, PROJECT_ASSISTANTS_DIR];
+}
+
+/**
+ * Reads and validates a single assistant file.
+ *
+ * @returns [assistant_definition, error_message]
+ */
+export function readAssistantFile(filePath: string): [AssistantDefinition | null, string | null] {
+  let data: unknown;
+  try {
+    const content = readFileSync(filePath, 'utf-8');
+    data = extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    return [null, `${filePath}: nie można odczytać pliku (${error})`];
+  }
+
+  const parsed = AssistantFileSchema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    return [null, `${filePath}: ${issues}`];
+  }
+
+  return [{ ...parsed.data, source: filePath }, null];
+}
+
+/**
+ * Loads all assistant files from the assistant directories, in file name order.
+ * Invalid files are skipped and reported; duplicates are resolved by the registry.
+ *
+ * @returns [assistant_definitions, error_messages]
+ */
+export function loadAssistantFiles(): [AssistantDefinition[], string[]] {
+  const definitions: AssistantDefinition[] = [];
+  const errors: string[] = [];
+
+  for (const dir of getAssistantDirectories()) {
+    if (!existsSync(dir)) {
+      continue;
+    }
+
+    const files = readdirSync(dir)
+      .filter(file => ASSISTANT_FILE_EXTENSIONS.has(extname(file).toLowerCase()))
+      .sort();
+
+    for (const file of files) {
+      const [definition, error] = readAssistantFile(join(dir, file));
+      if (definition) {
+        definitions.push(definition);
+      } else if (error) {
+        errors.push(error);
+      }
+    }
+  }
+
+  return [definitions, errors];
+}
+
+/**
+ * Writes an assistant definition to disk: back to its source file when it has one,
+ * otherwise to `<id>.yaml` in USER_ASSISTANTS_DIR. The definition is validated first.
+ *
+ * @returns [file_path, error_message]
+ */
+export function saveAssistantFile(definition: AssistantDefinition): [string | null, string | null] {
+  const { source, ...fields } = definition;
+  const filePath = source || join(USER_ASSISTANTS_DIR, `${definition.id}.yaml`);
+  if (!source && existsSync(filePath)) {
+    return [null, `Plik ${filePath} już istnieje`];
+  }
+
+  const parsed = AssistantFileSchema.safeParse(fields);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    return [null, issues];
+  }
+
+  try {
+    mkdirSync(USER_ASSISTANTS_DIR, { recursive: true });
+    const content = extname(filePath).toLowerCase() === '.json'
+      ? JSON.stringify(parsed.data, null, 2)
+      : stringifyYaml(parsed.data, { blockQuote: 'literal', lineWidth: 0 });
+    writeFileAtomic(filePath, content);
+    return [filePath, null];
+  } catch (error) {
+    return [null, `Błąd zapisu pliku asystenta ${filePath}: ${error}`];
+  }
+}
+
+/**
+ * Removes the file a user-defined assistant was loaded from.
+ *
+ * @returns [success, error_message]
+ */
+export function deleteAssistantFile(definition: AssistantDefinition): [boolean, string | null] {
+  if (!definition.source) {
+    return [false, `Asystent '${definition.id}' nie pochodzi z pliku`];
+  }
+
+  try {
+    unlinkSync(definition.source);
+    return [true, null];
+  } catch (error) {
+    return [false, `Błąd usuwania pliku ${definition.source}: ${error}`];
+  }
+}
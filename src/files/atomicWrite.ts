@@ -0,0 +1,27 @@
+import { closeSync, fsyncSync, openSync, renameSync, unlinkSync, writeFileSync, existsSync } from 'fs';
+import { dirname, basename, join } from 'path';
+
+/**
+ * Writes a file atomically: the content goes to a temporary file in the same
+ * directory, is fsynced, and then renamed over the target. A crash mid-write
+ * leaves either the old or the new file, never a truncated one.
+ */
+export function writeFileAtomic(filename: string, content: string | Buffer): void {
+  const tempFilename = join(dirname(filename), `.${basename(filename)}.${process.pid}.tmp`);
+
+  try {
+    const fd = openSync(tempFilename, 'w');
+    try {
+      writeFileSync(fd, content);
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    renameSync(tempFilename, filename);
+  } catch (error) {
+    if (existsSync(tempFilename)) {
+      unlinkSync(tempFilename);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * Attachment store
+ * Files attached to prompts are copied into ATTACHMENTS_DIR under their SHA-256 hash,
+ * so session files only keep a small reference (hash, file name, MIME type, size).
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, statSync } from 'fs';
+import { homedir } from 'os';
+import { basename, extname, join, resolve } from 'path';
+import type { AttachmentPart } from '../types.js';
+import { writeFileAtomic } from './atomicWrite.js';
+import { ATTACHMENTS_DIR, MAX_ATTACHMENT_BYTES } from './config.js';
+
+type AttachmentInfo = AttachmentPart['attachment'];
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp'
+};
+
+// Text files are all sent as text/plain, which every engine accepts
+const TEXT_EXTENSIONS = new Set([
+  '.txt', '.md', '.csv', '.json', '.yaml', '.yml', '.xml', '.html', '.log',
+  '.ts', '.js', '.py', '.java', '.c', '.cpp', '.h', '.go', '.rs', '.sh', '.sql'
+]);
+
+/** Matches `@path` tokens at the start of the input or after whitespace */
+const INLINE_ATTACHMENT_PATTERN = /(?:^|\s)@(\S+)/g;
+
+/**
+ * Returns the MIME type for a supported file, or null if the type isn't supported.
+ */
+function detectMimeType(filePath: string): string | null {
+  const extension = extname(filePath).toLowerCase();
+  if (IMAGE_MIME_TYPES[extension]) {
+    return IMAGE_MIME_TYPES[extension];
+  }
+  if (extension === '.pdf') {
+    return 'application/pdf';
+  }
+  return TEXT_EXTENSIONS.has(extension) ? 'text/plain' : null;
+}
+
+/**
+ * Resolves a user-supplied path, expanding a leading `~`.
+ */
+function expandPath(filePath: string): string {
+  if (filePath === '~' || filePath.startsWith('~/')) {
+    return join(homedir(), filePath.slice(1));
+  }
+  return resolve(filePath);
+}
+
+function isExistingFile(filePath: string): boolean {
+  return existsSync(filePath) && statSync(filePath).isFile();
+}
+
+function hashContent(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function metadataPath(hash: string): string {
+  return join(ATTACHMENTS_DIR, `${hash}.json`);
+}
+
+/**
+ * Writes the content and its metadata to the store, unless they are already there.
+ * Identical files are stored once; the first file name wins.
+ */
+function saveToStore(data: Buffer, info: AttachmentInfo): void {
+  const blobPath = join(ATTACHMENTS_DIR, info.hash);
+  if (!existsSync(blobPath)) {
+    writeFileAtomic(blobPath, data);
+  }
+
+  const metaPath = metadataPath(info.hash);
+  if (!existsSync(metaPath)) {
+    const { filename, mimeType, size } = info;
+    writeFileAtomic(metaPath, JSON.stringify({ filename, mimeType, size }, null, 2));
+  }
+}
+
+/**
+ * Copies a file into the attachment store.
+ *
+ * @param filePath - Path of the file to attach (relative to the working directory or `~/...`)
+ * @returns [attachment_part, error_message]
+ */
+export function storeAttachment(filePath: string): [AttachmentPart | null, string | null] {
+  const fullPath = expandPath(filePath);
+  if (!isExistingFile(fullPath)) {
+    return [null, `Plik nie istnieje: ${filePath}`];
+  }
+
+  const filename = basename(fullPath);
+  const mimeType = detectMimeType(fullPath);
+  if (!mimeType) {
+    return [null, `Nieobsługiwany typ pliku: ${filename} (obsługiwane są obrazy, PDF i pliki tekstowe)`];
+  }
+
+  const size = statSync(fullPath).size;
+  if (size > MAX_ATTACHMENT_BYTES) {
+    const sizeMb = (size / 1024 / 1024).toFixed(1);
+    return [null, `Plik ${filename} jest za duży (${sizeMb} MB, limit ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB)`];
+  }
+
+  try {
+    const data = readFileSync(fullPath);
+    const info: AttachmentInfo = { hash: hashContent(data), filename, mimeType, size };
+    saveToStore(data, info);
+    return [{ attachment: info }, null];
+  } catch (error) {
+    return [null, `Błąd zapisu załącznika ${filename}: ${error}`];
+  }
+}
+
+/**
+ * Returns the path of the stored copy of an attachment.
+ */
+export function getAttachmentPath(part: AttachmentPart): string {
+  return join(ATTACHMENTS_DIR, part.attachment.hash);
+}
+
+/**
+ * Reads the content of a stored attachment.
+ * @returns File content, or null if it is missing from the store
+ */
+export function readAttachmentData(part: AttachmentPart): Buffer | null {
+  const blobPath = getAttachmentPath(part);
+  return existsSync(blobPath) ? readFileSync(blobPath) : null;
+}
+
+/**
+ * Recreates an attachment reference from inline data (e.g. Gemini's own history).
+ * Content already in the store keeps its original file name; unknown content is stored.
+ */
+export function attachmentFromInlineData(mimeType: string, base64Data: string): AttachmentPart {
+  const data = Buffer.from(base64Data, 'base64');
+  const hash = hashContent(data);
+
+  const metaPath = metadataPath(hash);
+  if (existsSync(metaPath)) {
+    try {
+      const stored = JSON.parse(readFileSync(metaPath, 'utf-8')) as Partial<AttachmentInfo>;
+      if (stored.filename) {
+        return {
+          attachment: { hash, filename: stored.filename, mimeType: stored.mimeType || mimeType, size: data.length }
+        };
+      }
+    } catch {
+      // Unreadable metadata is rewritten below
+    }
+  }
+
+  const info: AttachmentInfo = { hash, filename: `attachment-${hash.slice(0, 8)}`, mimeType, size: data.length };
+  try {
+    saveToStore(data, info);
+  } catch {
+    // The reference is still valid; engines fall back to a text note if the file is missing
+  }
+  return { attachment: info };
+}
+
+/**
+ * Checks whether an attachment is an image.
+ */
+export function isImageAttachment(part: AttachmentPart): boolean {
+  return part.attachment.mimeType.startsWith('image/');
+}
+
+/**
+ * Renders an attachment as text for engines that can't receive it natively:
+ * text files are inlined, other files are replaced with a short note.
+ */
+export function attachmentToText(part: AttachmentPart): string {
+  const { filename, mimeType } = part.attachment;
+
+  if (!mimeType.startsWith('text/')) {
+    return `[Załącznik: ${filename} (${mimeType}) — ten model nie obsługuje takich plików]`;
+  }
+
+  const data = readAttachmentData(part);
+  return data
+    ? `[Plik: ${filename}]\n${data.toString('utf-8').trimEnd()}`
+    : `[Plik: ${filename} — brak kopii w ${ATTACHMENTS_DIR}]`;
+}
+
+/**
+ * Appends the text form of attachments to a message text.
+ */
+export function appendAttachmentText(text: string, attachments: AttachmentPart[]): string {
+  return [text, ...attachments.map(attachmentToText)].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Finds `@path` references in user input that point to existing files.
+ * Tokens that don't name a file (e.g. `@nick`) are ignored.
+ */
+export function findInlineAttachmentPaths(input: string): string[] {
+  const paths: string[] = [];
+  for (const match of input.matchAll(INLINE_ATTACHMENT_PATTERN)) {
+    if (isExistingFile(expandPath(match[1]))) {
+      paths.push(match[1]);
+    }
+  }
+  return paths;
+}
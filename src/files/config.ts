@@ -9,7 +9,26 @@ config();
 // Application configuration
 export const LOG_DIR = join(homedir(), '.azor');
 export const OUTPUT_DIR = join(LOG_DIR, 'output');
-export const WAL_FILE = join(LOG_DIR, 'azor-wal.json');
+export const WAL_FILE = join(LOG_DIR, 'azor-wal.jsonl');
+export const LEGACY_WAL_FILE = join(LOG_DIR, 'azor-wal.json');
+export const ATTACHMENTS_DIR = join(LOG_DIR, 'attachments');
+export const PRICING_FILE = join(LOG_DIR, 'pricing.json');
+export const SEARCH_INDEX_FILE = join(LOG_DIR, 'search-index.json');
+export const VECTOR_INDEX_FILE = join(LOG_DIR, 'vector-index.json');
+export const SESSION_INDEX_FILE = join(LOG_DIR, 'session-index.json');
+export const USAGE_LEDGER_FILE = join(LOG_DIR, 'usage-ledger.json');
+
+// User-defined assistants: per-user directory and a project-local one (relative to the working directory)
+export const USER_ASSISTANTS_DIR = join(LOG_DIR, 'assistants');
+export const PROJECT_ASSISTANTS_DIR = join(process.cwd(), '.azor', 'assistants');
+
+// Largest file accepted by /attach (inline data requests are limited to ~20 MB)
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+// WAL rotation: the active file is rotated once it exceeds WAL_MAX_BYTES,
+// keeping at most WAL_MAX_ROTATED_FILES older files (azor-wal.1.jsonl is the newest)
+export const WAL_MAX_BYTES = 5 * 1024 * 1024;
+export const WAL_MAX_ROTATED_FILES = 5;
 
 // Create directories if they don't exist
 if (!existsSync(LOG_DIR)) {
@@ -19,3 +38,7 @@ if (!existsSync(LOG_DIR)) {
 if (!existsSync(OUTPUT_DIR)) {
   mkdirSync(OUTPUT_DIR, { recursive: true });
 }
+
+if (!existsSync(ATTACHMENTS_DIR)) {
+  mkdirSync(ATTACHMENTS_DIR, { recursive: true });
+}
@@ -0,0 +1,133 @@
+/**
+ * Syntax highlighting for exported code blocks
+ * A small tokenizer marking comments, strings, numbers and keywords of common languages
+ * with `hl-*` classes, so HTML exports need no external highlighter. Code in other
+ * languages is only escaped.
+ */
+
+interface LanguageRules {
+  lineComment?: string[];
+  blockComment?: boolean; // C-style /* ... */
+  keywords: string[];
+}
+
+const C_LIKE = ['if', 'else', 'for', 'while', 'do', 'return', 'break', 'continue', 'switch', 'case',
+  'default', 'true', 'false', 'null', 'new', 'class', 'const', 'static', 'void', 'public', 'private',
+  'protected', 'try', 'catch', 'finally', 'throw', 'import', 'this', 'struct', 'enum', 'int', 'char',
+  'float', 'double', 'bool', 'long', 'unsigned', 'sizeof', 'typedef', 'namespace', 'using'];
+
+const JS_KEYWORDS = ['async', 'await', 'let', 'var', 'function', 'export', 'from', 'extends', 'typeof',
+  'instanceof', 'undefined', 'of', 'in', 'yield', 'interface', 'type', 'implements', 'readonly', 'as',
+  'keyof'];
+
+const LANGUAGES: Record<string, LanguageRules> = {
+  js: { lineComment: ['//'], blockComment: true, keywords: [...C_LIKE, ...JS_KEYWORDS] },
+  c: { lineComment: ['//'], blockComment: true, keywords: C_LIKE },
+  java: { lineComment: ['//'], blockComment: true, keywords: [...C_LIKE, 'extends', 'implements', 'final', 'package'] },
+  go: {
+    lineComment: ['//'],
+    blockComment: true,
+    keywords: [...C_LIKE, 'func', 'package', 'var', 'type', 'go', 'defer', 'chan', 'map', 'range', 'nil', 'string']
+  },
+  rust: {
+    lineComment: ['//'],
+    blockComment: true,
+    keywords: [...C_LIKE, 'fn', 'let', 'mut', 'impl', 'trait', 'pub', 'use', 'mod', 'match', 'loop', 'self', 'Self']
+  },
+  python: {
+    lineComment: ['#'],
+    keywords: ['def', 'class', 'return', 'if', 'elif', 'else', 'for', 'while', 'in', 'not', 'and', 'or',
+      'import', 'from', 'as', 'with', 'try', 'except', 'finally', 'raise', 'lambda', 'yield', 'pass',
+      'break', 'continue', 'None', 'True', 'False', 'async', 'await', 'self', 'is', 'global']
+  },
+  bash: {
+    lineComment: ['#'],
+    keywords: ['if', 'then', 'else', 'elif', 'fi', 'for', 'while', 'do', 'done', 'case', 'esac', 'in',
+      'function', 'return', 'export', 'local', 'echo', 'exit']
+  },
+  sql: {
+    lineComment: ['--'],
+    blockComment: true,
+    keywords: ['select', 'from', 'where', 'insert', 'into', 'values', 'update', 'set', 'delete', 'create',
+      'table', 'drop', 'alter', 'join', 'left', 'right', 'inner', 'outer', 'on', 'group', 'by', 'order',
+      'having', 'limit', 'and', 'or', 'not', 'null', 'as', 'distinct', 'primary', 'key', 'index']
+  },
+  json: { keywords: ['true', 'false', 'null'] },
+  yaml: { lineComment: ['#'], keywords: ['true', 'false', 'null', 'yes', 'no'] }
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  javascript: 'js', jsx: 'js', ts: 'js', typescript: 'js', tsx: 'js', mjs: 'js',
+  cpp: 'c', 'c++': 'c', h: 'c', cs: 'c', csharp: 'c', kotlin: 'java', kt: 'java',
+  golang: 'go', rs: 'rust', py: 'python', sh: 'bash', shell: 'bash', zsh: 'bash',
+  yml: 'yaml'
+};
+
+/**
+ * Escapes text for HTML.
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Escapes a string for use in a regular expression.
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Builds the tokenizer of a language: one alternative per token kind, in priority order.
+ */
+function buildTokenizer(rules: LanguageRules): RegExp {
+  const comments = [
+    ...(rules.blockComment ? ['/\\*[\\s\\S]*?\\*/'] : []),
+    ...(rules.lineComment || []).map(marker => `${escapeRegExp(marker)}[^\\n]*`)
+  ];
+  const alternatives = [
+    `(${comments.length > 0 ? comments.join('|') : '(?!)'})`, // Never matches without comments
+    '("(?:\\\\.|[^"\\\\\\n])*"|\'(?:\\\\.|[^\'\\\\\\n])*\'|`(?:\\\\.|[^`\\\\])*`)',
+    '(\\b\\d+(?:\\.\\d+)?\\b)',
+    '([A-Za-z_][\\w]*)'
+  ];
+  return new RegExp(alternatives.join('|'), 'g');
+}
+
+/**
+ * Returns the code as HTML with highlighted tokens; code of unknown languages is only escaped.
+ *
+ * @param language - Language named after the opening fence, e.g. `ts` or `python`
+ */
+export function highlightCode(code: string, language: string): string {
+  const name = language.toLowerCase();
+  const key = Object.hasOwn(LANGUAGE_ALIASES, name) ? LANGUAGE_ALIASES[name] : name;
+  const rules = Object.hasOwn(LANGUAGES, key) ? LANGUAGES[key] : null;
+  if (!rules) {
+    return escapeHtml(code);
+  }
+
+  const keywords = new Set(rules.keywords);
+  const caseInsensitive = key === 'sql';
+  let html = '';
+  let last = 0;
+
+  for (const match of code.matchAll(buildTokenizer(rules))) {
+    const [token, comment, string, number, word] = match;
+    html += escapeHtml(code.slice(last, match.index));
+    last = match.index! + token.length;
+
+    const kind = comment ? 'comment'
+      : string ? 'string'
+        : number ? 'number'
+          : word && keywords.has(caseInsensitive ? word.toLowerCase() : word) ? 'keyword'
+            : null;
+    html += kind ? `<span class="hl-${kind}">${escapeHtml(token)}</span>` : escapeHtml(token);
+  }
+
+  return html + escapeHtml(code.slice(last));
+}
@@ -0,0 +1,140 @@
+/**
+ * HTML session export
+ * Renders the export document as a single self-contained page: message texts as Markdown
+ * with highlighted code blocks, tool calls and results in collapsible sections, and
+ * stored image attachments embedded as data URIs.
+ */
+
+import MarkdownIt from 'markdown-it';
+import { isImageAttachment, readAttachmentData } from '../attachments.js';
+import { escapeHtml, highlightCode } from './highlight.js';
+import {
+  formatExportTime,
+  getExportMetadata,
+  getExportTitle,
+  type ExportedMessage,
+  type SessionExport
+} from './sessionExport.js';
+
+/** Images larger than this are only listed, to keep the page small */
+const MAX_EMBEDDED_IMAGE_BYTES = 5 * 1024 * 1024;
+
+const STYLES = `
+body { font-family: system-ui, sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; line-height: 1.55; }
+header { border-bottom: 2px solid #d0d7de; margin-bottom: 1.5rem; }
+header dl { display: grid; grid-template-columns: max-content 1fr; gap: .2rem 1rem; font-size: .9rem; }
+header dt { font-weight: 600; color: #57606a; }
+header dd { margin: 0; }
+.message { border: 1px solid #d0d7de; border-radius: 8px; padding: .5rem 1rem; margin: 1rem 0; }
+.message.user { background: #f6f8fa; }
+.message.tool { background: #fff8e6; }
+.message-header { display: flex; justify-content: space-between; font-size: .85rem; color: #57606a; }
+.message-header .author { font-weight: 600; color: #0969da; }
+.message.user .author { color: #1a7f37; }
+pre { background: #0d1117; color: #e6edf3; padding: .75rem; border-radius: 6px; overflow-x: auto; }
+code { font-family: ui-monospace, monospace; font-size: .9em; }
+:not(pre) > code { background: #eff1f3; padding: .1em .3em; border-radius: 4px; }
+details { margin: .5rem 0; }
+summary { cursor: pointer; color: #57606a; }
+img { max-width: 100%; }
+.attachment { font-size: .9rem; color: #57606a; }
+.hl-comment { color: #8b949e; font-style: italic; }
+.hl-string { color: #a5d6ff; }
+.hl-number { color: #79c0ff; }
+.hl-keyword { color: #ff7b72; }
+`;
+
+const markdown: MarkdownIt = new MarkdownIt({
+  html: false, // Raw HTML in messages is shown as text
+  linkify: true,
+  highlight: (code, language) =>
+    `<pre><code class="language-${escapeHtml(language)}">${highlightCode(code, language)}</code></pre>`
+});
+
+/**
+ * Renders JSON in a collapsible section.
+ */
+function renderDetails(summary: string, value: unknown, open: boolean): string {
+  const json = JSON.stringify(value, null, 2);
+  return `<details${open ? ' open' : ''}><summary>${summary}</summary>` +
+    `<pre><code class="language-json">${highlightCode(json, 'json')}</code></pre></details>`;
+}
+
+/**
+ * Renders an attachment: stored images are embedded, other files listed.
+ */
+function renderAttachment(attachment: ExportedMessage['attachments'][number]): string {
+  const label = `📎 ${escapeHtml(attachment.filename)} (${escapeHtml(attachment.mime_type)}, ${attachment.size} B)`;
+  const part = {
+    attachment: {
+      hash: attachment.sha256,
+      filename: attachment.filename,
+      mimeType: attachment.mime_type,
+      size: attachment.size
+    }
+  };
+
+  if (isImageAttachment(part) && attachment.size <= MAX_EMBEDDED_IMAGE_BYTES) {
+    const data = readAttachmentData(part);
+    if (data) {
+      return `<figure><img src="data:${escapeHtml(attachment.mime_type)};base64,${data.toString('base64')}" ` +
+        `alt="${escapeHtml(attachment.filename)}"><figcaption class="attachment">${label}</figcaption></figure>`;
+    }
+  }
+  return `<p class="attachment">${label}</p>`;
+}
+
+/**
+ * Renders a single message.
+ */
+function renderMessage(message: ExportedMessage): string {
+  const body = [
+    message.text ? markdown.render(message.text) : '',
+    ...message.attachments.map(renderAttachment),
+    ...message.tool_calls.map(call =>
+      renderDetails(`🔧 Wywołanie narzędzia: <code>${escapeHtml(call.name)}</code>`, call.args, true)
+    ),
+    ...message.tool_results.map(result =>
+      renderDetails(`↳ Wynik narzędzia: <code>${escapeHtml(result.name)}</code>`, result.response, false)
+    )
+  ].join('\n');
+
+  const time = formatExportTime(message.timestamp);
+  return `<section class="message ${message.role}" id="m${message.index}">
+<div class="message-header"><span><a href="#m${message.index}">[${message.index}]</a> <span class="author">${escapeHtml(message.author)}</span></span>${time ? `<time datetime="${escapeHtml(message.timestamp!)}">${escapeHtml(time)}</time>` : ''}</div>
+${body}
+</section>`;
+}
+
+/**
+ * Renders the export as a standalone HTML page.
+ */
+export function renderHtml(document: SessionExport): string {
+  const title = escapeHtml(getExportTitle(document));
+  const metadata = getExportMetadata(document)
+    .map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="pl">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="Azor">
+<title>${title}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${title}</h1>
+<dl>
+${metadata}
+</dl>
+</header>
+<main>
+${document.messages.map(renderMessage).join('\n')}
+</main>
+</body>
+</html>
+`;
+}
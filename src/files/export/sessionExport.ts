@@ -0,0 +1,283 @@
+/**
+ * Session export
+ * Builds a format-neutral document from a session (metadata, messages with their authors,
+ * timestamps, attachments and tool calls) and renders it as Markdown, plain text or JSON.
+ * The JSON form follows SessionExportSchema, documented in the README, so other tools can
+ * read it without knowing the session file format.
+ */
+
+import { z } from 'zod';
+import type { ChatHistory, Message, SessionOrganization } from '../../types.js';
+import {
+  getMessageText,
+  isAttachmentPart,
+  isFunctionCallPart,
+  isFunctionResponsePart,
+  isToolResultMessage
+} from '../../utils/messageParts.js';
+
+export const EXPORT_FORMATS = ['md', 'html', 'json', 'txt'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+const EXPORT_SCHEMA_VERSION = 1;
+
+const ExportedMessageSchema = z.object({
+  index: z.number().int().positive().describe('Numer wiadomości, jak w /session display'),
+  id: z.string().optional().describe('ID wiadomości w drzewie sesji'),
+  role: z.enum(['user', 'assistant', 'tool']).describe('Autor: użytkownik, asystent lub wynik narzędzia'),
+  author: z.string().describe('Wyświetlana nazwa autora'),
+  timestamp: z.string().optional().describe('Znacznik czasu ISO 8601'),
+  text: z.string().describe('Treść tekstowa (pusta dla samych wywołań narzędzi)'),
+  attachments: z.array(z.object({
+    filename: z.string(),
+    mime_type: z.string(),
+    size: z.number().int().nonnegative().describe('Rozmiar w bajtach'),
+    sha256: z.string().describe('Klucz w magazynie załączników ~/.azor/attachments')
+  })),
+  tool_calls: z.array(z.object({
+    name: z.string(),
+    args: z.record(z.unknown())
+  })).describe('Narzędzia wywołane przez model'),
+  tool_results: z.array(z.object({
+    name: z.string(),
+    response: z.record(z.unknown())
+  })).describe('Wyniki narzędzi'),
+  usage: z.object({
+    prompt_tokens: z.number().int().nonnegative(),
+    completion_tokens: z.number().int().nonnegative(),
+    total_tokens: z.number().int().nonnegative()
+  }).optional().describe('Tokeny tury, na wiadomości kończącej turę')
+});
+
+export const SessionExportSchema = z.object({
+  format: z.literal('azor-session-export'),
+  version: z.literal(EXPORT_SCHEMA_VERSION),
+  exported_at: z.string().describe('Znacznik czasu ISO 8601'),
+  session: z.object({
+    id: z.string(),
+    title: z.string().optional(),
+    assistant: z.object({ id: z.string(), name: z.string() }),
+    model: z.string(),
+    branch: z.string().optional().describe('Wyeksportowana gałąź (aktywna)'),
+    tags: z.array(z.string()),
+    folder: z.string().optional(),
+    pinned: z.boolean(),
+    created_at: z.string().optional().describe('Znacznik czasu pierwszej wiadomości'),
+    updated_at: z.string().optional().describe('Znacznik czasu ostatniej wiadomości'),
+    messages_count: z.number().int().nonnegative()
+  }),
+  messages: z.array(ExportedMessageSchema)
+});
+
+export type SessionExport = z.infer<typeof SessionExportSchema>;
+export type ExportedMessage = z.infer<typeof ExportedMessageSchema>;
+
+/**
+ * Session data an export is built from.
+ */
+export interface ExportSource {
+  sessionId: string;
+  title: string | null;
+  assistantId: string;
+  assistantName: string;
+  model: string;
+  branch?: string;
+  organization: SessionOrganization;
+  history: ChatHistory;
+}
+
+/**
+ * Converts a message to its exported form.
+ */
+function exportMessage(message: Message, index: number, assistantName: string): ExportedMessage {
+  const role = isToolResultMessage(message) ? 'tool' : message.role === 'user' ? 'user' : 'assistant';
+  const author = role === 'tool' ? 'NARZĘDZIE' : role === 'user' ? 'TY' : message.speaker?.name || assistantName;
+
+  return {
+    index: index + 1,
+    ...(message.id && { id: message.id }),
+    role,
+    author,
+    ...(message.timestamp && { timestamp: message.timestamp }),
+    text: getMessageText(message),
+    attachments: message.parts.filter(isAttachmentPart).map(part => ({
+      filename: part.attachment.filename,
+      mime_type: part.attachment.mimeType,
+      size: part.attachment.size,
+      sha256: part.attachment.hash
+    })),
+    tool_calls: message.parts.filter(isFunctionCallPart).map(part => ({
+      name: part.functionCall.name,
+      args: part.functionCall.args
+    })),
+    tool_results: message.parts.filter(isFunctionResponsePart).map(part => ({
+      name: part.functionResponse.name,
+      response: part.functionResponse.response
+    })),
+    ...(message.usage && {
+      usage: {
+        prompt_tokens: message.usage.promptTokens,
+        completion_tokens: message.usage.completionTokens,
+        total_tokens: message.usage.totalTokens
+      }
+    })
+  };
+}
+
+/**
+ * Builds the export document of a session.
+ */
+export function buildSessionExport(source: ExportSource): SessionExport {
+  const { history, organization } = source;
+  const createdAt = history[0]?.timestamp;
+  const updatedAt = history.at(-1)?.timestamp;
+
+  return {
+    format: 'azor-session-export',
+    version: EXPORT_SCHEMA_VERSION,
+    exported_at: new Date().toISOString(),
+    session: {
+      id: source.sessionId,
+      ...(source.title && { title: source.title }),
+      assistant: { id: source.assistantId, name: source.assistantName },
+      model: source.model,
+      ...(source.branch && { branch: source.branch }),
+      tags: organization.tags,
+      ...(organization.folder && { folder: organization.folder }),
+      pinned: organization.pinned,
+      ...(createdAt && { created_at: createdAt }),
+      ...(updatedAt && { updated_at: updatedAt }),
+      messages_count: history.length
+    },
+    messages: history.map((message, index) => exportMessage(message, index, source.assistantName))
+  };
+}
+
+/**
+ * Formats a timestamp for export headers; invalid or missing ones yield an empty string.
+ */
+export function formatExportTime(timestamp?: string): string {
+  const date = timestamp ? new Date(timestamp) : null;
+  return date && !isNaN(date.getTime()) ? date.toLocaleString('pl-PL') : '';
+}
+
+/**
+ * Returns the metadata lines of the export header, as label/value pairs.
+ */
+export function getExportMetadata(document: SessionExport): Array<[string, string]> {
+  const { session } = document;
+  const metadata: Array<[string, string]> = [
+    ['ID sesji', session.id],
+    ['Asystent', `${session.assistant.name} (${session.assistant.id})`],
+    ['Model', session.model],
+    ['Wiadomości', String(session.messages_count)]
+  ];
+
+  if (session.branch) {
+    metadata.push(['Gałąź', session.branch]);
+  }
+  if (session.folder) {
+    metadata.push(['Folder', session.folder]);
+  }
+  if (session.tags.length > 0) {
+    metadata.push(['Tagi', session.tags.map(tag => `#${tag}`).join(' ')]);
+  }
+  if (session.created_at) {
+    metadata.push(['Rozpoczęta', formatExportTime(session.created_at)]);
+  }
+  if (session.updated_at) {
+    metadata.push(['Ostatnia wiadomość', formatExportTime(session.updated_at)]);
+  }
+  metadata.push(['Wyeksportowano', formatExportTime(document.exported_at)]);
+  return metadata;
+}
+
+/**
+ * Returns the title of an exported session: its title, or its ID.
+ */
+export function getExportTitle(document: SessionExport): string {
+  return document.session.title || `Sesja ${document.session.id}`;
+}
+
+/**
+ * Returns the header line of a message: number, author and time.
+ */
+function messageHeading(message: ExportedMessage): string {
+  const time = formatExportTime(message.timestamp);
+  return `[${message.index}] ${message.author}${time ? ` · ${time}` : ''}`;
+}
+
+/**
+ * Wraps text in a fenced code block long enough not to clash with fences inside it.
+ */
+function fence(text: string, language: string = ''): string {
+  const longest = Math.max(2, ...(text.match(/`{3,}/g) || []).map(run => run.length));
+  const marker = '`'.repeat(longest + 1);
+  return `${marker}${language}\n${text}\n${marker}`;
+}
+
+/**
+ * Renders the export as Markdown. Message texts are kept as written, since answers
+ * are usually Markdown already; tool calls and results become JSON code blocks.
+ */
+export function renderMarkdown(document: SessionExport): string {
+  const lines: string[] = [`# ${getExportTitle(document)}`, ''];
+  for (const [label, value] of getExportMetadata(document)) {
+    lines.push(`- **${label}:** ${value}`);
+  }
+  lines.push('');
+
+  for (const message of document.messages) {
+    lines.push('---', '', `### ${messageHeading(message)}`, '');
+    if (message.text) {
+      lines.push(message.text, '');
+    }
+    for (const attachment of message.attachments) {
+      lines.push(`📎 ${attachment.filename} (${attachment.mime_type}, ${attachment.size} B)`, '');
+    }
+    for (const call of message.tool_calls) {
+      lines.push(`🔧 **${call.name}**`, '', fence(JSON.stringify(call.args, null, 2), 'json'), '');
+    }
+    for (const result of message.tool_results) {
+      lines.push(`↳ **${result.name}**`, '', fence(JSON.stringify(result.response, null, 2), 'json'), '');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Renders the export as plain text.
+ */
+export function renderText(document: SessionExport): string {
+  const title = getExportTitle(document);
+  const lines: string[] = [title, '='.repeat(title.length)];
+  for (const [label, value] of getExportMetadata(document)) {
+    lines.push(`${label}: ${value}`);
+  }
+
+  for (const message of document.messages) {
+    lines.push('', messageHeading(message));
+    if (message.text) {
+      lines.push(message.text);
+    }
+    for (const attachment of message.attachments) {
+      lines.push(`📎 ${attachment.filename} (${attachment.mime_type}, ${attachment.size} B)`);
+    }
+    for (const call of message.tool_calls) {
+      lines.push(`🔧 ${call.name}(${JSON.stringify(call.args)})`);
+    }
+    for (const result of message.tool_results) {
+      lines.push(`↳ ${result.name}: ${JSON.stringify(result.response)}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Renders the export as JSON following SessionExportSchema.
+ */
+export function renderJson(document: SessionExport): string {
+  return `${JSON.stringify(SessionExportSchema.parse(document), null, 2)}\n`;
+}
@@ -0,0 +1,106 @@
+/**
+ * Session import tests
+ * Export files are written to a temporary directory and read back.
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import type { ChatHistory } from '../../types.js';
+import { readImportFile } from './sessionImport.js';
+
+const dir = mkdtempSync(join(tmpdir(), 'azor-import-test-'));
+
+/**
+ * Writes an export file and returns its path.
+ */
+function writeExport(name: string, content: unknown): string {
+  const path = join(dir, name);
+  writeFileSync(path, typeof content === 'string' ? content : JSON.stringify(content));
+  return path;
+}
+
+/**
+ * Returns the roles and texts of a history.
+ */
+function turns(history: ChatHistory): string[] {
+  return history.map(message => `${message.role}: ${message.parts.map(part => ('text' in part ? part.text : '')).join(' | ')}`);
+}
+
+describe('readImportFile', () => {
+  it('reports a missing file', () => {
+    const [result, error] = readImportFile(join(dir, 'missing.json'));
+
+    assert.equal(result, null);
+    assert.match(error ?? '', /Plik nie istnieje/);
+  });
+
+  it('reports a file that is not JSON', () => {
+    const [result, error] = readImportFile(writeExport('broken.json', '{"messages": ['));
+
+    assert.equal(result, null);
+    assert.match(error ?? '', /Nie można odczytać pliku JSON/);
+  });
+
+  it('reports JSON in an unknown format', () => {
+    const [result, error] = readImportFile(writeExport('unknown.json', { conversations: 'none' }));
+
+    assert.equal(result, null);
+    assert.match(error ?? '', /Nierozpoznany format pliku/);
+  });
+
+  it('drops model turns before the first prompt and merges repeated roles', () => {
+    const path = writeExport('openai.json', {
+      title: 'Plan',
+      messages: [
+        { role: 'system', content: 'Be brief' },
+        { role: 'assistant', content: 'Hello!' },
+        { role: 'user', content: 'one' },
+        { role: 'user', content: [{ type: 'text', text: 'two' }, { type: 'image_url' }] },
+        { role: 'assistant', content: 'answer' },
+        { role: 'tool', content: '{}' }
+      ]
+    });
+
+    const [result, error] = readImportFile(path);
+
+    assert.equal(error, null);
+    assert.equal(result!.format, 'OpenAI');
+    assert.equal(result!.conversations[0].title, 'Plan');
+    assert.deepEqual(turns(result!.conversations[0].history), ['user: one | two', 'model: answer']);
+  });
+
+  it('skips conversations without a complete exchange', () => {
+    const path = writeExport('gemini.json', {
+      contents: [{ role: 'model', parts: [{ text: 'Hello!' }] }, { role: 'user', parts: [{ text: 'one' }] }]
+    });
+
+    const [result, error] = readImportFile(path);
+
+    assert.equal(error, null);
+    assert.deepEqual(result!.conversations, []);
+    assert.equal(result!.skipped, 1);
+  });
+
+  it('stops at a cycle in a ChatGPT message tree', () => {
+    const message = (role: string, text: string) => ({
+      author: { role },
+      content: { content_type: 'text', parts: [text] }
+    });
+    const path = writeExport('chatgpt.json', [{
+      title: 'Loop',
+      current_node: 'b',
+      mapping: {
+        a: { message: message('user', 'one'), parent: 'b', children: ['b'] },
+        b: { message: message('assistant', 'echo: one'), parent: 'a', children: ['a'] }
+      }
+    }]);
+
+    const [result, error] = readImportFile(path);
+
+    assert.equal(error, null);
+    assert.deepEqual(turns(result!.conversations[0].history), ['user: one', 'model: echo: one']);
+  });
+});
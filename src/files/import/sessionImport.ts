@@ -0,0 +1,305 @@
+/**
+ * Session import
+ * Reads conversations exported from other chat tools (ChatGPT conversations.json,
+ * Gemini API and AI Studio exports, OpenAI-style message arrays) as chat histories,
+ * with their titles, models and timestamps where the export has them. Only text is
+ * imported: images, tool calls and hidden or reasoning messages are left out.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { z } from 'zod';
+import type { ChatHistory, Message } from '../../types.js';
+
+/**
+ * A conversation read from an export.
+ */
+export interface ImportedConversation {
+  title: string | null;
+  model: string | null;
+  history: ChatHistory;
+}
+
+/**
+ * Result of reading an export file.
+ */
+export interface ImportResult {
+  format: string;
+  conversations: ImportedConversation[];
+  /** Conversations without a complete exchange, which can't be saved as sessions */
+  skipped: number;
+}
+
+const TimestampSchema = z.union([z.number(), z.string()]).nullable().optional();
+
+// ChatGPT: conversations.json from "Export data", a tree of messages per conversation
+const ChatGptMessageSchema = z.object({
+  author: z.object({ role: z.string() }),
+  create_time: TimestampSchema,
+  content: z.object({
+    content_type: z.string(),
+    parts: z.array(z.unknown()).optional()
+  }),
+  recipient: z.string().optional(),
+  metadata: z.record(z.unknown()).optional()
+});
+
+const ChatGptConversationSchema = z.object({
+  title: z.string().nullable().optional(),
+  create_time: TimestampSchema,
+  current_node: z.string().nullable().optional(),
+  default_model_slug: z.string().nullable().optional(),
+  mapping: z.record(z.object({
+    message: ChatGptMessageSchema.nullable().optional(),
+    parent: z.string().nullable().optional(),
+    children: z.array(z.string()).optional()
+  }))
+});
+
+// AI Studio: a saved prompt with its chat turns as chunks
+const AiStudioSchema = z.object({
+  runSettings: z.object({ model: z.string().optional() }).optional(),
+  chunkedPrompt: z.object({
+    chunks: z.array(z.object({
+      role: z.string(),
+      text: z.string().optional(),
+      isThought: z.boolean().optional(),
+      parts: z.array(z.object({ text: z.string().optional(), thought: z.boolean().optional() })).optional()
+    }))
+  })
+});
+
+// Gemini API: `contents` of a generateContent request
+const GeminiContentSchema = z.object({
+  role: z.string(),
+  parts: z.array(z.object({ text: z.string().optional(), thought: z.boolean().optional() }))
+});
+
+const GeminiContentsSchema = z.union([
+  z.array(GeminiContentSchema).nonempty(),
+  z.object({ model: z.string().optional(), contents: z.array(GeminiContentSchema) })
+]);
+
+// OpenAI-style: chat completion messages, alone or with a title and model
+const OpenAiMessageSchema = z.object({
+  role: z.string(),
+  content: z.union([
+    z.string(),
+    z.array(z.object({ type: z.string(), text: z.string().optional() })),
+    z.null()
+  ]).optional(),
+  timestamp: TimestampSchema,
+  created_at: TimestampSchema
+});
+
+const OpenAiConversationSchema = z.object({
+  title: z.string().nullable().optional(),
+  model: z.string().nullable().optional(),
+  messages: z.array(OpenAiMessageSchema)
+});
+
+/**
+ * Converts a Unix time (seconds or milliseconds) or a date string to ISO 8601.
+ */
+function toIsoTimestamp(value: number | string | null | undefined): string | undefined {
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+  const date = typeof value === 'number' ? new Date(value < 1e12 ? value * 1000 : value) : new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Builds a history from text messages: empty ones are dropped and consecutive
+ * messages of one role are merged, as chat models expect alternating turns.
+ * Model messages before the first prompt are dropped too, since Gemini rejects
+ * a history that doesn't start with the user.
+ */
+function buildHistory(messages: Array<{ role: Message['role']; text: string; timestamp?: string }>): ChatHistory {
+  const history: ChatHistory = [];
+  for (const { role, text, timestamp } of messages) {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      continue;
+    }
+
+    const last = history.at(-1);
+    if (!last && role === 'model') {
+      continue;
+    }
+    if (last?.role === role) {
+      last.parts.push({ text: trimmed });
+      continue;
+    }
+    history.push({ role, parts: [{ text: trimmed }], ...(timestamp && { timestamp }) });
+  }
+  return history;
+}
+
+/**
+ * Reads a ChatGPT conversation along its current branch (edited and regenerated
+ * messages are kept in the tree, but only the branch last viewed is imported).
+ */
+function readChatGptConversation(conversation: z.infer<typeof ChatGptConversationSchema>): ImportedConversation {
+  const { mapping } = conversation;
+  const leaf = conversation.current_node && Object.hasOwn(mapping, conversation.current_node)
+    ? conversation.current_node
+    : Object.keys(mapping).filter(id => (mapping[id].children || []).length === 0).at(-1);
+
+  const path: string[] = [];
+  const visited = new Set<string>();
+  for (let id = leaf; id && Object.hasOwn(mapping, id) && !visited.has(id); id = mapping[id].parent || undefined) {
+    visited.add(id);
+    path.unshift(id);
+  }
+
+  let model: string | null = conversation.default_model_slug || null;
+  const messages = path.flatMap(id => {
+    const message = mapping[id].message;
+    const role = message?.author.role;
+    if (!message || (role !== 'user' && role !== 'assistant')
+      || (message.recipient && message.recipient !== 'all') // Calls to tools
+      || message.metadata?.is_visually_hidden_from_conversation
+      || !['text', 'multimodal_text'].includes(message.content.content_type)) {
+      return [];
+    }
+
+    if (role === 'assistant' && typeof message.metadata?.model_slug === 'string') {
+      model = message.metadata.model_slug;
+    }
+    const timestamp = toIsoTimestamp(message.create_time);
+    return [{
+      role: role === 'user' ? 'user' as const : 'model' as const,
+      text: (message.content.parts || []).filter(part => typeof part === 'string').join('\n\n'),
+      ...(timestamp && { timestamp })
+    }];
+  });
+
+  const history = buildHistory(messages);
+  const conversationTime = toIsoTimestamp(conversation.create_time);
+  if (history[0] && !history[0].timestamp && conversationTime) {
+    history[0].timestamp = conversationTime;
+  }
+  return { title: conversation.title || null, model, history };
+}
+
+/**
+ * Reads Gemini contents or AI Studio chunks; thoughts are left out.
+ */
+function readGeminiTurns(
+  turns: Array<{ role: string; text: string }>,
+  model: string | null
+): ImportedConversation {
+  const messages = turns
+    .filter(turn => turn.role === 'user' || turn.role === 'model')
+    .map(turn => ({ role: turn.role as Message['role'], text: turn.text }));
+  return { title: null, model: model?.replace(/^models\//, '') || null, history: buildHistory(messages) };
+}
+
+/**
+ * Reads an OpenAI-style conversation; system and tool messages are left out.
+ */
+function readOpenAiConversation(conversation: z.infer<typeof OpenAiConversationSchema>): ImportedConversation {
+  const messages = conversation.messages
+    .filter(message => message.role === 'user' || message.role === 'assistant')
+    .map(message => {
+      const timestamp = toIsoTimestamp(message.timestamp ?? message.created_at);
+      return {
+        role: message.role === 'user' ? 'user' as const : 'model' as const,
+        text: typeof message.content === 'string'
+          ? message.content
+          : (message.content || []).map(part => part.type === 'text' ? part.text || '' : '').join('\n\n'),
+        ...(timestamp && { timestamp })
+      };
+    });
+  return { title: conversation.title || null, model: conversation.model || null, history: buildHistory(messages) };
+}
+
+/**
+ * Export formats, tried in order; each returns null for data it doesn't recognize.
+ */
+const IMPORTERS: Array<{ format: string; read: (data: unknown) => ImportedConversation[] | null }> = [
+  {
+    format: 'ChatGPT',
+    read: data => {
+      const parsed = z.union([z.array(ChatGptConversationSchema).nonempty(), ChatGptConversationSchema]).safeParse(data);
+      return parsed.success ? [parsed.data].flat().map(readChatGptConversation) : null;
+    }
+  },
+  {
+    format: 'AI Studio',
+    read: data => {
+      const parsed = AiStudioSchema.safeParse(data);
+      if (!parsed.success) {
+        return null;
+      }
+      const turns = parsed.data.chunkedPrompt.chunks
+        .filter(chunk => !chunk.isThought)
+        .map(chunk => ({
+          role: chunk.role,
+          text: chunk.text ?? (chunk.parts || []).filter(part => !part.thought).map(part => part.text || '').join('')
+        }));
+      return [readGeminiTurns(turns, parsed.data.runSettings?.model || null)];
+    }
+  },
+  {
+    format: 'Gemini',
+    read: data => {
+      const parsed = GeminiContentsSchema.safeParse(data);
+      if (!parsed.success) {
+        return null;
+      }
+      const [contents, model] = Array.isArray(parsed.data)
+        ? [parsed.data, null]
+        : [parsed.data.contents, parsed.data.model || null];
+      const turns = contents.map(content => ({
+        role: content.role,
+        text: content.parts.filter(part => !part.thought).map(part => part.text || '').join('\n\n')
+      }));
+      return [readGeminiTurns(turns, model)];
+    }
+  },
+  {
+    format: 'OpenAI',
+    read: data => {
+      const conversations = z.array(OpenAiConversationSchema).nonempty().safeParse(data);
+      if (conversations.success) {
+        return conversations.data.map(readOpenAiConversation);
+      }
+      const conversation = OpenAiConversationSchema.safeParse(data);
+      if (conversation.success) {
+        return [readOpenAiConversation(conversation.data)];
+      }
+      const messages = z.array(OpenAiMessageSchema).nonempty().safeParse(data);
+      return messages.success ? [readOpenAiConversation({ messages: messages.data })] : null;
+    }
+  }
+];
+
+/**
+ * Reads the conversations of an export file, recognizing its format.
+ *
+ * @returns [result, error_message]
+ */
+export function readImportFile(path: string): [ImportResult | null, string | null] {
+  if (!existsSync(path)) {
+    return [null, `Plik nie istnieje: ${path}`];
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    return [null, `Nie można odczytać pliku JSON ${path}: ${error instanceof Error ? error.message : error}`];
+  }
+
+  for (const { format, read } of IMPORTERS) {
+    const conversations = read(data);
+    if (conversations) {
+      // A session needs at least one exchange
+      const complete = conversations.filter(conversation => conversation.history.length >= 2);
+      return [{ format, conversations: complete, skipped: conversations.length - complete.length }, null];
+    }
+  }
+
+  return [null, 'Nierozpoznany format pliku. Obsługiwane: ChatGPT (conversations.json), Gemini/AI Studio, tablice wiadomości OpenAI.'];
+}
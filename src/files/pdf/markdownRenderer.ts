@@ -0,0 +1,524 @@
+import MarkdownIt from 'markdown-it';
+
+/** Fonts used by the renderer, as registered in the document */
+export interface PdfFonts {
+	regular: string;
+	bold: string;
+	italic: string;
+	boldItalic: string;
+	/** Monospaced font; a standard font, so it only covers Latin-1 */
+	mono: string;
+}
+
+type Token = ReturnType<MarkdownIt['parse']>[number];
+
+/** A piece of inline text sharing one style */
+interface TextRun {
+	text: string;
+	bold: boolean;
+	italic: boolean;
+	strike: boolean;
+	code: boolean;
+	link?: string;
+}
+
+/** Inline content: styled text runs, broken by images */
+type InlineItem = TextRun | { image: string; alt: string };
+
+const BODY_SIZE = 11;
+const HEADING_SIZES = [20, 16, 14, 12.5, 11.5, 11];
+const LINE_GAP = 2;
+const LIST_INDENT = 18;
+const QUOTE_INDENT = 14;
+const CODE_PADDING = 6;
+const TABLE_CELL_PADDING = 4;
+
+const TEXT_COLOR = '#1f2328';
+const MUTED_COLOR = '#57606a';
+const LINK_COLOR = '#0969da';
+const CODE_COLOR = '#24292f';
+const CODE_BACKGROUND = '#f3f4f6';
+const BORDER_COLOR = '#d0d7de';
+
+/** Image formats that PDFKit can embed */
+const EMBEDDABLE_IMAGE_SIGNATURES = [
+	Buffer.from([0x89, 0x50, 0x4e, 0x47]), // PNG
+	Buffer.from([0xff, 0xd8, 0xff]), // JPEG
+];
+
+/** Images are scaled to fit this box */
+const IMAGE_FIT: [number, number] = [400, 300];
+
+/** Text the standard (WinAnsi) fonts can show */
+const LATIN1_PATTERN = /^[\x00-\x7f\u00a0-\u00ff]*$/;
+
+/** Pictographs and arrows (used by tool and attachment labels) are missing from the fonts */
+const PICTOGRAPH_PATTERN = /[\p{Extended_Pictographic}\u200d\ufe0f]\s?/gu;
+const ARROW_PATTERN = /[\u2190-\u21ff]/g;
+
+const markdown = new MarkdownIt({ linkify: true });
+
+/**
+ * Checks whether image data is a PNG or JPEG image.
+ */
+function isEmbeddableImage(data: Buffer): boolean {
+	return EMBEDDABLE_IMAGE_SIGNATURES.some((signature) =>
+		data.subarray(0, signature.length).equals(signature),
+	);
+}
+
+/**
+ * Replaces characters the fonts have no glyphs for.
+ */
+function toPrintable(text: string): string {
+	return text.replace(PICTOGRAPH_PATTERN, '').replace(ARROW_PATTERN, '->');
+}
+
+/**
+ * Collects the plain text of inline tokens (for table cells and alt texts).
+ */
+function plainText(tokens: Token[]): string {
+	return tokens
+		.map((token) =>
+			token.type === 'softbreak' || token.type === 'hardbreak' ? ' ' : token.content,
+		)
+		.join('');
+}
+
+/**
+ * Walks the markdown-it token stream and draws it into a PDF document.
+ */
+class PdfMarkdownRenderer {
+	/** Left offset of the current block, from the page margin */
+	private indent = 0;
+	private color = TEXT_COLOR;
+	/** Open lists: the next number of ordered lists, null for bullet lists */
+	private lists: Array<number | null> = [];
+	/** List marker waiting for the first block of its item */
+	private pendingMarker: string | null = null;
+	/** Where open blockquotes started: page counter and y */
+	private quotes: Array<{ page: number; y: number }> = [];
+	private page = 0;
+
+	constructor(
+		private readonly doc: PDFKit.PDFDocument,
+		private readonly fonts: PdfFonts,
+		private readonly images: ReadonlyMap<string, Buffer>,
+	) {
+		doc.on('pageAdded', () => {
+			this.page++;
+		});
+	}
+
+	private get left(): number {
+		return this.doc.page.margins.left + this.indent;
+	}
+
+	private get width(): number {
+		return this.doc.page.width - this.doc.page.margins.right - this.left;
+	}
+
+	/**
+	 * Starts a new page unless the given height fits on the current one.
+	 */
+	private ensureSpace(height: number): void {
+		if (this.doc.y + height > this.doc.page.maxY()) {
+			this.doc.addPage();
+		}
+	}
+
+	/**
+	 * Picks the font of a text run; code in characters Courier lacks falls back to the body font.
+	 */
+	private fontFor(run: TextRun): string {
+		if (run.code) {
+			return LATIN1_PATTERN.test(run.text) ? this.fonts.mono : this.fonts.regular;
+		}
+		if (run.bold && run.italic) {
+			return this.fonts.boldItalic;
+		}
+		return run.bold ? this.fonts.bold : run.italic ? this.fonts.italic : this.fonts.regular;
+	}
+
+	/**
+	 * Draws the marker of the current list item next to its first block.
+	 */
+	private drawPendingMarker(size: number): void {
+		if (this.pendingMarker === null) {
+			return;
+		}
+		this.ensureSpace(this.doc.currentLineHeight(true));
+		const y = this.doc.y;
+		this.doc
+			.font(this.fonts.regular)
+			.fontSize(size)
+			.fillColor(this.color)
+			.text(this.pendingMarker, this.left - LIST_INDENT, y, {
+				width: LIST_INDENT,
+				lineBreak: false,
+			});
+		this.doc.y = y;
+		this.pendingMarker = null;
+	}
+
+	/**
+	 * Converts inline tokens to styled runs and images.
+	 */
+	private collectInline(tokens: Token[], base: Partial<TextRun> = {}): InlineItem[] {
+		const items: InlineItem[] = [];
+		const style = { bold: false, italic: false, strike: false, ...base };
+		let link: string | undefined;
+
+		const push = (text: string, code = false) => {
+			items.push({ text, ...style, code, ...(link && { link }) });
+		};
+
+		for (const token of tokens) {
+			switch (token.type) {
+				case 'text':
+					push(token.content);
+					break;
+				case 'code_inline':
+					push(token.content, true);
+					break;
+				case 'softbreak':
+					push(' ');
+					break;
+				case 'hardbreak':
+					push('\n');
+					break;
+				case 'strong_open':
+				case 'strong_close':
+					style.bold = token.nesting === 1 || !!base.bold;
+					break;
+				case 'em_open':
+				case 'em_close':
+					style.italic = token.nesting === 1 || !!base.italic;
+					break;
+				case 's_open':
+				case 's_close':
+					style.strike = token.nesting === 1;
+					break;
+				case 'link_open':
+					link = token.attrGet('href') || undefined;
+					break;
+				case 'link_close':
+					link = undefined;
+					break;
+				case 'image':
+					items.push({
+						image: token.attrGet('src') || '',
+						alt: token.content || plainText(token.children || []),
+					});
+					break;
+				default:
+					if (token.content) {
+						push(token.content);
+					}
+			}
+		}
+		return items;
+	}
+
+	/**
+	 * Writes styled runs as one flowing paragraph.
+	 */
+	private writeRuns(
+		runs: TextRun[],
+		size: number,
+		options: { x?: number; width?: number; align?: 'left' | 'center' | 'right' } = {},
+	): void {
+		const printable = runs
+			.map((run) => ({ ...run, text: toPrintable(run.text) }))
+			.filter((run) => run.text.length > 0);
+		if (printable.length === 0) {
+			return;
+		}
+
+		printable.forEach((run, index) => {
+			const textOptions: PDFKit.Mixins.TextOptions = {
+				continued: index < printable.length - 1,
+				link: run.link ?? null,
+				underline: !!run.link,
+				strike: run.strike,
+				lineGap: LINE_GAP,
+			};
+			this.doc
+				.font(this.fontFor(run))
+				.fontSize(run.code ? size * 0.92 : size)
+				.fillColor(run.link ? LINK_COLOR : run.code ? CODE_COLOR : this.color);
+			if (index === 0) {
+				this.doc.text(run.text, options.x ?? this.left, this.doc.y, {
+					...textOptions,
+					width: options.width ?? this.width,
+					align: options.align ?? 'left',
+				});
+			} else {
+				this.doc.text(run.text, textOptions);
+			}
+		});
+	}
+
+	/**
+	 * Embeds an image given to the renderer, or shows its alt text. Sources are never
+	 * read from disk, so a model's reply can't pull local files into the PDF.
+	 */
+	private writeImage(src: string, alt: string, size: number): void {
+		try {
+			const data = this.images.get(src);
+			if (!data || !isEmbeddableImage(data)) {
+				throw new Error(`Cannot embed image: ${src}`);
+			}
+			this.ensureSpace(IMAGE_FIT[1]);
+			this.doc.image(data, this.left, this.doc.y, { fit: IMAGE_FIT });
+			this.doc.moveDown(0.3);
+		} catch {
+			// Unknown sources, formats PDFKit can't embed (GIF, WebP) and damaged files
+			this.writeRuns(
+				[{ text: `[${alt}]`, bold: false, italic: true, strike: false, code: false }],
+				size,
+			);
+		}
+	}
+
+	/**
+	 * Writes inline content: runs between images flow as paragraphs.
+	 */
+	private writeInline(tokens: Token[], size: number, base: Partial<TextRun> = {}): void {
+		this.drawPendingMarker(size);
+		let runs: TextRun[] = [];
+		for (const item of this.collectInline(tokens, base)) {
+			if ('image' in item) {
+				this.writeRuns(runs, size);
+				runs = [];
+				this.writeImage(item.image, item.alt, size);
+			} else {
+				runs.push(item);
+			}
+		}
+		this.writeRuns(runs, size);
+	}
+
+	/**
+	 * Writes a code block in a monospaced font on a shaded background, line by line
+	 * so it can continue on the next page.
+	 */
+	private writeCode(code: string): void {
+		this.drawPendingMarker(BODY_SIZE);
+		const text = code.replace(/\t/g, '    ').replace(/\n$/, '');
+		const font = LATIN1_PATTERN.test(text) ? this.fonts.mono : this.fonts.regular;
+		const x = this.left;
+		const width = this.width;
+		const options = { width: width - 2 * CODE_PADDING, lineGap: 1 };
+
+		this.doc.font(font).fontSize(9.5).fillColor(CODE_COLOR);
+		this.ensureSpace(this.doc.currentLineHeight(true) + 2 * CODE_PADDING);
+		this.doc.rect(x, this.doc.y, width, CODE_PADDING).fill(CODE_BACKGROUND);
+		this.doc.y += CODE_PADDING;
+
+		for (const line of text.split('\n')) {
+			const printable = toPrintable(line) || ' ';
+			const height = this.doc.heightOfString(printable, options);
+			this.ensureSpace(height);
+			this.doc.rect(x, this.doc.y, width, height).fill(CODE_BACKGROUND);
+			this.doc.fillColor(CODE_COLOR).text(printable, x + CODE_PADDING, this.doc.y, options);
+		}
+
+		this.doc.rect(x, this.doc.y, width, CODE_PADDING).fill(CODE_BACKGROUND);
+		this.doc.y += CODE_PADDING;
+		this.doc.x = this.left;
+		this.doc.moveDown(0.5);
+	}
+
+	/**
+	 * Writes a table with equal columns; rows move to the next page whole.
+	 */
+	private writeTable(tokens: Token[]): void {
+		this.drawPendingMarker(BODY_SIZE);
+		const rows: Array<{ header: boolean; cells: Array<{ tokens: Token[]; align: 'left' | 'center' | 'right' }> }> = [];
+		let header = false;
+		tokens.forEach((token, index) => {
+			if (token.type === 'thead_open' || token.type === 'thead_close') {
+				header = token.nesting === 1;
+			} else if (token.type === 'tr_open') {
+				rows.push({ header, cells: [] });
+			} else if (token.type === 'inline') {
+				// Alignment is set on the enclosing th/td
+				const style = tokens[index - 1]?.attrGet('style') || '';
+				const align = style.includes('right') ? 'right' : style.includes('center') ? 'center' : 'left';
+				rows.at(-1)?.cells.push({ tokens: token.children || [], align });
+			}
+		});
+
+		const columns = Math.max(1, ...rows.map((row) => row.cells.length));
+		const columnWidth = this.width / columns;
+		const textWidth = columnWidth - 2 * TABLE_CELL_PADDING;
+		const size = BODY_SIZE - 1;
+
+		for (const row of rows) {
+			const heights = row.cells.map((cell) =>
+				this.doc
+					.font(row.header ? this.fonts.bold : this.fonts.regular)
+					.fontSize(size)
+					.heightOfString(toPrintable(plainText(cell.tokens)) || ' ', { width: textWidth, lineGap: LINE_GAP }),
+			);
+			const rowHeight = Math.max(...heights, this.doc.currentLineHeight(true)) + 2 * TABLE_CELL_PADDING;
+			this.ensureSpace(rowHeight);
+
+			const top = this.doc.y;
+			if (row.header) {
+				this.doc.rect(this.left, top, this.width, rowHeight).fill(CODE_BACKGROUND);
+			}
+			row.cells.forEach((cell, index) => {
+				const x = this.left + index * columnWidth;
+				this.doc.y = top + TABLE_CELL_PADDING;
+				this.writeRuns(
+					this.collectInline(cell.tokens, { bold: row.header }).filter(
+						(item): item is TextRun => 'text' in item,
+					),
+					size,
+					{ x: x + TABLE_CELL_PADDING, width: textWidth, align: cell.align },
+				);
+			});
+			for (let index = 0; index < columns; index++) {
+				this.doc
+					.rect(this.left + index * columnWidth, top, columnWidth, rowHeight)
+					.lineWidth(0.5)
+					.stroke(BORDER_COLOR);
+			}
+			this.doc.y = top + rowHeight;
+		}
+
+		this.doc.x = this.left;
+		this.doc.moveDown(0.5);
+	}
+
+	/**
+	 * Draws the bar of a closing blockquote along its text.
+	 */
+	private closeQuote(): void {
+		const quote = this.quotes.pop();
+		if (!quote) {
+			return;
+		}
+		const top = quote.page === this.page ? quote.y : this.doc.page.margins.top;
+		const x = this.left + 3;
+		this.doc
+			.moveTo(x, top)
+			.lineTo(x, this.doc.y)
+			.lineWidth(2.5)
+			.stroke(BORDER_COLOR);
+	}
+
+	/**
+	 * Renders markdown at the current position.
+	 */
+	render(source: string): void {
+		const tokens = markdown.parse(source, {});
+
+		for (let index = 0; index < tokens.length; index++) {
+			const token = tokens[index];
+			switch (token.type) {
+				case 'heading_open': {
+					const level = Number(token.tag.slice(1));
+					const size = HEADING_SIZES[level - 1] ?? BODY_SIZE;
+					this.doc.moveDown(level <= 2 ? 0.6 : 0.3);
+					this.ensureSpace(size * 3); // Keep headings with the text below them
+					this.writeInline(tokens[index + 1].children || [], size, { bold: true });
+					this.doc.moveDown(level === 1 ? 0.6 : 0.4);
+					index += 2;
+					break;
+				}
+				case 'paragraph_open':
+					this.writeInline(tokens[index + 1].children || [], BODY_SIZE);
+					// Items of tight lists hide their paragraphs
+					this.doc.moveDown(token.hidden ? 0.15 : 0.5);
+					index += 2;
+					break;
+				case 'bullet_list_open':
+				case 'ordered_list_open':
+					this.drawPendingMarker(BODY_SIZE);
+					this.lists.push(token.type === 'ordered_list_open' ? Number(token.attrGet('start') || 1) : null);
+					break;
+				case 'bullet_list_close':
+				case 'ordered_list_close':
+					this.lists.pop();
+					if (this.lists.length === 0) {
+						this.doc.moveDown(0.4);
+					}
+					break;
+				case 'list_item_open': {
+					const next = this.lists.at(-1);
+					if (typeof next === 'number') {
+						this.pendingMarker = `${next}.`;
+						this.lists[this.lists.length - 1] = next + 1;
+					} else {
+						this.pendingMarker = this.lists.length > 1 ? '–' : '•';
+					}
+					this.indent += LIST_INDENT;
+					break;
+				}
+				case 'list_item_close':
+					this.pendingMarker = null;
+					this.indent -= LIST_INDENT;
+					break;
+				case 'blockquote_open':
+					this.drawPendingMarker(BODY_SIZE);
+					this.quotes.push({ page: this.page, y: this.doc.y });
+					this.indent += QUOTE_INDENT;
+					this.color = MUTED_COLOR;
+					break;
+				case 'blockquote_close':
+					this.indent -= QUOTE_INDENT;
+					this.closeQuote();
+					this.color = this.quotes.length > 0 ? MUTED_COLOR : TEXT_COLOR;
+					this.doc.moveDown(0.3);
+					break;
+				case 'fence':
+				case 'code_block':
+					this.writeCode(token.content);
+					break;
+				case 'table_open': {
+					const end = tokens.findIndex((candidate, position) => position > index && candidate.type === 'table_close');
+					this.writeTable(tokens.slice(index + 1, end));
+					index = end;
+					break;
+				}
+				case 'hr': {
+					this.ensureSpace(12);
+					const y = this.doc.y + 4;
+					this.doc
+						.moveTo(this.left, y)
+						.lineTo(this.left + this.width, y)
+						.lineWidth(0.5)
+						.stroke(BORDER_COLOR);
+					this.doc.y = y + 8;
+					break;
+				}
+				case 'inline':
+					this.writeInline(token.children || [], BODY_SIZE);
+					break;
+			}
+		}
+
+		this.doc.x = this.doc.page.margins.left;
+	}
+}
+
+/**
+ * Renders markdown into a PDF document at its current position: headings, bold and
+ * italic text, lists, tables, blockquotes, links, code and PNG/JPEG images.
+ *
+ * @param doc - The document to draw into
+ * @param source - Markdown content
+ * @param fonts - Fonts registered in the document
+ * @param images - Image data by the `src` that references it; other images show their alt text
+ */
+export function renderMarkdownToPdf(
+	doc: PDFKit.PDFDocument,
+	source: string,
+	fonts: PdfFonts,
+	images: ReadonlyMap<string, Buffer> = new Map(),
+): void {
+	new PdfMarkdownRenderer(doc, fonts, images).render(source);
+}
@@ -1,34 +1,148 @@
 import { createWriteStream, existsSync, mkdirSync } from 'fs';
-import MarkdownIt from 'markdown-it';
 import { dirname, join } from 'path';
 import PDFDocument from 'pdfkit';
+import { fileURLToPath } from 'url';
 import { printInfo } from '../../cli/console.js';
 import { OUTPUT_DIR } from '../config.js';
+import { type PdfFonts, renderMarkdownToPdf } from './markdownRenderer.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+/** Fonts live next to the sources; builds in dist/ read them from src/ */
+const FONT_DIRS = [join(__dirname, 'fonts'), join(__dirname, '../../../src/files/pdf/fonts')];
+
+const LATO_FILES: Record<Exclude<keyof PdfFonts, 'mono'>, string> = {
+	regular: 'Lato-Regular.ttf',
+	bold: 'Lato-Bold.ttf',
+	italic: 'Lato-Italic.ttf',
+	boldItalic: 'Lato-BoldItalic.ttf',
+};
+
+/** Standard fonts, used when Lato is missing (no Polish diacritics) */
+const STANDARD_FONTS: PdfFonts = {
+	regular: 'Helvetica',
+	bold: 'Helvetica-Bold',
+	italic: 'Helvetica-Oblique',
+	boldItalic: 'Helvetica-BoldOblique',
+	mono: 'Courier',
+};
+
+/**
+ * Title page of a PDF: a title and label/value metadata lines.
+ */
+export interface PdfTitlePage {
+	title: string;
+	metadata: Array<[string, string]>;
+}
+
+/**
+ * Registers the Lato fonts, which cover Polish diacritics.
+ *
+ * @returns Names of the fonts to use; the standard ones if Lato is missing
+ */
+function registerFonts(doc: PDFKit.PDFDocument): PdfFonts {
+	const fontDir = FONT_DIRS.find((dir) =>
+		Object.values(LATO_FILES).every((file) => existsSync(join(dir, file))),
+	);
+	if (!fontDir) {
+		return STANDARD_FONTS;
+	}
+
+	const fonts = { ...STANDARD_FONTS };
+	for (const [style, file] of Object.entries(LATO_FILES) as Array<[keyof typeof LATO_FILES, string]>) {
+		const name = `Lato-${style}`;
+		doc.registerFont(name, join(fontDir, file));
+		fonts[style] = name;
+	}
+	return fonts;
+}
+
+/**
+ * Writes the title page: the title and the metadata as a two-column list.
+ */
+function writeTitlePage(doc: PDFKit.PDFDocument, fonts: PdfFonts, titlePage: PdfTitlePage): void {
+	const { left, right } = doc.page.margins;
+	const width = doc.page.width - left - right;
+	const labelWidth = 150;
+
+	doc.y = doc.page.height / 4;
+	doc
+		.font(fonts.bold)
+		.fontSize(24)
+		.fillColor('#1f2328')
+		.text(titlePage.title, left, doc.y, { width, align: 'center' })
+		.moveDown(1.5);
+
+	for (const [label, value] of titlePage.metadata) {
+		const y = doc.y;
+		doc
+			.font(fonts.bold)
+			.fontSize(11)
+			.fillColor('#57606a')
+			.text(label, left, y, { width: labelWidth - 10, align: 'right' });
+		const labelBottom = doc.y;
+		doc
+			.font(fonts.regular)
+			.fillColor('#1f2328')
+			.text(value, left + labelWidth, y, { width: width - labelWidth });
+		doc.y = Math.max(doc.y, labelBottom) + 4;
+	}
+
+	doc.addPage();
+}
+
+/**
+ * Numbers the pages at the bottom margin, leaving out the first `skip` pages.
+ */
+function writePageNumbers(doc: PDFKit.PDFDocument, fonts: PdfFonts, skip: number): void {
+	const range = doc.bufferedPageRange();
+	const total = range.count - skip;
+
+	for (let index = skip; index < range.count; index++) {
+		doc.switchToPage(range.start + index);
+		const { left, right, bottom } = doc.page.margins;
+		// Writing inside the bottom margin would otherwise start a new page
+		doc.page.margins.bottom = 0;
+		doc
+			.font(fonts.regular)
+			.fontSize(9)
+			.fillColor('#57606a')
+			.text(`${index - skip + 1} / ${total}`, left, doc.page.height - bottom / 2 - 4, {
+				width: doc.page.width - left - right,
+				align: 'center',
+				lineBreak: false,
+			});
+		doc.page.margins.bottom = bottom;
+	}
+}
 
 /**
  * Generates a PDF file from markdown content.
  *
  * @param markdownContent - The markdown content to convert to PDF
  * @param outputFilename - The name of the output PDF file
+ * @param titlePage - Optional title page with session metadata; also sets the document title
+ * @param images - Image data by the `src` the markdown references it with; only these are embedded
  * @returns Promise that resolves when PDF is generated
  */
 export function generatePdfFromMarkdown(
 	markdownContent: string,
 	outputFilename: string,
+	titlePage?: PdfTitlePage,
+	images?: ReadonlyMap<string, Buffer>,
 ): Promise<void> {
 	return new Promise((resolve, reject) => {
-		const md = new MarkdownIt();
-		md.render(markdownContent); // Parse markdown (result unused but validates content)
-
-		// Create PDF document
+		// Create PDF document; pages stay buffered so they can be numbered at the end
 		const doc = new PDFDocument({
 			autoFirstPage: true,
+			bufferPages: true,
 			margins: {
 				top: 50,
 				bottom: 50,
 				left: 50,
 				right: 50,
 			},
+			...(titlePage && { info: { Title: titlePage.title } }),
 		});
 
 		const finalFilename = join(OUTPUT_DIR, outputFilename);
@@ -43,47 +157,12 @@ export function generatePdfFromMarkdown(
 		const stream = createWriteStream(finalFilename);
 		doc.pipe(stream);
 
-		// Parse the markdown content and add to PDF
-		// Split by lines and process
-		const lines = markdownContent.split('\n');
-
-		for (const line of lines) {
-			if (!line.trim()) {
-				// Empty line - add spacing
-				doc.moveDown(0.5);
-				continue;
-			}
-
-			if (line.startsWith('# ')) {
-				// Main heading
-				doc
-					.fontSize(20)
-					.font('Helvetica-Bold')
-					.text(line.substring(2), { align: 'left' })
-					.moveDown(1);
-			} else if (line.startsWith('## ')) {
-				// Subheading
-				doc
-					.fontSize(16)
-					.font('Helvetica-Bold')
-					.text(line.substring(3), { align: 'left' })
-					.moveDown(0.5);
-			} else if (line.startsWith('### ')) {
-				// Sub-subheading
-				doc
-					.fontSize(14)
-					.font('Helvetica-Bold')
-					.text(line.substring(4), { align: 'left' })
-					.moveDown(0.5);
-			} else {
-				// Regular text
-				doc
-					.fontSize(12)
-					.font('Helvetica')
-					.text(line, { align: 'left' })
-					.moveDown(0.3);
-			}
+		const fonts = registerFonts(doc);
+		if (titlePage) {
+			writeTitlePage(doc, fonts, titlePage);
 		}
+		renderMarkdownToPdf(doc, markdownContent, fonts, images);
+		writePageNumbers(doc, fonts, titlePage ? 1 : 0);
 
 		// Finalize PDF
 		doc.end();
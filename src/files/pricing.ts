@@ -0,0 +1,74 @@
+/**
+ * Model pricing table
+ * Prices are in USD per million tokens. Built-in prices cover Gemini models and can be
+ * overridden or extended in PRICING_FILE; models without a price are treated as free.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { z } from 'zod';
+import { PRICING_FILE } from './config.js';
+
+const ModelPriceSchema = z.object({
+  input: z.number().nonnegative().describe('Cena za milion tokenów wejściowych (USD)'),
+  output: z.number().nonnegative().describe('Cena za milion tokenów wyjściowych (USD)')
+});
+
+const PricingFileSchema = z.record(z.string().min(1), ModelPriceSchema);
+
+export type ModelPrice = z.infer<typeof ModelPriceSchema>;
+export type PricingTable = Record<string, ModelPrice>;
+
+/** Keys are model name prefixes; the longest matching prefix wins */
+const BUILTIN_PRICES: PricingTable = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 }
+};
+
+/**
+ * Loads the pricing table: built-in prices merged with PRICING_FILE, if it exists.
+ * An invalid file is ignored and reported, so a typo never blocks the chat.
+ *
+ * @returns [pricing_table, error_message]
+ */
+export function loadPricingTable(): [PricingTable, string | null] {
+  if (!existsSync(PRICING_FILE)) {
+    return [BUILTIN_PRICES, null];
+  }
+
+  try {
+    const parsed = PricingFileSchema.safeParse(JSON.parse(readFileSync(PRICING_FILE, 'utf-8')));
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ');
+      return [BUILTIN_PRICES, `Nieprawidłowy cennik '${PRICING_FILE}': ${issues}`];
+    }
+    return [{ ...BUILTIN_PRICES, ...parsed.data }, null];
+  } catch (error) {
+    return [BUILTIN_PRICES, `Błąd odczytu cennika '${PRICING_FILE}': ${error}`];
+  }
+}
+
+/**
+ * Finds the price of a model by the longest matching name prefix.
+ * A `models/` prefix (as in Gemini API names) is ignored.
+ */
+export function findModelPrice(table: PricingTable, modelName: string): ModelPrice | null {
+  const name = modelName.replace(/^models\//, '');
+  const match = Object.keys(table)
+    .filter(prefix => name.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? table[match] : null;
+}
+
+/**
+ * Estimates the cost (USD) of the given number of prompt and completion tokens.
+ */
+export function estimateCost(price: ModelPrice, promptTokens: number, completionTokens: number): number {
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
@@ -0,0 +1,331 @@
+/**
+ * Full-text search index
+ * An inverted index of message contents across all sessions, kept in SEARCH_INDEX_FILE.
+ * Sessions are re-indexed when saved; files changed in any other way (older versions,
+ * WAL recovery, manual edits) are detected by their modification time on the next search.
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { z } from 'zod';
+import { writeFileAtomic } from './atomicWrite.js';
+import { LOG_DIR, SEARCH_INDEX_FILE } from './config.js';
+import { loadStoredSession, type SerializedMessage } from './sessionFiles.js';
+
+/** Bumped whenever tokenization or the file layout changes; older indexes are rebuilt */
+const SEARCH_INDEX_VERSION = 1;
+
+/** Characters shown on each side of a match */
+const SNIPPET_CONTEXT = 60;
+
+const IndexedSessionSchema = z.object({
+  mtime: z.number().describe('Czas modyfikacji pliku sesji w chwili indeksowania (ms)'),
+  terms: z.array(z.string()).describe('Słowa występujące w sesji')
+});
+
+const SearchIndexSchema = z.object({
+  version: z.literal(SEARCH_INDEX_VERSION),
+  sessions: z.record(IndexedSessionSchema).describe('Zaindeksowane sesje'),
+  postings: z.record(z.record(z.array(z.number().int().nonnegative())))
+    .describe('Słowo -> ID sesji -> indeksy wiadomości')
+});
+
+/**
+ * Index in memory; words are Map keys, so ones like `constructor` are safe to store
+ */
+interface SearchIndex {
+  sessions: Record<string, z.infer<typeof IndexedSessionSchema>>;
+  postings: Map<string, Record<string, number[]>>;
+}
+
+/**
+ * Parsed search query
+ */
+export interface SearchQuery {
+  words: string[]; // Every word must occur in the message
+  phrases: string[]; // Every phrase must occur verbatim (after normalization)
+  role?: 'user' | 'model';
+}
+
+/**
+ * Message matching a search query
+ */
+export interface SearchHit {
+  sessionId: string;
+  title?: string;
+  messageIndex: number;
+  role: 'user' | 'model';
+  author: string; // ID of the assistant that wrote a model message
+  timestamp: string;
+  before?: string; // Text of the previous message
+  snippet: string; // Fragment of the message around the first match
+}
+
+/**
+ * Normalizes text for matching: lower case, without Polish and other diacritics.
+ */
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/ł/g, 'l')
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '');
+}
+
+/**
+ * Splits text into normalized words.
+ */
+export function tokenize(text: string): string[] {
+  return normalizeText(text).match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+/**
+ * Parses a query: plain words, "quoted phrases" and a `role:user` / `role:model` filter.
+ *
+ * @returns [query, error_message]
+ */
+export function parseSearchQuery(input: string): [SearchQuery | null, string | null] {
+  const query: SearchQuery = { words: [], phrases: [] };
+
+  for (const [, phrase, word] of input.matchAll(/"([^"]*)"|(\S+)/g)) {
+    if (phrase !== undefined) {
+      if (tokenize(phrase).length > 0) {
+        query.phrases.push(tokenize(phrase).join(' '));
+      }
+    } else if (word.toLowerCase().startsWith('role:')) {
+      const role = word.slice('role:'.length).toLowerCase();
+      if (role !== 'user' && role !== 'model') {
+        return [null, `Nieznana rola '${role}', dozwolone: user, model`];
+      }
+      query.role = role;
+    } else {
+      query.words.push(...tokenize(word));
+    }
+  }
+
+  if (query.words.length === 0 && query.phrases.length === 0) {
+    return [null, 'Zapytanie nie zawiera słów do wyszukania'];
+  }
+  return [query, null];
+}
+
+/**
+ * Returns the path of a session file.
+ */
+function getSessionPath(sessionId: string): string {
+  return join(LOG_DIR, `${sessionId}-log.json`);
+}
+
+/**
+ * Returns a session file's modification time, or null if it doesn't exist.
+ */
+function getSessionMtime(sessionId: string): number | null {
+  const path = getSessionPath(sessionId);
+  return existsSync(path) ? statSync(path).mtimeMs : null;
+}
+
+/**
+ * Reads the index; a missing, invalid or outdated file yields an empty index.
+ */
+function loadSearchIndex(): SearchIndex {
+  const empty: SearchIndex = { sessions: {}, postings: new Map() };
+  if (!existsSync(SEARCH_INDEX_FILE)) {
+    return empty;
+  }
+
+  try {
+    const parsed = SearchIndexSchema.safeParse(JSON.parse(readFileSync(SEARCH_INDEX_FILE, 'utf-8')));
+    return parsed.success
+      ? { sessions: parsed.data.sessions, postings: new Map(Object.entries(parsed.data.postings)) }
+      : empty;
+  } catch {
+    return empty;
+  }
+}
+
+/**
+ * Writes the index atomically.
+ */
+function saveSearchIndex(index: SearchIndex): void {
+  writeFileAtomic(SEARCH_INDEX_FILE, JSON.stringify({
+    version: SEARCH_INDEX_VERSION,
+    sessions: index.sessions,
+    postings: Object.fromEntries(index.postings)
+  }));
+}
+
+/**
+ * Drops a session's postings from the index.
+ */
+function removeFromIndex(index: SearchIndex, sessionId: string): void {
+  for (const term of index.sessions[sessionId]?.terms || []) {
+    const postings = index.postings.get(term);
+    if (postings) {
+      delete postings[sessionId];
+      if (Object.keys(postings).length === 0) {
+        index.postings.delete(term);
+      }
+    }
+  }
+  delete index.sessions[sessionId];
+}
+
+/**
+ * Replaces a session's postings with the words of its messages.
+ */
+function addToIndex(index: SearchIndex, sessionId: string, texts: string[], mtime: number): void {
+  removeFromIndex(index, sessionId);
+
+  const terms = new Map<string, number[]>();
+  texts.forEach((text, messageIndex) => {
+    for (const term of new Set(tokenize(text))) {
+      const indices = terms.get(term) || [];
+      indices.push(messageIndex);
+      terms.set(term, indices);
+    }
+  });
+
+  for (const [term, indices] of terms) {
+    index.postings.set(term, { ...index.postings.get(term), [sessionId]: indices });
+  }
+  index.sessions[sessionId] = { mtime, terms: [...terms.keys()] };
+}
+
+/**
+ * Updates the index with the current contents of a session, right after it was saved.
+ * Only the active branch is indexed, as that's what /switch opens.
+ *
+ * @returns [success, error_message]
+ */
+export function indexSession(sessionId: string, texts: string[]): [boolean, string | null] {
+  const mtime = getSessionMtime(sessionId);
+  if (mtime === null) {
+    return [true, null];
+  }
+
+  try {
+    const index = loadSearchIndex();
+    addToIndex(index, sessionId, texts, mtime);
+    saveSearchIndex(index);
+    return [true, null];
+  } catch (error) {
+    return [false, `Błąd aktualizacji indeksu wyszukiwania: ${error}`];
+  }
+}
+
+/**
+ * Brings the index up to date with the session files: new and modified files are
+ * indexed, removed ones dropped. Unreadable files are skipped.
+ */
+function syncSearchIndex(index: SearchIndex): boolean {
+  const sessionIds = readdirSync(LOG_DIR)
+    .filter(file => file.endsWith('-log.json'))
+    .map(file => file.replace('-log.json', ''));
+  let changed = false;
+
+  for (const sessionId of Object.keys(index.sessions)) {
+    if (!sessionIds.includes(sessionId)) {
+      removeFromIndex(index, sessionId);
+      changed = true;
+    }
+  }
+
+  for (const sessionId of sessionIds) {
+    const mtime = getSessionMtime(sessionId);
+    if (mtime === null || index.sessions[sessionId]?.mtime === mtime) {
+      continue;
+    }
+    const [stored] = loadStoredSession(sessionId);
+    if (stored) {
+      // Loading may migrate and rewrite the file, so its time is read again
+      addToIndex(index, sessionId, stored.history.map(entry => entry.text), getSessionMtime(sessionId) ?? mtime);
+      changed = true;
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Returns a fragment of text around the first match of the query, with ellipses
+ * where it was cut. Positions are found in the normalized text, which has the
+ * same length as the original for the scripts it handles.
+ */
+function buildSnippet(text: string, query: SearchQuery): string {
+  const normalized = normalizeText(text);
+  const needles = [...query.phrases, ...query.phrases.flatMap(phrase => phrase.split(' ')), ...query.words];
+  const positions = needles.map(needle => normalized.indexOf(needle)).filter(found => found >= 0);
+  const position = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const start = Math.max(0, position - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, position + SNIPPET_CONTEXT * 2);
+  const fragment = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '...' : ''}${fragment}${end < text.length ? '...' : ''}`;
+}
+
+/**
+ * Checks the parts of a query the index can't answer: phrases and the role.
+ */
+function matchesQuery(entry: SerializedMessage, query: SearchQuery): boolean {
+  if (query.role && entry.role !== query.role) {
+    return false;
+  }
+  const words = tokenize(entry.text).join(' ');
+  return query.phrases.every(phrase => ` ${words} `.includes(` ${phrase} `));
+}
+
+/**
+ * Searches message contents across all sessions, newest messages first.
+ *
+ * @returns [hits, error_message]
+ */
+export function searchSessions(query: SearchQuery, limit: number): [SearchHit[], string | null] {
+  const index = loadSearchIndex();
+  try {
+    if (syncSearchIndex(index)) {
+      saveSearchIndex(index);
+    }
+  } catch (error) {
+    return [[], `Błąd aktualizacji indeksu wyszukiwania: ${error}`];
+  }
+
+  // Candidates contain every word of the query, phrase words included
+  const terms = [...new Set([...query.words, ...query.phrases.flatMap(phrase => phrase.split(' '))])];
+  const [first, ...rest] = terms.map(term => index.postings.get(term) || {});
+  const hits: SearchHit[] = [];
+
+  for (const [sessionId, indices] of Object.entries(first)) {
+    const candidates = indices.filter(messageIndex =>
+      rest.every(postings => postings[sessionId]?.includes(messageIndex))
+    );
+    if (candidates.length === 0) {
+      continue;
+    }
+
+    const [stored] = loadStoredSession(sessionId);
+    if (!stored) {
+      continue;
+    }
+
+    for (const messageIndex of candidates) {
+      const entry = stored.history[messageIndex];
+      if (!entry || !matchesQuery(entry, query)) {
+        continue;
+      }
+      const previous = stored.history[messageIndex - 1];
+      hits.push({
+        sessionId,
+        ...(stored.title && { title: stored.title }),
+        messageIndex,
+        role: entry.role,
+        author: entry.speaker?.id || stored.assistant_id,
+        timestamp: entry.timestamp,
+        ...(previous?.text && { before: previous.text }),
+        snippet: buildSnippet(entry.text, query)
+      });
+    }
+  }
+
+  hits.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  return [hits.slice(0, limit), null];
+}
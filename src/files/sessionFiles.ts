@@ -1,68 +1,227 @@
-import { readFileSync, writeFileSync, readdirSync, existsSync, unlinkSync } from 'fs';
+import { readFileSync, readdirSync, existsSync, statSync, unlinkSync } from 'fs';
 import { join } from 'path';
+import { writeFileAtomic } from './atomicWrite.js';
 import { LOG_DIR } from './config.js';
-import type { ChatHistory, SessionMetadata, Message } from '../types.js';
+import {
+  createSessionIndexEntry,
+  loadSessionIndex,
+  removeFromSessionIndex,
+  saveSessionIndex,
+  updateSessionIndex,
+  type SessionIndex,
+  type SessionIndexEntry
+} from './sessionIndex.js';
+import { migrateSessionData } from './sessionMigrations.js';
+import {
+  SESSION_FORMAT_VERSION,
+  StoredSessionSchema,
+  type SerializedBranch,
+  type SerializedMessage,
+  type SerializedModelChange,
+  type StoredSessionMetadata
+} from './sessionValidation.js';
+import { appendRemovalToWAL } from './wal.js';
+import type {
+  ChatHistory,
+  ContextState,
+  ModelChange,
+  SessionBranches,
+  SessionOrganization
+} from '../types.js';
+import { getMessageText } from '../utils/messageParts.js';
+import { createMessageId, linkMessages } from '../utils/messageTree.js';
+
+export type { SerializedMessage, StoredSessionMetadata } from './sessionValidation.js';
+
+/**
+ * Returns the path of the log file for a session.
+ */
+function getSessionFilename(sessionId: string): string {
+  return join(LOG_DIR, `${sessionId}-log.json`);
+}
+
+/**
+ * Serializes stored session metadata and writes it atomically.
+ */
+function writeStoredSession(logFilename: string, logData: StoredSessionMetadata): void {
+  writeFileAtomic(logFilename, JSON.stringify(logData, null, 4));
+}
+
+/**
+ * Reads, migrates and validates a session file.
+ * Files upgraded from an older format version are rewritten in place.
+ *
+ * @throws SyntaxError if the file is not valid JSON, Error if it fails validation
+ */
+function readStoredSession(logFilename: string): StoredSessionMetadata {
+  const fileContent = readFileSync(logFilename, 'utf-8');
+  const [data, migrated] = migrateSessionData(JSON.parse(fileContent));
+
+  const parsed = StoredSessionSchema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid session file '${logFilename}': ${issues}`);
+  }
+
+  if (migrated) {
+    writeStoredSession(logFilename, parsed.data);
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Converts stored messages to the universal history format.
+ */
+export function storedHistoryToChatHistory(history: SerializedMessage[]): ChatHistory {
+  return history.map(entry => ({
+    id: entry.id,
+    parentId: entry.parent_id,
+    role: entry.role,
+    parts: entry.parts,
+    timestamp: entry.timestamp,
+    ...(entry.usage && { usage: entry.usage }),
+    ...(entry.speaker && { speaker: entry.speaker })
+  }));
+}
+
+/**
+ * Converts stored model changes to their in-memory form.
+ */
+export function storedModelChangesToModelChanges(changes: SerializedModelChange[] = []): ModelChange[] {
+  return changes.map(change => ({
+    engine: change.engine,
+    ...(change.model && { model: change.model }),
+    timestamp: change.timestamp,
+    messageIndex: change.message_index
+  }));
+}
+
+/**
+ * Converts the stored branches of a session to their in-memory form.
+ * Sessions saved before branching existed have no branches and yield null.
+ */
+export function storedBranchesToSessionBranches(stored: StoredSessionMetadata): SessionBranches | null {
+  if (!stored.branch || !stored.branches) {
+    return null;
+  }
+
+  return {
+    active: stored.branch,
+    branches: stored.branches.map(branch => ({
+      name: branch.name,
+      headId: branch.head_id,
+      createdAt: branch.created_at
+    })),
+    messages: storedHistoryToChatHistory(stored.branch_messages || [])
+  };
+}
 
 /**
- * Type for serialized message format in JSON files.
- * This format flattens the message structure for storage.
+ * Reads the tags, folder and pin of a stored session.
  */
-interface SerializedMessage {
-  role: 'user' | 'model';
-  text: string;
-  timestamp: string;
+export function storedOrganizationToSessionOrganization(stored: StoredSessionMetadata): SessionOrganization {
+  return {
+    tags: stored.tags || [],
+    folder: stored.folder || null,
+    pinned: stored.pinned || false
+  };
 }
 
 /**
- * Type for session metadata as stored in JSON files.
+ * Converts linked messages to their stored form.
  */
-interface StoredSessionMetadata {
-  session_id: string;
-  model: string;
-  system_role: string;
-  assistant_id?: string; // Optional assistant identifier
-  history: SerializedMessage[];
-  title?: string; // Optional human-readable title
+function serializeMessages(messages: ChatHistory): SerializedMessage[] {
+  return messages.map(content => ({
+    id: content.id || createMessageId(),
+    parent_id: content.parentId ?? null,
+    role: content.role,
+    timestamp: content.timestamp || new Date().toISOString(),
+    text: getMessageText(content),
+    parts: content.parts,
+    ...(content.usage && { usage: content.usage }),
+    ...(content.speaker && { speaker: content.speaker })
+  }));
 }
 
 /**
  * Loads session history from a JSON file in universal format.
+ * The history is the path of the active branch; other branches come with the branches.
  *
- * @returns [conversation_history, error_message, title, assistant_id]
+ * @returns [conversation_history, error_message, title, assistant_id, context_state, model_changes,
+ *   roundtable_assistant_ids, branches, organization]
  */
-export function loadSessionHistory(sessionId: string): [ChatHistory, string | null, string | null, string | null] {
-  const logFilename = join(LOG_DIR, `${sessionId}-log.json`);
+export function loadSessionHistory(
+  sessionId: string
+): [
+  ChatHistory,
+  string | null,
+  string | null,
+  string | null,
+  ContextState | null,
+  ModelChange[],
+  string[],
+  SessionBranches | null,
+  SessionOrganization | null,
+  number
+] {
+  const logFilename = getSessionFilename(sessionId);
 
   if (!existsSync(logFilename)) {
-    return [[], `Session log file '${logFilename}' does not exist. Starting new session.`, null, null];
+    return [[], `Session log file '${logFilename}' does not exist. Starting new session.`, null, null, null, [], [], null, null, 0];
   }
 
   try {
-    const fileContent = readFileSync(logFilename, 'utf-8');
-    const logData = JSON.parse(fileContent) as StoredSessionMetadata;
+    const logData = readStoredSession(logFilename);
 
     // Convert JSON data to universal format
-    const history: ChatHistory = logData.history.map(entry => ({
-      role: entry.role,
-      parts: [{ text: entry.text }],
-      timestamp: entry.timestamp
-    }));
+    const history = storedHistoryToChatHistory(logData.history);
 
     const title = logData.title || null;
     const assistantId = logData.assistant_id || null;
+    const context = logData.context || null;
+    const modelChanges = storedModelChangesToModelChanges(logData.model_changes);
+    const roundtable = logData.roundtable || [];
+    const branches = storedBranchesToSessionBranches(logData);
+    const organization = storedOrganizationToSessionOrganization(logData);
+    const walSeq = logData.wal_seq || 0;
 
-    return [history, null, title, assistantId];
+    return [history, null, title, assistantId, context, modelChanges, roundtable, branches, organization, walSeq];
   } catch (error) {
     if (error instanceof SyntaxError) {
-      return [[], `Cannot decode log file '${logFilename}'. Starting new session.`, null, null];
+      return [[], `Cannot decode log file '${logFilename}'. Starting new session.`, null, null, null, [], [], null, null, 0];
     }
-    return [[], `Error reading session file: ${error}`, null, null];
+    return [[], `Error reading session file: ${error}`, null, null, null, [], [], null, null, 0];
+  }
+}
+
+/**
+ * Reads the stored metadata of a session without converting its history.
+ *
+ * @returns [stored_metadata, error_message] - metadata is null when the file doesn't exist
+ */
+export function loadStoredSession(sessionId: string): [StoredSessionMetadata | null, string | null] {
+  const logFilename = getSessionFilename(sessionId);
+
+  if (!existsSync(logFilename)) {
+    return [null, null];
+  }
+
+  try {
+    return [readStoredSession(logFilename), null];
+  } catch (error) {
+    return [null, `Error reading session file '${logFilename}': ${error}`];
   }
 }
 
 /**
  * Saves the current session history to a JSON file.
- * Only saves if the history contains at least one complete turn (User + Model).
+ * A new session is only saved once the history contains at least one complete turn
+ * (User + Model), unless other branches hold messages; a saved one is always rewritten.
+ * `walSeq` is the last WAL entry the history reflects. Messages of the history get their IDs here.
+ * The file is written atomically (temp file + rename).
  *
  * @returns [success, error_message]
  */
@@ -72,94 +231,227 @@ export function saveSessionHistory(
   systemPrompt: string,
   modelName: string,
   title?: string | null,
-  assistantId?: string | null
+  assistantId?: string | null,
+  context?: ContextState | null,
+  modelChanges: ModelChange[] = [],
+  roundtable: string[] = [],
+  branches?: SessionBranches | null,
+  organization?: SessionOrganization | null,
+  walSeq: number = 0
 ): [boolean, string | null] {
-  if (history.length < 2) {
-    // Prevents saving empty/incomplete session
+  const logFilename = getSessionFilename(sessionId);
+  const hasBranches = !!branches && branches.branches.length > 1;
+  if (history.length < 2 && !hasBranches && !existsSync(logFilename)) {
+    // Prevents saving empty/incomplete new session; a saved one is rewritten (e.g. after /session clear)
     return [true, null];
   }
 
-  const logFilename = join(LOG_DIR, `${sessionId}-log.json`);
+  linkMessages(history);
+  const jsonHistory = serializeMessages(history);
 
-  const jsonHistory: SerializedMessage[] = history.map(content => ({
-    role: content.role,
-    timestamp: content.timestamp || new Date().toISOString(),
-    text: content.parts[0]?.text || ''
+  // The active branch always ends where the history does
+  const storedBranches: SerializedBranch[] | undefined = branches?.branches.map(branch => ({
+    name: branch.name,
+    head_id: branch.name === branches.active ? history.at(-1)?.id ?? null : branch.headId,
+    created_at: branch.createdAt
   }));
 
   const logData: StoredSessionMetadata = {
+    format_version: SESSION_FORMAT_VERSION,
     session_id: sessionId,
     model: modelName,
     system_role: systemPrompt,
+    assistant_id: assistantId || 'azor',
     history: jsonHistory,
     ...(title && { title }), // Only include title if it's defined and not null
-    ...(assistantId && { assistant_id: assistantId }) // Only include assistant_id if it's defined and not null
+    ...(context && { context }),
+    ...(modelChanges.length > 0 && {
+      model_changes: modelChanges.map(change => ({
+        engine: change.engine,
+        ...(change.model && { model: change.model }),
+        timestamp: change.timestamp,
+        message_index: change.messageIndex
+      }))
+    }),
+    ...(roundtable.length > 0 && { roundtable }),
+    ...(hasBranches && {
+      branch: branches.active,
+      branches: storedBranches,
+      branch_messages: serializeMessages(branches.messages)
+    }),
+    ...(organization?.tags.length && { tags: organization.tags }),
+    ...(organization?.folder && { folder: organization.folder }),
+    ...(organization?.pinned && { pinned: true }),
+    ...(walSeq > 0 && { wal_seq: walSeq })
   };
 
   try {
-    writeFileSync(logFilename, JSON.stringify(logData, null, 4), 'utf-8');
-    return [true, null];
+    writeStoredSession(logFilename, logData);
   } catch (error) {
     return [false, `Error writing to file ${logFilename}: ${error}`];
   }
+
+  // A failed index update doesn't fail the save: the stale entry is refreshed on the next listing
+  updateSessionIndex(sessionId, logData, statSync(logFilename).mtimeMs);
+  return [true, null];
 }
 
 /**
- * Returns a list of available sessions with their metadata.
+ * Session as shown in session lists
  */
-export function listSessions(): Array<{
+export interface SessionListItem {
   id: string;
   title?: string;
   messages_count?: number;
   last_activity?: string;
+  created_at?: string; // ISO timestamp of the first message
+  updated_at?: string; // ISO timestamp of the last message, for sorting by recency
+  modified_at?: string; // ISO timestamp of the last change of the file
+  model?: string;
+  assistant_id?: string;
+  tags?: string[];
+  folder?: string;
+  pinned?: boolean;
   error?: string;
-}> {
-  const files = readdirSync(LOG_DIR);
-  const sessionIds = files
+}
+
+/**
+ * Returns the IDs of all stored sessions, sorted.
+ */
+function listSessionIds(): string[] {
+  return readdirSync(LOG_DIR)
     .filter(f => f.endsWith('-log.json') && f !== 'azor-wal.json')
     .map(f => f.replace('-log.json', ''))
     .sort();
+}
+
+/**
+ * Formats the time of a session's last message for lists.
+ */
+function formatLastActivity(timestamp?: string): string {
+  if (!timestamp) {
+    return 'Brak aktywności';
+  }
+
+  const dt = new Date(timestamp);
+  if (isNaN(dt.getTime())) {
+    return 'Brak aktywności';
+  }
+  return dt.toLocaleString('pl-PL', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
+
+/**
+ * Brings the metadata index up to date with the session files: files changed since they
+ * were indexed are read again, removed ones dropped. Files that can't be read are
+ * returned with their errors and left out of the index.
+ *
+ * @returns [index, unreadable_session_ids]
+ */
+function syncSessionIndex(sessionIds: string[]): [SessionIndex, string[]] {
+  const index = loadSessionIndex();
+  const unreadable: string[] = [];
+  let changed = false;
+
+  for (const sessionId of Object.keys(index)) {
+    if (!sessionIds.includes(sessionId)) {
+      delete index[sessionId];
+      changed = true;
+    }
+  }
+
+  for (const sessionId of sessionIds) {
+    const logFilename = getSessionFilename(sessionId);
+    if (Object.hasOwn(index, sessionId) && index[sessionId].mtime === statSync(logFilename).mtimeMs) {
+      continue;
+    }
 
-  const sessionsData = sessionIds.map(sid => {
-    const logPath = join(LOG_DIR, `${sid}-log.json`);
     try {
-      const fileContent = readFileSync(logPath, 'utf-8');
-      const logData = JSON.parse(fileContent) as StoredSessionMetadata;
-      const historyLen = logData.history?.length || 0;
-      const lastMsgTimeStr = logData.history[historyLen - 1]?.timestamp || 'Brak daty';
-
-      let timeStr = 'Brak aktywności';
-      if (lastMsgTimeStr !== 'Brak daty') {
-        try {
-          const dt = new Date(lastMsgTimeStr);
-          timeStr = dt.toLocaleString('pl-PL', {
-            year: 'numeric',
-            month: '2-digit',
-            day: '2-digit',
-            hour: '2-digit',
-            minute: '2-digit'
-          });
-        } catch {
-          // Keep default timeStr
-        }
-      }
-
-      return {
-        id: sid,
-        title: logData.title,
-        messages_count: historyLen,
-        last_activity: timeStr,
-        error: undefined
-      };
+      const logData = readStoredSession(logFilename);
+      // Reading may migrate and rewrite the file, so its time is read afterwards
+      index[sessionId] = createSessionIndexEntry(logData, statSync(logFilename).mtimeMs);
     } catch {
-      return {
-        id: sid,
-        error: 'BŁĄD ODCZYTU PLIKU'
-      };
+      delete index[sessionId];
+      unreadable.push(sessionId);
     }
-  });
+    changed = true;
+  }
 
-  return sessionsData;
+  if (changed) {
+    try {
+      saveSessionIndex(index);
+    } catch {
+      // The index is only a cache; the listing is still correct
+    }
+  }
+  return [index, unreadable];
+}
+
+/**
+ * Converts an index entry to a list item.
+ */
+function indexEntryToListItem(id: string, entry: SessionIndexEntry): SessionListItem {
+  return {
+    id,
+    title: entry.title,
+    messages_count: entry.messages_count,
+    last_activity: formatLastActivity(entry.updated_at),
+    ...(entry.created_at && { created_at: entry.created_at }),
+    ...(entry.updated_at && { updated_at: entry.updated_at }),
+    modified_at: new Date(entry.mtime).toISOString(),
+    model: entry.model,
+    assistant_id: entry.assistant_id,
+    tags: entry.tags,
+    ...(entry.folder && { folder: entry.folder }),
+    pinned: entry.pinned
+  };
+}
+
+/**
+ * Returns a list of available sessions with their metadata, read from the metadata
+ * index. Only sessions changed since they were indexed are parsed.
+ */
+export function listSessions(): SessionListItem[] {
+  const sessionIds = listSessionIds();
+  const [index, unreadable] = syncSessionIndex(sessionIds);
+
+  return sessionIds.map(sid =>
+    unreadable.includes(sid) || !Object.hasOwn(index, sid)
+      ? { id: sid, error: 'BŁĄD ODCZYTU PLIKU' }
+      : indexEntryToListItem(sid, index[sid])
+  );
+}
+
+/**
+ * Rebuilds the metadata index from scratch by reading every session file.
+ *
+ * @returns [indexed_count, error_messages]
+ */
+export function rebuildSessionIndex(): [number, string[]] {
+  const index: SessionIndex = {};
+  const errors: string[] = [];
+
+  for (const sessionId of listSessionIds()) {
+    const logFilename = getSessionFilename(sessionId);
+    try {
+      const logData = readStoredSession(logFilename);
+      index[sessionId] = createSessionIndexEntry(logData, statSync(logFilename).mtimeMs);
+    } catch (error) {
+      errors.push(`${sessionId}: ${error}`);
+    }
+  }
+
+  try {
+    saveSessionIndex(index);
+  } catch (error) {
+    errors.push(`Błąd zapisu indeksu sesji: ${error}`);
+  }
+  return [Object.keys(index).length, errors];
 }
 
 /**
@@ -168,7 +460,7 @@ export function listSessions(): Array<{
  * @returns [success, error_message]
  */
 export function removeSessionFile(sessionId: string): [boolean, string | null] {
-  const logFilename = join(LOG_DIR, `${sessionId}-log.json`);
+  const logFilename = getSessionFilename(sessionId);
 
   if (!existsSync(logFilename)) {
     return [false, `Session file for ID '${sessionId}' not found.`];
@@ -176,6 +468,10 @@ export function removeSessionFile(sessionId: string): [boolean, string | null] {
 
   try {
     unlinkSync(logFilename);
+    // Tombstone keeps WAL recovery from recreating the removed session
+    appendRemovalToWAL(sessionId);
+    // A stale entry is dropped on the next listing anyway
+    removeFromSessionIndex(sessionId);
     return [true, null];
   } catch (error) {
     return [false, `Error removing session file '${logFilename}': ${error}`];
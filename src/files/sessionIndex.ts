@@ -0,0 +1,115 @@
+/**
+ * Session metadata index
+ * Keeps the metadata shown in session lists in SESSION_INDEX_FILE, so listing doesn't
+ * parse every session file. Entries are written whenever a session is saved or removed;
+ * files changed in any other way are detected by their modification time.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { z } from 'zod';
+import { writeFileAtomic } from './atomicWrite.js';
+import { SESSION_INDEX_FILE } from './config.js';
+import type { StoredSessionMetadata } from './sessionValidation.js';
+
+/** Bumped whenever the entry layout changes; older indexes are rebuilt */
+const SESSION_INDEX_VERSION = 1;
+
+const SessionIndexEntrySchema = z.object({
+  mtime: z.number().describe('Czas modyfikacji pliku sesji w chwili indeksowania (ms)'),
+  title: z.string().optional(),
+  tags: z.array(z.string()),
+  folder: z.string().optional(),
+  pinned: z.boolean(),
+  messages_count: z.number().int().nonnegative(),
+  created_at: z.string().optional().describe('Znacznik czasu pierwszej wiadomości'),
+  updated_at: z.string().optional().describe('Znacznik czasu ostatniej wiadomości'),
+  model: z.string(),
+  assistant_id: z.string()
+});
+
+const SessionIndexSchema = z.object({
+  version: z.literal(SESSION_INDEX_VERSION),
+  sessions: z.record(SessionIndexEntrySchema).describe('ID sesji -> metadane')
+});
+
+export type SessionIndexEntry = z.infer<typeof SessionIndexEntrySchema>;
+export type SessionIndex = Record<string, SessionIndexEntry>;
+
+/**
+ * Reads the index; a missing, invalid or outdated file yields an empty index.
+ */
+export function loadSessionIndex(): SessionIndex {
+  if (!existsSync(SESSION_INDEX_FILE)) {
+    return {};
+  }
+
+  try {
+    const parsed = SessionIndexSchema.safeParse(JSON.parse(readFileSync(SESSION_INDEX_FILE, 'utf-8')));
+    return parsed.success ? parsed.data.sessions : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Writes the index atomically.
+ */
+export function saveSessionIndex(index: SessionIndex): void {
+  writeFileAtomic(SESSION_INDEX_FILE, JSON.stringify({ version: SESSION_INDEX_VERSION, sessions: index }));
+}
+
+/**
+ * Builds the index entry of a stored session.
+ */
+export function createSessionIndexEntry(stored: StoredSessionMetadata, mtime: number): SessionIndexEntry {
+  return {
+    mtime,
+    ...(stored.title && { title: stored.title }),
+    tags: stored.tags || [],
+    ...(stored.folder && { folder: stored.folder }),
+    pinned: stored.pinned || false,
+    messages_count: stored.history.length,
+    ...(stored.history[0]?.timestamp && { created_at: stored.history[0].timestamp }),
+    ...(stored.history.at(-1)?.timestamp && { updated_at: stored.history.at(-1)!.timestamp }),
+    model: stored.model,
+    assistant_id: stored.assistant_id
+  };
+}
+
+/**
+ * Replaces a session's entry, right after its file was written.
+ *
+ * @returns [success, error_message]
+ */
+export function updateSessionIndex(
+  sessionId: string,
+  stored: StoredSessionMetadata,
+  mtime: number
+): [boolean, string | null] {
+  try {
+    const index = loadSessionIndex();
+    index[sessionId] = createSessionIndexEntry(stored, mtime);
+    saveSessionIndex(index);
+    return [true, null];
+  } catch (error) {
+    return [false, `Błąd aktualizacji indeksu sesji: ${error}`];
+  }
+}
+
+/**
+ * Drops a session's entry, right after its file was removed.
+ *
+ * @returns [success, error_message]
+ */
+export function removeFromSessionIndex(sessionId: string): [boolean, string | null] {
+  try {
+    const index = loadSessionIndex();
+    if (Object.hasOwn(index, sessionId)) {
+      delete index[sessionId];
+      saveSessionIndex(index);
+    }
+    return [true, null];
+  } catch (error) {
+    return [false, `Błąd aktualizacji indeksu sesji: ${error}`];
+  }
+}
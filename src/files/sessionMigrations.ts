@@ -0,0 +1,125 @@
+/**
+ * Session file migrations
+ * Upgrades session files written by older versions to SESSION_FORMAT_VERSION, one step at a time.
+ */
+
+import { createMessageId } from '../utils/messageTree.js';
+import { generateTitleFromKeywords } from '../utils/titleGenerator.js';
+import { SESSION_FORMAT_VERSION } from './sessionValidation.js';
+
+/** Session file contents before validation */
+type RawSession = Record<string, unknown>;
+
+/**
+ * Single upgrade step from one format version to the next
+ */
+interface SessionMigration {
+  from: number;
+  description: string;
+  migrate: (data: RawSession) => RawSession;
+}
+
+/** Timestamp used for messages whose original time is unknown */
+const UNKNOWN_TIMESTAMP = new Date(0).toISOString();
+
+/**
+ * Ordered list of migrations; each one upgrades `from` to `from + 1`.
+ */
+const MIGRATIONS: SessionMigration[] = [
+  {
+    from: 1,
+    description: 'Dodanie format_version, domyślnego assistant_id i tytułu',
+    migrate: data => {
+      const history: RawSession[] = Array.isArray(data.history)
+        ? (data.history as RawSession[]).map(entry => ({
+            ...entry,
+            timestamp: entry.timestamp || UNKNOWN_TIMESTAMP
+          }))
+        : [];
+
+      const firstUserText = history.find(entry => entry.role === 'user')?.text;
+      const title =
+        data.title || (typeof firstUserText === 'string' && firstUserText.trim()
+          ? generateTitleFromKeywords(firstUserText)
+          : undefined);
+
+      return {
+        ...data,
+        history,
+        assistant_id: data.assistant_id || 'azor',
+        ...(title && { title })
+      };
+    }
+  },
+  {
+    from: 2,
+    description: 'Zapis wszystkich części wiadomości (parts) zamiast samego tekstu',
+    migrate: data => ({
+      ...data,
+      history: Array.isArray(data.history)
+        ? (data.history as RawSession[]).map(entry => ({
+            ...entry,
+            parts: [{ text: typeof entry.text === 'string' ? entry.text : '' }]
+          }))
+        : []
+    })
+  },
+  {
+    from: 3,
+    // Attachment parts are new, so version 3 files are already valid; the bump
+    // only makes older versions refuse files that may contain attachments
+    description: 'Obsługa załączników (attachment) w częściach wiadomości',
+    migrate: data => data
+  },
+  {
+    from: 4,
+    description: 'Identyfikatory wiadomości i powiązania z poprzednią wiadomością (drzewo gałęzi)',
+    migrate: data => {
+      let parentId: string | null = null;
+      const history = Array.isArray(data.history)
+        ? (data.history as RawSession[]).map(entry => {
+            const id = createMessageId();
+            const linked = { ...entry, id, parent_id: parentId };
+            parentId = id;
+            return linked;
+          })
+        : [];
+      return { ...data, history };
+    }
+  }
+];
+
+/**
+ * Returns the format version of a raw session file (files without the field are version 1).
+ */
+function getFormatVersion(data: RawSession): number {
+  return typeof data.format_version === 'number' ? data.format_version : 1;
+}
+
+/**
+ * Applies all pending migrations to raw session data.
+ *
+ * @returns [migrated_data, was_migrated]
+ * @throws Error if the file was written by a newer, unsupported format version
+ */
+export function migrateSessionData(data: RawSession): [RawSession, boolean] {
+  let version = getFormatVersion(data);
+
+  if (version > SESSION_FORMAT_VERSION) {
+    throw new Error(
+      `Plik sesji ma wersję formatu ${version}, obsługiwana jest najwyżej ${SESSION_FORMAT_VERSION}.`
+    );
+  }
+
+  let current = data;
+  while (version < SESSION_FORMAT_VERSION) {
+    const migration = MIGRATIONS.find(m => m.from === version);
+    if (!migration) {
+      throw new Error(`Brak migracji pliku sesji z wersji ${version}.`);
+    }
+    current = { ...migration.migrate(current), format_version: version + 1 };
+    version++;
+  }
+
+  return [current, getFormatVersion(data) !== SESSION_FORMAT_VERSION];
+}
@@ -0,0 +1,93 @@
+import { z } from 'zod';
+
+/** Version written by saveSessionHistory; older files are upgraded on load */
+export const SESSION_FORMAT_VERSION = 5;
+
+export const MessagePartSchema = z.union([
+  z.object({ text: z.string() }),
+  z.object({
+    functionCall: z.object({
+      name: z.string(),
+      args: z.record(z.unknown())
+    })
+  }),
+  z.object({
+    functionResponse: z.object({
+      name: z.string(),
+      response: z.record(z.unknown())
+    })
+  }),
+  z.object({
+    attachment: z.object({
+      hash: z.string().regex(/^[0-9a-f]{64}$/, 'hash musi być skrótem SHA-256'),
+      filename: z.string(),
+      mimeType: z.string(),
+      size: z.number().int().nonnegative()
+    }).describe('Odwołanie do pliku w magazynie załączników')
+  })
+]);
+
+export const SerializedMessageSchema = z.object({
+  id: z.string().min(1).describe('Identyfikator wiadomości w drzewie rozmowy'),
+  parent_id: z.string().min(1).nullable().describe('Poprzednia wiadomość na gałęzi (null dla pierwszej)'),
+  role: z.enum(['user', 'model']),
+  text: z.string().describe('Połączony tekst wiadomości (dla czytelności i starszych narzędzi)'),
+  parts: z.array(MessagePartSchema).describe('Wszystkie części wiadomości'),
+  timestamp: z.string().describe('Znacznik czasu ISO 8601'),
+  usage: z.object({
+    promptTokens: z.number().int().nonnegative(),
+    completionTokens: z.number().int().nonnegative(),
+    totalTokens: z.number().int().nonnegative()
+  }).optional().describe('Tokeny zużyte na turę zakończoną tą wiadomością'),
+  speaker: z.object({
+    id: z.string().min(1),
+    name: z.string()
+  }).optional().describe('Asystent, który napisał odpowiedź w trybie round-table')
+});
+
+export const ContextStateSchema = z.object({
+  strategy: z.enum(['truncate', 'summarize']).describe('Strategia zarządzania kontekstem'),
+  summary: z.string().nullable().describe('Podsumowanie wiadomości sprzed punktu odcięcia'),
+  cutoff: z.number().int().nonnegative().describe('Indeks pierwszej wiadomości wysyłanej do modelu'),
+  pinned: z.array(z.number().int().nonnegative()).describe('Indeksy przypiętych wiadomości')
+});
+
+export const ModelChangeSchema = z.object({
+  engine: z.string().min(1).describe('Silnik wybrany komendą /model switch'),
+  model: z.string().optional().describe('Model (domyślny dla silnika, gdy brak)'),
+  timestamp: z.string().describe('Znacznik czasu ISO 8601'),
+  message_index: z.number().int().nonnegative().describe('Liczba wiadomości w chwili zmiany')
+});
+
+export const BranchSchema = z.object({
+  name: z.string().min(1).describe('Nazwa gałęzi'),
+  head_id: z.string().min(1).nullable().describe('Ostatnia wiadomość gałęzi (null dla pustej gałęzi)'),
+  created_at: z.string().describe('Znacznik czasu ISO 8601')
+});
+
+export const StoredSessionSchema = z.object({
+  format_version: z.literal(SESSION_FORMAT_VERSION),
+  session_id: z.string().min(1, 'session_id nie może być pusty'),
+  model: z.string(),
+  system_role: z.string(),
+  assistant_id: z.string().min(1).describe('Identyfikator asystenta'),
+  history: z.array(SerializedMessageSchema),
+  title: z.string().optional().describe('Czytelny tytuł sesji'),
+  context: ContextStateSchema.optional().describe('Stan okna kontekstu (podsumowanie, przypięcia)'),
+  model_changes: z.array(ModelChangeSchema).optional().describe('Zmiany modelu w trakcie sesji'),
+  roundtable: z.array(z.string().min(1)).optional().describe('Uczestnicy aktywnego trybu round-table'),
+  branch: z.string().min(1).optional().describe('Aktywna gałąź; history zawiera jej ścieżkę'),
+  branches: z.array(BranchSchema).optional().describe('Gałęzie drzewa wiadomości'),
+  branch_messages: z.array(SerializedMessageSchema).optional()
+    .describe('Wiadomości występujące tylko na nieaktywnych gałęziach'),
+  tags: z.array(z.string().min(1)).optional().describe('Tagi sesji'),
+  folder: z.string().min(1).optional().describe('Folder (projekt), w którym jest sesja'),
+  pinned: z.boolean().optional().describe('Czy sesja jest przypięta na początku list'),
+  wal_seq: z.number().int().nonnegative().optional()
+    .describe('Numer (seq) ostatniego wpisu WAL, którego skutki zawiera plik')
+});
+
+export type SerializedMessage = z.infer<typeof SerializedMessageSchema>;
+export type SerializedBranch = z.infer<typeof BranchSchema>;
+export type SerializedModelChange = z.infer<typeof ModelChangeSchema>;
+export type StoredSessionMetadata = z.infer<typeof StoredSessionSchema>;
@@ -0,0 +1,101 @@
+/**
+ * Usage ledger
+ * Keeps running token totals per session and per day, by model, in USAGE_LEDGER_FILE.
+ * WAL rotation drops the oldest entries, so budgets and /usage read these totals
+ * instead. They are updated with every WAL entry and rebuilt from the WAL when the
+ * file is missing.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { z } from 'zod';
+import { writeFileAtomic } from './atomicWrite.js';
+import { USAGE_LEDGER_FILE } from './config.js';
+import type { WALEntry, WALUsageEntry } from './wal.js';
+
+/** Bumped whenever the layout changes; older ledgers are rebuilt */
+const USAGE_LEDGER_VERSION = 1;
+
+const UsageTotalsSchema = z.object({
+  prompt_tokens: z.number().nonnegative(),
+  completion_tokens: z.number().nonnegative(),
+  metered: z.number().int().nonnegative().describe('Wpisy z liczbą tokenów (tury, tytuły i podsumowania)'),
+  turns: z.number().int().nonnegative().describe('Tury rozmowy'),
+  turns_without_usage: z.number().int().nonnegative().describe('Tury bez liczby tokenów od silnika')
+});
+
+const TotalsByModelSchema = z.record(UsageTotalsSchema).describe('Model -> sumy');
+
+const UsageLedgerSchema = z.object({
+  version: z.literal(USAGE_LEDGER_VERSION),
+  sessions: z.record(TotalsByModelSchema).describe('ID sesji -> sumy'),
+  days: z.record(TotalsByModelSchema).describe('Dzień (YYYY-MM-DD) -> sumy')
+});
+
+export type UsageTotals = z.infer<typeof UsageTotalsSchema>;
+export type TotalsByModel = Record<string, UsageTotals>;
+export type UsageLedger = Omit<z.infer<typeof UsageLedgerSchema>, 'version'>;
+
+/**
+ * Creates an empty ledger.
+ */
+export function createUsageLedger(): UsageLedger {
+  return { sessions: {}, days: {} };
+}
+
+/**
+ * Reads the ledger; a missing, invalid or outdated file yields null, so that the
+ * caller rebuilds it.
+ */
+export function loadUsageLedger(): UsageLedger | null {
+  if (!existsSync(USAGE_LEDGER_FILE)) {
+    return null;
+  }
+
+  try {
+    const parsed = UsageLedgerSchema.safeParse(JSON.parse(readFileSync(USAGE_LEDGER_FILE, 'utf-8')));
+    return parsed.success ? { sessions: parsed.data.sessions, days: parsed.data.days } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Writes the ledger atomically.
+ */
+export function saveUsageLedger(ledger: UsageLedger): void {
+  writeFileAtomic(USAGE_LEDGER_FILE, JSON.stringify({ version: USAGE_LEDGER_VERSION, ...ledger }));
+}
+
+function addToTotals(totalsByModel: TotalsByModel, entry: WALEntry | WALUsageEntry): void {
+  const totals = (totalsByModel[entry.model] ??= {
+    prompt_tokens: 0,
+    completion_tokens: 0,
+    metered: 0,
+    turns: 0,
+    turns_without_usage: 0
+  });
+
+  const isTurn = !('usage_of' in entry);
+  if (isTurn) {
+    totals.turns++;
+  }
+  if (entry.prompt_tokens === undefined && entry.completion_tokens === undefined) {
+    if (isTurn) {
+      totals.turns_without_usage++;
+    }
+    return;
+  }
+  totals.prompt_tokens += entry.prompt_tokens || 0;
+  totals.completion_tokens += entry.completion_tokens || 0;
+  totals.metered++;
+}
+
+/**
+ * Adds a WAL entry to the totals of its session and of the given day.
+ *
+ * @param day - Local day of the entry (YYYY-MM-DD)
+ */
+export function addToUsageLedger(ledger: UsageLedger, entry: WALEntry | WALUsageEntry, day: string): void {
+  addToTotals((ledger.sessions[entry.session_id] ??= {}), entry);
+  addToTotals((ledger.days[day] ??= {}), entry);
+}
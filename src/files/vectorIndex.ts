@@ -0,0 +1,207 @@
+/**
+ * Semantic index of past conversations
+ * Every exchange (prompt and answer) of every session is embedded and kept in
+ * VECTOR_INDEX_FILE. The index is updated before each query: only sessions whose file
+ * changed are read again, and only exchanges whose text changed are embedded again.
+ * Matching uses cosine similarity computed here, so a local embedding model is enough.
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { z } from 'zod';
+import type { EmbeddingProvider } from '../llm/embeddings.js';
+import { writeFileAtomic } from './atomicWrite.js';
+import { LOG_DIR, VECTOR_INDEX_FILE } from './config.js';
+import { loadStoredSession, type SerializedMessage } from './sessionFiles.js';
+
+/** Bumped whenever chunking or the file layout changes; older indexes are rebuilt */
+const VECTOR_INDEX_VERSION = 1;
+
+/** Longest text embedded for a single exchange */
+const MAX_CHUNK_LENGTH = 2000;
+
+const ChunkSchema = z.object({
+  message_index: z.number().int().nonnegative().describe('Indeks pytania rozpoczynającego wymianę'),
+  timestamp: z.string(),
+  text: z.string().describe('Osadzony tekst wymiany'),
+  vector: z.array(z.number())
+});
+
+const VectorIndexSchema = z.object({
+  version: z.literal(VECTOR_INDEX_VERSION),
+  provider: z.string().describe('Silnik i model embeddingów, którymi policzono wektory'),
+  sessions: z.record(z.object({
+    mtime: z.number().describe('Czas modyfikacji pliku sesji w chwili indeksowania (ms)'),
+    title: z.string().optional(),
+    chunks: z.array(ChunkSchema)
+  }))
+});
+
+type VectorIndex = z.infer<typeof VectorIndexSchema>;
+type Chunk = z.infer<typeof ChunkSchema>;
+
+/**
+ * Exchange of a past session relevant to a question
+ */
+export interface RecallHit {
+  sessionId: string;
+  title?: string;
+  messageIndex: number;
+  timestamp: string;
+  score: number; // Cosine similarity to the question (-1 to 1)
+  text: string;
+}
+
+/**
+ * Reads the index; a missing or invalid file, or one built with another embedding
+ * model, yields an empty index.
+ */
+function loadVectorIndex(providerId: string): VectorIndex {
+  const empty: VectorIndex = { version: VECTOR_INDEX_VERSION, provider: providerId, sessions: {} };
+  if (!existsSync(VECTOR_INDEX_FILE)) {
+    return empty;
+  }
+
+  try {
+    const parsed = VectorIndexSchema.safeParse(JSON.parse(readFileSync(VECTOR_INDEX_FILE, 'utf-8')));
+    return parsed.success && parsed.data.provider === providerId ? parsed.data : empty;
+  } catch {
+    return empty;
+  }
+}
+
+/**
+ * Splits a session into exchanges: each prompt with the answer that follows it.
+ * Tool results carry no text and are skipped.
+ */
+function buildChunks(history: SerializedMessage[]): Array<Omit<Chunk, 'vector'>> {
+  const chunks: Array<Omit<Chunk, 'vector'>> = [];
+
+  history.forEach((entry, index) => {
+    if (entry.role === 'user' && entry.text) {
+      chunks.push({ message_index: index, timestamp: entry.timestamp, text: `TY: ${entry.text}` });
+    } else if (entry.text && chunks.length > 0) {
+      const author = entry.role === 'model' ? entry.speaker?.name || 'ASYSTENT' : 'TY';
+      chunks[chunks.length - 1].text += `\n${author}: ${entry.text}`;
+    }
+  });
+
+  return chunks.map(chunk => ({ ...chunk, text: chunk.text.slice(0, MAX_CHUNK_LENGTH) }));
+}
+
+/**
+ * Brings the index up to date with the session files. Vectors of exchanges whose
+ * text didn't change are reused. Progress is kept even if embedding fails midway.
+ *
+ * @returns [index, error_message]
+ */
+async function updateVectorIndex(provider: EmbeddingProvider): Promise<[VectorIndex, string | null]> {
+  const index = loadVectorIndex(provider.id);
+  const sessionIds = readdirSync(LOG_DIR)
+    .filter(file => file.endsWith('-log.json'))
+    .map(file => file.replace('-log.json', ''));
+  let changed = false;
+  let error: string | null = null;
+
+  for (const sessionId of Object.keys(index.sessions)) {
+    if (!sessionIds.includes(sessionId)) {
+      delete index.sessions[sessionId];
+      changed = true;
+    }
+  }
+
+  for (const sessionId of sessionIds) {
+    const path = join(LOG_DIR, `${sessionId}-log.json`);
+    if (index.sessions[sessionId]?.mtime === statSync(path).mtimeMs) {
+      continue;
+    }
+
+    const [stored] = loadStoredSession(sessionId);
+    if (!stored) {
+      continue;
+    }
+
+    const known = new Map(
+      (index.sessions[sessionId]?.chunks || []).map(chunk => [chunk.text, chunk.vector])
+    );
+    const chunks = buildChunks(stored.history);
+    const missing = chunks.filter(chunk => !known.has(chunk.text));
+
+    try {
+      const vectors = await provider.embed(missing.map(chunk => chunk.text));
+      missing.forEach((chunk, i) => known.set(chunk.text, vectors[i]));
+    } catch (embedError) {
+      error = `Nie udało się policzyć embeddingów (${provider.id}): ${embedError}`;
+      break;
+    }
+
+    index.sessions[sessionId] = {
+      // Loading may migrate and rewrite the file, so its time is read again
+      mtime: statSync(path).mtimeMs,
+      ...(stored.title && { title: stored.title }),
+      chunks: chunks.map(chunk => ({ ...chunk, vector: known.get(chunk.text)! }))
+    };
+    changed = true;
+  }
+
+  if (changed) {
+    writeFileAtomic(VECTOR_INDEX_FILE, JSON.stringify(index));
+  }
+  return [index, error];
+}
+
+/**
+ * Returns the cosine similarity of two vectors (0 for vectors of different lengths).
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Finds the exchanges of past sessions most similar to a question.
+ * If some sessions couldn't be indexed, the error is returned along with the hits
+ * found in the rest.
+ *
+ * @returns [hits, error_message]
+ */
+export async function recallExchanges(
+  provider: EmbeddingProvider,
+  question: string,
+  limit: number
+): Promise<[RecallHit[], string | null]> {
+  let index: VectorIndex;
+  let indexError: string | null;
+  let questionVector: number[];
+  try {
+    [index, indexError] = await updateVectorIndex(provider);
+    [questionVector] = await provider.embed([question]);
+  } catch (error) {
+    return [[], `Błąd wyszukiwania semantycznego: ${error}`];
+  }
+
+  const hits: RecallHit[] = Object.entries(index.sessions).flatMap(([sessionId, session]) =>
+    session.chunks.map(chunk => ({
+      sessionId,
+      ...(session.title && { title: session.title }),
+      messageIndex: chunk.message_index,
+      timestamp: chunk.timestamp,
+      score: cosineSimilarity(questionVector, chunk.vector),
+      text: chunk.text
+    }))
+  );
+
+  hits.sort((a, b) => b.score - a.score);
+  return [hits.slice(0, limit), indexError];
+}
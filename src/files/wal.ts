@@ -1,17 +1,209 @@
-import { readFileSync, writeFileSync, existsSync, statSync } from 'fs';
-import { WAL_FILE } from './config.js';
+import {
+  closeSync,
+  existsSync,
+  fstatSync,
+  fsyncSync,
+  openSync,
+  readFileSync,
+  readSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeSync
+} from 'fs';
+import {
+  LEGACY_WAL_FILE,
+  WAL_FILE,
+  WAL_MAX_BYTES,
+  WAL_MAX_ROTATED_FILES
+} from './config.js';
+import {
+  addToUsageLedger,
+  createUsageLedger,
+  loadUsageLedger,
+  saveUsageLedger,
+  type UsageLedger
+} from './usageLedger.js';
+import type { AttachmentPart, MessageSpeaker, TokenUsage } from '../types.js';
 
-interface WALEntry {
+/**
+ * Single WAL record, stored as one JSON object per line.
+ */
+export interface WALEntry {
   timestamp: string;
   session_id: string;
   model: string;
   prompt: string;
   response: string;
-  tokens_used: number;
+  tokens_used: number; // Size of the context after the turn
+  prompt_tokens?: number; // Usage reported by the engine for the turn
+  completion_tokens?: number;
+  assistant_id?: string;
+  attachments?: AttachmentPart[]; // References to files sent with the prompt
+  speaker_name?: string; // Round-table reply by assistant_id
+  continues_round?: boolean; // Round-table reply to the prompt of the previous entry
+  seq?: number; // Per-session sequence number; the session file stores the last one it holds (wal_seq)
+}
+
+/**
+ * Tombstone written when a session file is removed, so recovery doesn't resurrect it.
+ */
+export interface WALRemovalEntry {
+  timestamp: string;
+  session_id: string;
+  removed: true;
+}
+
+/**
+ * Token usage of a request made outside the conversation (a session title or a
+ * context summary). It counts towards budgets and /usage, but recovery skips it.
+ */
+export interface WALUsageEntry {
+  timestamp: string;
+  session_id: string;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  usage_of: 'title' | 'summary';
+}
+
+export type WALRecord = WALEntry | WALRemovalEntry | WALUsageEntry;
+
+/**
+ * Type guard for removal tombstones.
+ */
+export function isRemovalEntry(record: WALRecord): record is WALRemovalEntry {
+  return 'removed' in record && record.removed === true;
+}
+
+/**
+ * Type guard for usage-only entries.
+ */
+export function isUsageEntry(record: WALRecord): record is WALUsageEntry {
+  return 'usage_of' in record;
+}
+
+/**
+ * Returns the local calendar day (YYYY-MM-DD) of a timestamp, used to group WAL entries by day.
+ */
+export function getLocalDay(timestamp: string | Date): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Returns the path of the n-th rotated WAL file (1 is the most recent).
+ */
+function rotatedWALFile(index: number): string {
+  return WAL_FILE.replace(/\.jsonl$/, `.${index}.jsonl`);
+}
+
+/**
+ * Rotates the active WAL file once it grows past WAL_MAX_BYTES.
+ * Older rotated files are shifted up and the oldest one is dropped.
+ */
+function rotateWALIfNeeded(): void {
+  if (!existsSync(WAL_FILE) || statSync(WAL_FILE).size < WAL_MAX_BYTES) {
+    return;
+  }
+
+  const oldest = rotatedWALFile(WAL_MAX_ROTATED_FILES);
+  if (existsSync(oldest)) {
+    unlinkSync(oldest);
+  }
+
+  for (let i = WAL_MAX_ROTATED_FILES - 1; i >= 1; i--) {
+    const source = rotatedWALFile(i);
+    if (existsSync(source)) {
+      renameSync(source, rotatedWALFile(i + 1));
+    }
+  }
+
+  renameSync(WAL_FILE, rotatedWALFile(1));
+}
+
+/**
+ * Appends lines to the active WAL file and fsyncs them to disk.
+ * A torn last line (no trailing newline after a crash) is terminated first,
+ * so the new entries don't get glued onto it.
+ */
+function appendLines(lines: string[]): void {
+  const fd = openSync(WAL_FILE, 'a+');
+  try {
+    const size = fstatSync(fd).size;
+    let prefix = '';
+    if (size > 0) {
+      const lastByte = Buffer.alloc(1);
+      readSync(fd, lastByte, 0, 1, size - 1);
+      if (lastByte[0] !== 0x0a) {
+        prefix = '\n';
+      }
+    }
+    writeSync(fd, prefix + lines.map(line => `${line}\n`).join(''));
+    fsyncSync(fd);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Sums the usage of the WAL entries that are still on disk.
+ */
+function buildUsageLedger(): UsageLedger {
+  const ledger = createUsageLedger();
+  const [records] = readWALRecords();
+  for (const record of records) {
+    if (!isRemovalEntry(record)) {
+      addToUsageLedger(ledger, record, getLocalDay(record.timestamp));
+    }
+  }
+  return ledger;
+}
+
+/**
+ * Returns the running usage totals, rebuilding them from the WAL if the ledger is missing.
+ */
+export function readUsageLedger(): UsageLedger {
+  const ledger = loadUsageLedger();
+  if (ledger) {
+    return ledger;
+  }
+
+  const rebuilt = buildUsageLedger();
+  try {
+    saveUsageLedger(rebuilt);
+  } catch {
+    // Rebuilt again on the next read
+  }
+  return rebuilt;
+}
+
+/**
+ * Adds entries that were just appended to the WAL to the usage ledger.
+ * A missing ledger is rebuilt from the WAL, which already holds them.
+ *
+ * @returns [success, error_message]
+ */
+function recordInUsageLedger(entries: Array<WALEntry | WALUsageEntry>): [boolean, string | null] {
+  try {
+    const ledger = loadUsageLedger();
+    if (ledger) {
+      entries.forEach(entry => addToUsageLedger(ledger, entry, getLocalDay(entry.timestamp)));
+    }
+    saveUsageLedger(ledger ?? buildUsageLedger());
+    return [true, null];
+  } catch (error) {
+    return [false, `Error updating usage ledger: ${error}`];
+  }
 }
 
 /**
  * Appends a transaction to the WAL (Write-Ahead Log) file.
+ * Each entry is written as a single JSON line and flushed with fsync.
+ * Round-table replies name their speaker; all but the first reply of a round continue it.
+ * `seq` numbers the session's entries, so recovery can tell which ones the session file holds.
  *
  * @returns [success, error_message]
  */
@@ -20,7 +212,12 @@ export function appendToWAL(
   prompt: string,
   responseText: string,
   totalTokens: number,
-  modelName: string
+  modelName: string,
+  assistantId?: string | null,
+  attachments: AttachmentPart[] = [],
+  usage?: TokenUsage,
+  roundtable?: { speaker: MessageSpeaker; continuesRound: boolean },
+  seq?: number
 ): [boolean, string | null] {
   const walEntry: WALEntry = {
     timestamp: new Date().toISOString(),
@@ -28,33 +225,138 @@ export function appendToWAL(
     model: modelName,
     prompt,
     response: responseText,
-    tokens_used: totalTokens
+    tokens_used: totalTokens,
+    ...(usage && { prompt_tokens: usage.promptTokens, completion_tokens: usage.completionTokens }),
+    ...(assistantId && { assistant_id: assistantId }),
+    ...(attachments.length > 0 && { attachments }),
+    ...(roundtable && { speaker_name: roundtable.speaker.name }),
+    ...(roundtable?.continuesRound && { continues_round: true }),
+    ...(seq !== undefined && { seq })
   };
 
   try {
-    let data: WALEntry[] = [];
+    rotateWALIfNeeded();
+    appendLines([JSON.stringify(walEntry)]);
+  } catch (error) {
+    return [false, `Error writing to WAL file (${WAL_FILE}): ${error}`];
+  }
+  return recordInUsageLedger([walEntry]);
+}
 
-    if (existsSync(WAL_FILE) && statSync(WAL_FILE).size > 0) {
-      try {
-        const fileContent = readFileSync(WAL_FILE, 'utf-8');
-        data = JSON.parse(fileContent);
-      } catch (error) {
-        if (error instanceof SyntaxError) {
-          // Actually reset the corrupted file
-          data = [];
-          writeFileSync(WAL_FILE, JSON.stringify(data, null, 4), 'utf-8');
-          // Continue with empty data instead of failing
-        } else {
-          throw error;
-        }
-      }
-    }
+/**
+ * Records the token usage of a title or summary request in the WAL.
+ *
+ * @returns [success, error_message]
+ */
+export function appendUsageToWAL(
+  sessionId: string,
+  modelName: string,
+  usage: TokenUsage,
+  usageOf: WALUsageEntry['usage_of']
+): [boolean, string | null] {
+  const usageEntry: WALUsageEntry = {
+    timestamp: new Date().toISOString(),
+    session_id: sessionId,
+    model: modelName,
+    prompt_tokens: usage.promptTokens,
+    completion_tokens: usage.completionTokens,
+    usage_of: usageOf
+  };
 
-    data.push(walEntry);
+  try {
+    rotateWALIfNeeded();
+    appendLines([JSON.stringify(usageEntry)]);
+  } catch (error) {
+    return [false, `Error writing to WAL file (${WAL_FILE}): ${error}`];
+  }
+  return recordInUsageLedger([usageEntry]);
+}
+
+/**
+ * Records the removal of a session file in the WAL.
+ *
+ * @returns [success, error_message]
+ */
+export function appendRemovalToWAL(sessionId: string): [boolean, string | null] {
+  const removalEntry: WALRemovalEntry = {
+    timestamp: new Date().toISOString(),
+    session_id: sessionId,
+    removed: true
+  };
 
-    writeFileSync(WAL_FILE, JSON.stringify(data, null, 4), 'utf-8');
+  try {
+    rotateWALIfNeeded();
+    appendLines([JSON.stringify(removalEntry)]);
     return [true, null];
   } catch (error) {
     return [false, `Error writing to WAL file (${WAL_FILE}): ${error}`];
   }
 }
+
+/**
+ * Converts the legacy single-array `azor-wal.json` into JSONL entries.
+ * The legacy file is renamed (never deleted), with a `.corrupt` suffix if it cannot be parsed.
+ *
+ * @returns [migrated_entries, error_message]
+ */
+export function migrateLegacyWAL(): [number, string | null] {
+  if (!existsSync(LEGACY_WAL_FILE)) {
+    return [0, null];
+  }
+
+  try {
+    const fileContent = readFileSync(LEGACY_WAL_FILE, 'utf-8');
+    const entries = fileContent.trim() ? (JSON.parse(fileContent) as WALEntry[]) : [];
+
+    if (entries.length > 0) {
+      appendLines(entries.map(entry => JSON.stringify(entry)));
+      recordInUsageLedger(entries);
+    }
+
+    renameSync(LEGACY_WAL_FILE, `${LEGACY_WAL_FILE}.migrated`);
+    return [entries.length, null];
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      renameSync(LEGACY_WAL_FILE, `${LEGACY_WAL_FILE}.corrupt`);
+      return [0, `Cannot decode legacy WAL file '${LEGACY_WAL_FILE}', kept as .corrupt`];
+    }
+    return [0, `Error migrating legacy WAL file: ${error}`];
+  }
+}
+
+/**
+ * Reads all WAL records from the rotated files and the active file, oldest first.
+ * Lines that cannot be parsed (e.g. a torn write after a crash) are skipped and counted.
+ *
+ * @returns [records, skipped_line_count]
+ */
+export function readWALRecords(): [WALRecord[], number] {
+  const files: string[] = [];
+  for (let i = WAL_MAX_ROTATED_FILES; i >= 1; i--) {
+    files.push(rotatedWALFile(i));
+  }
+  files.push(WAL_FILE);
+
+  const records: WALRecord[] = [];
+  let skipped = 0;
+
+  for (const file of files) {
+    if (!existsSync(file)) {
+      continue;
+    }
+
+    const lines = readFileSync(file, 'utf-8').split('\n');
+    for (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        records.push(JSON.parse(line) as WALRecord);
+      } catch {
+        skipped++;
+      }
+    }
+  }
+
+  return [records, skipped];
+}
@@ -0,0 +1,157 @@
+/**
+ * WAL recovery tests
+ * Sessions run on a scripted engine with HOME in a temporary directory; "restarting"
+ * runs recovery and loads the session file again, as startup does.
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { before, describe, it } from 'node:test';
+import type { ChatHistory, LLMClient } from '../types.js';
+
+// Paths under ~/.azor are fixed when the config module loads, so HOME is set first
+process.env.HOME = mkdtempSync(join(tmpdir(), 'azor-wal-test-'));
+process.env.ENGINE = 'WAL_TEST';
+
+const { registerEngine } = await import('../llm/engineRegistry.js');
+const { createAssistant } = await import('../assistant/assistants.js');
+const { ChatSession } = await import('../session/chatSession.js');
+const { loadSessionHistory } = await import('./sessionFiles.js');
+const { recoverSessionsFromWAL } = await import('./walRecovery.js');
+const { appendUsageToWAL } = await import('./wal.js');
+
+/**
+ * Client answering every prompt with "echo: <prompt>"; the prompt "fail" gets the
+ * error fallback the local engines return.
+ */
+function createEchoClient(): LLMClient {
+  return {
+    createChatSession(_systemInstruction: string, history: ChatHistory = []) {
+      const messages = [...history];
+      return {
+        async sendMessage(text: string) {
+          const failed = text === 'fail';
+          const reply = failed ? 'error' : `echo: ${text}`;
+          messages.push({ role: 'user', parts: [{ text }] }, { role: 'model', parts: [{ text: reply }] });
+          return { text: reply, ...(failed && { failed }) };
+        },
+        async getHistory() {
+          return messages;
+        }
+      };
+    },
+    async countHistoryTokens(history: ChatHistory) {
+      // Like real engines, counting takes a moment, so the WAL entry is logged after the history was stamped
+      await new Promise(resolve => setTimeout(resolve, 5));
+      return history.length;
+    },
+    getModelName: () => 'echo',
+    getMaxContextTokens: () => 100000,
+    isAvailable: () => true,
+    readyForUseMessage: () => 'echo ready'
+  };
+}
+
+/**
+ * Starts a session and sends the given prompts.
+ */
+async function startSession(prompts: string[]): Promise<InstanceType<typeof ChatSession>> {
+  const session = new ChatSession(createAssistant('azor'));
+  await session.initialize();
+  for (const prompt of prompts) {
+    await session.sendMessage(prompt);
+  }
+  return session;
+}
+
+/**
+ * Simulates a restart: recovers from the WAL and returns the texts of the stored history.
+ */
+function restart(sessionId: string): string[] {
+  const recovery = recoverSessionsFromWAL();
+  assert.deepEqual(recovery.errors, []);
+  const [history, error] = loadSessionHistory(sessionId);
+  assert.equal(error, null);
+  return history.map(message => message.parts.map(part => ('text' in part ? part.text : '')).join(''));
+}
+
+describe('recoverSessionsFromWAL', () => {
+  before(() => {
+    registerEngine({
+      name: 'WAL_TEST',
+      preparingForUseMessage: () => 'echo preparing',
+      createClient: async () => createEchoClient()
+    });
+  });
+
+  it('keeps a saved session unchanged across restarts', async () => {
+    const session = await startSession(['one']);
+    await session.saveToFile();
+
+    const expected = ['one', 'echo: one'];
+    assert.deepEqual(restart(session.getSessionId()), expected);
+    assert.deepEqual(restart(session.getSessionId()), expected);
+  });
+
+  it('does not bring back exchanges removed with pop', async () => {
+    const session = await startSession(['one', 'two', 'three']);
+    await session.saveToFile();
+    assert.ok(await session.popLastExchange());
+    assert.ok(await session.popLastExchange());
+
+    assert.deepEqual(restart(session.getSessionId()), ['one', 'echo: one']);
+  });
+
+  it('does not bring back a cleared history', async () => {
+    const session = await startSession(['one', 'two']);
+    await session.saveToFile();
+    await session.clearHistory();
+
+    assert.deepEqual(restart(session.getSessionId()), []);
+  });
+
+  it('replays exchanges logged after the last save', async () => {
+    const session = await startSession(['one']);
+    await session.saveToFile();
+    await session.sendMessage('two'); // Crash before the next save
+
+    const expected = ['one', 'echo: one', 'two', 'echo: two'];
+    assert.deepEqual(restart(session.getSessionId()), expected);
+    assert.deepEqual(restart(session.getSessionId()), expected);
+  });
+
+  it('recreates a session that was never saved', async () => {
+    const session = await startSession(['one']);
+
+    assert.deepEqual(restart(session.getSessionId()), ['one', 'echo: one']);
+  });
+
+  it('does not bring back an edit the engine failed to answer', async () => {
+    const session = await startSession(['one']);
+    await session.saveToFile();
+    await assert.rejects(session.editMessage(0, 'fail'));
+
+    assert.deepEqual(restart(session.getSessionId()), ['one', 'echo: one']);
+  });
+
+  it('does not turn usage of title and summary requests into messages', async () => {
+    const session = await startSession(['one']);
+    await session.saveToFile();
+    appendUsageToWAL(session.getSessionId(), 'echo', { promptTokens: 10, completionTokens: 5, totalTokens: 15 }, 'title');
+
+    assert.deepEqual(restart(session.getSessionId()), ['one', 'echo: one']);
+  });
+
+  it('continues numbering after a reload', async () => {
+    const session = await startSession(['one']);
+    await session.saveToFile();
+    const [reloaded, error] = await ChatSession.loadFromFile(createAssistant('azor'), session.getSessionId());
+    assert.equal(error, null);
+    await reloaded!.sendMessage('two');
+    await reloaded!.saveToFile();
+
+    assert.deepEqual(restart(session.getSessionId()), ['one', 'echo: one', 'two', 'echo: two']);
+  });
+});
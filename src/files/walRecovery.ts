@@ -0,0 +1,168 @@
+import { getAssistantById } from '../assistant/assistants.js';
+import type { ChatHistory, Message } from '../types.js';
+import {
+  loadStoredSession,
+  saveSessionHistory,
+  storedBranchesToSessionBranches,
+  storedHistoryToChatHistory,
+  storedModelChangesToModelChanges,
+  storedOrganizationToSessionOrganization
+} from './sessionFiles.js';
+import type { StoredSessionMetadata } from './sessionValidation.js';
+import {
+  isRemovalEntry,
+  isUsageEntry,
+  migrateLegacyWAL,
+  readWALRecords,
+  type WALEntry
+} from './wal.js';
+
+/**
+ * Outcome of a WAL recovery pass.
+ */
+export interface WALRecoveryResult {
+  recoveredSessions: string[];
+  replayedEntries: number;
+  skippedLines: number;
+  errors: string[];
+}
+
+/**
+ * Converts a WAL entry into the messages it represents.
+ * Clarification rounds have an empty response, so only the prompt is replayed.
+ */
+function entryToMessages(entry: WALEntry): Message[] {
+  // Later round-table replies answer the prompt already replayed with the first reply
+  const messages: Message[] = entry.continues_round
+    ? []
+    : [
+        {
+          role: 'user',
+          parts: [{ text: entry.prompt }, ...(entry.attachments || [])],
+          timestamp: entry.timestamp
+        }
+      ];
+  if (entry.response) {
+    messages.push({
+      role: 'model',
+      parts: [{ text: entry.response }],
+      timestamp: entry.timestamp,
+      ...(entry.speaker_name && {
+        speaker: { id: entry.assistant_id || 'azor', name: entry.speaker_name }
+      })
+    });
+  }
+  return messages;
+}
+
+/**
+ * Returns the system prompt for a session recreated purely from the WAL.
+ */
+function systemPromptFor(assistantId: string): string {
+  try {
+    return getAssistantById(assistantId).systemPrompt;
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Checks whether a WAL entry is missing from the stored session.
+ * Entries are numbered per session (`seq`) and the file records the last one it holds
+ * (`wal_seq`), so exchanges removed later (/session pop, clear) aren't replayed.
+ * Entries logged before the numbering only recreate sessions that were never saved.
+ */
+function isMissingEntry(entry: WALEntry, stored: StoredSessionMetadata | null): boolean {
+  if (entry.seq === undefined) {
+    return !stored;
+  }
+  return entry.seq > (stored?.wal_seq || 0);
+}
+
+/**
+ * Replays WAL entries that each session's `-log.json` file doesn't hold yet.
+ * Covers a crash between sendMessage (WAL write) and saveToFile: the missing
+ * exchanges are appended to the stored history, and sessions that were never
+ * saved are recreated. Sessions removed after their entries were logged are skipped.
+ */
+export function recoverSessionsFromWAL(): WALRecoveryResult {
+  const result: WALRecoveryResult = {
+    recoveredSessions: [],
+    replayedEntries: 0,
+    skippedLines: 0,
+    errors: []
+  };
+
+  const [, migrateError] = migrateLegacyWAL();
+  if (migrateError) {
+    result.errors.push(migrateError);
+  }
+
+  const [records, skippedLines] = readWALRecords();
+  result.skippedLines = skippedLines;
+
+  // Group entries per session, dropping everything logged before a removal
+  const pending = new Map<string, WALEntry[]>();
+  for (const record of records) {
+    if (isRemovalEntry(record)) {
+      pending.delete(record.session_id);
+      continue;
+    }
+    if (isUsageEntry(record)) {
+      continue;
+    }
+    const entries = pending.get(record.session_id) || [];
+    entries.push(record);
+    pending.set(record.session_id, entries);
+  }
+
+  for (const [sessionId, entries] of pending) {
+    const [stored, loadError] = loadStoredSession(sessionId);
+    if (loadError) {
+      result.errors.push(loadError);
+      continue;
+    }
+
+    const storedHistory: ChatHistory = storedHistoryToChatHistory(stored?.history || []);
+    const branches = stored ? storedBranchesToSessionBranches(stored) : null;
+    const organization = stored ? storedOrganizationToSessionOrganization(stored) : null;
+
+    const missing = entries.filter(entry => isMissingEntry(entry, stored));
+    if (missing.length === 0) {
+      continue;
+    }
+
+    const lastEntry = missing[missing.length - 1];
+    const assistantId = stored?.assistant_id || lastEntry.assistant_id || 'azor';
+    const history = [...storedHistory, ...missing.flatMap(entryToMessages)];
+    if (history.length < 2) {
+      // A lone clarification prompt is not a complete exchange worth saving
+      continue;
+    }
+
+    const [success, saveError] = saveSessionHistory(
+      sessionId,
+      history,
+      stored?.system_role ?? systemPromptFor(assistantId),
+      stored?.model || lastEntry.model,
+      stored?.title,
+      assistantId,
+      stored?.context,
+      storedModelChangesToModelChanges(stored?.model_changes),
+      stored?.roundtable,
+      branches,
+      organization,
+      Math.max(stored?.wal_seq || 0, ...missing.map(entry => entry.seq || 0))
+    );
+
+    if (!success) {
+      result.errors.push(saveError || `Failed to recover session ${sessionId}`);
+      continue;
+    }
+
+    result.recoveredSessions.push(sessionId);
+    result.replayedEntries += missing.length;
+  }
+
+  return result;
+}
@@ -0,0 +1,122 @@
+/**
+ * Text embeddings
+ * Turns text into vectors for semantic search over past sessions, using the Gemini API
+ * or a local Ollama model (`/api/embeddings`), so recall also works offline.
+ *
+ * EMBEDDING_ENGINE selects GEMINI or OLLAMA (default: OLLAMA when ENGINE=OLLAMA, GEMINI
+ * otherwise) and EMBEDDING_MODEL the model. Nothing is printed here, as the MCP server
+ * uses it too and its stdout carries the protocol.
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { config } from 'dotenv';
+
+/** Engines that can produce embeddings, with their default models */
+const DEFAULT_EMBEDDING_MODELS: Record<string, string> = {
+	GEMINI: 'text-embedding-004',
+	OLLAMA: 'nomic-embed-text',
+};
+
+/** Gemini accepts at most this many texts per batch request */
+const GEMINI_BATCH_SIZE = 100;
+
+/**
+ * Source of text embeddings
+ */
+export interface EmbeddingProvider {
+	id: string; // `<ENGINE>:<model>`; vectors of different providers can't be compared
+	embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Creates the Gemini embedding provider.
+ */
+function createGeminiProvider(model: string): [EmbeddingProvider | null, string | null] {
+	const apiKey = process.env.GEMINI_API_KEY;
+	if (!apiKey) {
+		return [null, 'Brak GEMINI_API_KEY: ustaw klucz lub EMBEDDING_ENGINE=OLLAMA'];
+	}
+
+	const embeddingModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model });
+	return [
+		{
+			id: `GEMINI:${model}`,
+			async embed(texts: string[]): Promise<number[][]> {
+				const vectors: number[][] = [];
+				for (let start = 0; start < texts.length; start += GEMINI_BATCH_SIZE) {
+					const response = await embeddingModel.batchEmbedContents({
+						requests: texts.slice(start, start + GEMINI_BATCH_SIZE).map((text) => ({
+							content: { role: 'user', parts: [{ text }] },
+						})),
+					});
+					vectors.push(...response.embeddings.map((embedding) => embedding.values));
+				}
+				return vectors;
+			},
+		},
+		null,
+	];
+}
+
+/**
+ * Creates the Ollama embedding provider; texts are embedded one request at a time.
+ */
+function createOllamaProvider(model: string): [EmbeddingProvider, null] {
+	const baseUrl = (process.env.OLLAMA_BASE_URL || 'http://localhost:11434').replace(
+		/\/$/,
+		'',
+	);
+	const timeout = parseInt(process.env.OLLAMA_TIMEOUT || '30000', 10);
+
+	return [
+		{
+			id: `OLLAMA:${model}`,
+			async embed(texts: string[]): Promise<number[][]> {
+				const vectors: number[][] = [];
+				for (const text of texts) {
+					const response = await fetch(`${baseUrl}/api/embeddings`, {
+						method: 'POST',
+						headers: { 'Content-Type': 'application/json' },
+						body: JSON.stringify({ model, prompt: text }),
+						signal: AbortSignal.timeout(timeout),
+					});
+					if (!response.ok) {
+						throw new Error(
+							`Serwer Ollama zwrócił błąd ${response.status}: ${await response.text()}`,
+						);
+					}
+					const data = (await response.json()) as { embedding?: number[] };
+					if (!data.embedding || data.embedding.length === 0) {
+						throw new Error(`Model ${model} nie zwrócił wektora (czy to model embeddingów?)`);
+					}
+					vectors.push(data.embedding);
+				}
+				return vectors;
+			},
+		},
+		null,
+	];
+}
+
+/**
+ * Creates the embedding provider configured in the environment.
+ *
+ * @returns [provider, error_message]
+ */
+export function createEmbeddingProvider(): [EmbeddingProvider | null, string | null] {
+	config();
+	const engine = (
+		process.env.EMBEDDING_ENGINE ||
+		(process.env.ENGINE?.toUpperCase() === 'OLLAMA' ? 'OLLAMA' : 'GEMINI')
+	).toUpperCase();
+
+	if (!(engine in DEFAULT_EMBEDDING_MODELS)) {
+		return [
+			null,
+			`EMBEDDING_ENGINE musi być jedną z wartości: ${Object.keys(DEFAULT_EMBEDDING_MODELS).join(', ')}, otrzymano: ${engine}`,
+		];
+	}
+
+	const model = process.env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODELS[engine];
+	return engine === 'OLLAMA' ? createOllamaProvider(model) : createGeminiProvider(model);
+}
@@ -0,0 +1,112 @@
+/**
+ * Engine Registry
+ * Maps ENGINE names to factories that build ready-to-use LLM clients.
+ * Built-in engines are registered here; other backends (including ones shipped
+ * in separate packages) can add themselves with registerEngine().
+ */
+
+import type { LLMClient, LLMClientOptions } from '../types.js';
+import { GeminiLLMClient } from './geminiClient.js';
+import { LlamaClient } from './llamaClient.js';
+import { OllamaClient } from './ollamaClient.js';
+import { OpenAICompatClient } from './openaiClient.js';
+
+/**
+ * Engine definition interface
+ */
+export interface EngineDefinition {
+	/** Value of the ENGINE environment variable selecting this engine */
+	name: string;
+	/** Message printed while the client is being prepared */
+	preparingForUseMessage(): string;
+	/**
+	 * Builds the client from environment configuration and performs any async setup.
+	 * Options set by the assistant take precedence over the environment.
+	 */
+	createClient(options?: LLMClientOptions): Promise<LLMClient>;
+	/** Lists models available to the engine, for /model list: [model_names, error_message] */
+	listModels?(): Promise<[string[], string | null]>;
+}
+
+const engines = new Map<string, EngineDefinition>();
+
+/**
+ * Register an engine under its (case-insensitive) name
+ * @param definition - Engine definition
+ * @throws Error if an engine with the same name is already registered
+ */
+export function registerEngine(definition: EngineDefinition): void {
+	const name = definition.name.toUpperCase();
+
+	if (engines.has(name)) {
+		throw new Error(`Silnik ${name} jest już zarejestrowany`);
+	}
+
+	engines.set(name, { ...definition, name });
+}
+
+/**
+ * Get engine definition by name
+ * @param name - Engine name (e.g. 'GEMINI')
+ * @returns Engine definition
+ * @throws Error if engine not registered
+ */
+export function getEngine(name: string): EngineDefinition {
+	const engine = engines.get(name.toUpperCase());
+
+	if (!engine) {
+		throw new Error(
+			`ENGINE musi być jedną z wartości: ${listEngineNames().join(', ')}, otrzymano: ${name}`,
+		);
+	}
+
+	return engine;
+}
+
+/**
+ * Get list of all registered engine names
+ * @returns Array of engine names
+ */
+export function listEngineNames(): string[] {
+	return [...engines.keys()];
+}
+
+registerEngine({
+	name: 'LLAMA_CPP',
+	preparingForUseMessage: () => LlamaClient.preparingForUseMessage(),
+	listModels: () => LlamaClient.listModels(),
+	createClient: async (options) => {
+		const client = LlamaClient.fromEnvironment(options);
+		await client.initializeModel();
+		return client;
+	},
+});
+
+registerEngine({
+	name: 'GEMINI',
+	preparingForUseMessage: () => GeminiLLMClient.preparingForUseMessage(),
+	createClient: async (options) => GeminiLLMClient.fromEnvironment(options),
+	listModels: () => GeminiLLMClient.listModels(),
+});
+
+registerEngine({
+	name: 'OLLAMA',
+	preparingForUseMessage: () => OllamaClient.preparingForUseMessage(),
+	listModels: () => OllamaClient.listModels(),
+	createClient: async (options) => {
+		const client = OllamaClient.fromEnvironment(options);
+		await client.initializeModel();
+		return client;
+	},
+});
+
+registerEngine({
+	name: 'OPENAI_COMPAT',
+	preparingForUseMessage: () => OpenAICompatClient.preparingForUseMessage(),
+	listModels: () => OpenAICompatClient.listModels(),
+	createClient: async (options) => {
+		const client = OpenAICompatClient.fromEnvironment(options);
+		await client.initializeModel();
+		return client;
+	},
+});
@@ -5,31 +5,64 @@
 
 import {
 	ChatSession,
+	EnhancedGenerateContentResponse,
 	FunctionCall,
 	FunctionResponsePart,
+	GenerationConfig,
 	GenerativeModel,
 	GoogleGenerativeAI,
+	Part,
 } from '@google/generative-ai';
 import { config } from 'dotenv';
 import { printError, printInfo } from '../cli/console.js';
 import { mcpClient } from '../mcp/client.js';
-import { toolConfig } from '../tools/definitions.js';
-import type { ChatHistory, LLMResponse } from '../types.js';
+import { selectTools } from '../tools/definitions.js';
+import type {
+	AttachmentPart,
+	ChatHistory,
+	LLMChatSession,
+	LLMClient,
+	LLMClientOptions,
+	LLMResponse,
+	StreamChunkHandler,
+	TokenUsage,
+} from '../types.js';
 import { getErrorMessage } from '../utils/errorUtils.js';
 import {
 	chatHistoryToGeminiContent,
 	geminiContentToChatHistory,
+	messagePartsToGeminiParts,
 } from '../utils/messageConverter.js';
+import { addTokenUsage, createTokenUsage } from '../utils/tokenUsage.js';
 import { GeminiConfigSchema } from './geminiValidation.js';
 
 /** Name of the clarification tool for detection */
 const CLARIFICATION_TOOL_NAME = 'request_clarification';
 
+/** Gemini models offered by /model list; any other model name can still be used */
+const GEMINI_MODELS = [
+	'gemini-2.5-pro',
+	'gemini-2.5-flash',
+	'gemini-2.5-flash-lite',
+	'gemini-2.0-flash',
+	'gemini-2.0-flash-lite',
+];
+
+/**
+ * Reads the token counts Gemini reports for a single request.
+ */
+function getResponseUsage(response: EnhancedGenerateContentResponse): TokenUsage {
+	return createTokenUsage(
+		response.usageMetadata?.promptTokenCount ?? 0,
+		response.usageMetadata?.candidatesTokenCount ?? 0,
+	);
+}
+
 /**
  * Wrapper for Gemini chat session that provides universal dictionary-based history format.
  * Supports function calling with automatic tool execution.
  */
-export class GeminiChatSessionWrapper {
+export class GeminiChatSessionWrapper implements LLMChatSession {
 	private geminiSession: ChatSession;
 	private toolsEnabled: boolean;
 
@@ -39,13 +72,22 @@ export class GeminiChatSessionWrapper {
 	}
 
 	/**
-	 * Forwards message to Gemini session.
-	 * Handles function calling loop if tools are enabled.
+	 * Forwards message to Gemini session, streaming text chunks as they arrive.
+	 * Attachments are sent as inline data alongside the text.
+	 * Handles function calling loop if tools are enabled; usage covers every request of the loop.
 	 * Returns early with clarificationNeeded if the model requests clarification.
 	 */
-	async sendMessage(text: string): Promise<LLMResponse> {
-		let result = await this.geminiSession.sendMessage(text);
-		let response = result.response;
+	async sendMessage(
+		text: string,
+		onChunk?: StreamChunkHandler,
+		attachments: AttachmentPart[] = [],
+	): Promise<LLMResponse> {
+		const request =
+			attachments.length > 0
+				? messagePartsToGeminiParts([{ text }, ...attachments])
+				: text;
+		let response = await this.streamRequest(request, onChunk);
+		let usage = getResponseUsage(response);
 
 		// Function calling loop - keep executing until no more function calls
 		if (this.toolsEnabled) {
@@ -69,7 +111,7 @@ export class GeminiChatSessionWrapper {
 						// The calling code will handle prompting the user
 						return {
 							text: '',
-							tokensUsed: response.usageMetadata?.totalTokenCount,
+							usage,
 							clarificationNeeded: { question },
 						};
 					}
@@ -88,17 +130,38 @@ export class GeminiChatSessionWrapper {
 				const functionResponses = await this.executeFunctionCalls(otherCalls);
 
 				// Send function responses back to the model
-				result = await this.geminiSession.sendMessage(functionResponses);
-				response = result.response;
+				response = await this.streamRequest(functionResponses, onChunk);
+				usage = addTokenUsage(usage, getResponseUsage(response));
 			}
 		}
 
 		return {
 			text: response.text(),
-			tokensUsed: response.usageMetadata?.totalTokenCount,
+			usage,
 		};
 	}
 
+	/**
+	 * Sends a request via the streaming API, forwarding text chunks to onChunk.
+	 * Resolves with the aggregated response once the stream completes.
+	 */
+	private async streamRequest(
+		request: string | Part[],
+		onChunk?: StreamChunkHandler,
+	): Promise<EnhancedGenerateContentResponse> {
+		const result = await this.geminiSession.sendMessageStream(request);
+
+		for await (const chunk of result.stream) {
+			// Chunks carrying only function calls have no text to render
+			const chunkText = chunk.text();
+			if (chunkText && onChunk) {
+				onChunk(chunkText);
+			}
+		}
+
+		return await result.response;
+	}
+
 	/**
 	 * Executes function calls via MCP client and returns responses.
 	 */
@@ -152,19 +215,31 @@ export class GeminiChatSessionWrapper {
 /**
  * Encapsulates all Google Gemini AI interactions.
  */
-export class GeminiLLMClient {
+export class GeminiLLMClient implements LLMClient {
 	private modelName: string;
 	private apiKey: string;
 	private client: GoogleGenerativeAI;
 	private model: GenerativeModel;
-
-	constructor(modelName: string, apiKey: string) {
+	private contextTokens: number;
+	private generationConfig: GenerationConfig;
+	private enabledTools: string[] | undefined;
+
+	constructor(
+		modelName: string,
+		apiKey: string,
+		contextTokens: number = 32768,
+		generationConfig: GenerationConfig = {},
+		enabledTools?: string[],
+	) {
 		if (!apiKey) {
 			throw new Error('API key cannot be empty or None');
 		}
 
 		this.modelName = modelName;
 		this.apiKey = apiKey;
+		this.contextTokens = contextTokens;
+		this.generationConfig = generationConfig;
+		this.enabledTools = enabledTools;
 		this.client = this.initializeClient();
 		this.model = this.client.getGenerativeModel({ model: this.modelName });
 	}
@@ -176,20 +251,44 @@ export class GeminiLLMClient {
 		return '🤖 Przygotowywanie klienta Gemini...';
 	}
 
+	/**
+	 * Lists the Gemini models known to work with the client (no API call is made).
+	 */
+	static async listModels(): Promise<[string[], string | null]> {
+		return [[...GEMINI_MODELS], null];
+	}
+
 	/**
 	 * Factory method that creates a GeminiLLMClient instance from environment variables.
+	 * Assistant options override the model and set sampling parameters.
 	 */
-	static fromEnvironment(): GeminiLLMClient {
+	static fromEnvironment(options: LLMClientOptions = {}): GeminiLLMClient {
 		config();
 
 		// Validation with Zod
 		const configData = GeminiConfigSchema.parse({
 			engine: 'GEMINI',
-			modelName: process.env.MODEL_NAME || 'gemini-2.0-flash',
+			modelName:
+				options.modelName || process.env.MODEL_NAME || 'gemini-2.0-flash',
 			geminiApiKey: process.env.GEMINI_API_KEY || '',
+			geminiContextTokens: parseInt(
+				process.env.GEMINI_CONTEXT_TOKENS || '32768',
+				10,
+			),
 		});
 
-		return new GeminiLLMClient(configData.modelName, configData.geminiApiKey);
+		return new GeminiLLMClient(
+			configData.modelName,
+			configData.geminiApiKey,
+			configData.geminiContextTokens,
+			{
+				temperature: options.temperature,
+				topP: options.topP,
+				topK: options.topK,
+				maxOutputTokens: options.maxOutputTokens,
+			},
+			options.tools,
+		);
 	}
 
 	/**
@@ -219,19 +318,22 @@ export class GeminiLLMClient {
 		const geminiHistory = history ? chatHistoryToGeminiContent(history) : [];
 
 		// Create generative model with system instruction and optional tools
+		const functionDeclarations = enableTools
+			? selectTools(this.enabledTools)
+			: [];
 		const modelConfig: {
 			model: string;
 			systemInstruction: string;
-			tools?: Array<{
-				functionDeclarations: typeof toolConfig.functionDeclarations;
-			}>;
+			generationConfig: GenerationConfig;
+			tools?: Array<{ functionDeclarations: typeof functionDeclarations }>;
 		} = {
 			model: this.modelName,
 			systemInstruction: systemInstruction,
+			generationConfig: this.generationConfig,
 		};
 
-		if (enableTools) {
-			modelConfig.tools = [toolConfig];
+		if (functionDeclarations.length > 0) {
+			modelConfig.tools = [{ functionDeclarations }];
 		}
 
 		const modelWithConfig = this.client.getGenerativeModel(modelConfig);
@@ -240,7 +342,10 @@ export class GeminiLLMClient {
 			history: geminiHistory,
 		});
 
-		return new GeminiChatSessionWrapper(geminiSession, enableTools);
+		return new GeminiChatSessionWrapper(
+			geminiSession,
+			functionDeclarations.length > 0,
+		);
 	}
 
 	/**
@@ -263,6 +368,13 @@ export class GeminiLLMClient {
 		}
 	}
 
+	/**
+	 * Returns the context budget (in tokens) for conversations with this model.
+	 */
+	getMaxContextTokens(): number {
+		return this.contextTokens;
+	}
+
 	/**
 	 * Returns the currently configured model name.
 	 */
@@ -6,7 +6,13 @@ export const GeminiConfigSchema = z.object({
   geminiApiKey: z
     .string()
     .min(1, 'GEMINI_API_KEY nie może być pusty')
-    .transform(val => val.trim())
+    .transform(val => val.trim()),
+  geminiContextTokens: z
+    .number()
+    .int()
+    .min(1024)
+    .default(32768)
+    .describe('Budżet kontekstu w tokenach (historia wysyłana do modelu)')
 });
 
 export type GeminiConfig = z.infer<typeof GeminiConfigSchema>;
@@ -5,19 +5,44 @@
  */
 
 import { config } from 'dotenv';
-import { existsSync } from 'fs';
+import { existsSync, readdirSync } from 'fs';
+import { basename, dirname, isAbsolute, join } from 'path';
 import {
 	getLlama,
 	Llama,
+	LlamaContext,
 	LlamaModel,
 	LlamaChatSession as NativeLlamaChatSession,
+	resolveChatWrapper,
+	type ChatHistoryItem,
 	type ChatSessionModelFunctions,
+	type ChatWrapper,
 } from 'node-llama-cpp';
 import { printError, printInfo } from '../cli/console.js';
+import { appendAttachmentText } from '../files/attachments.js';
 import { mcpClient } from '../mcp/client.js';
 import { llamaToolConfig } from '../tools/definitions.js';
-import type { ChatHistory, LLMResponse, Message } from '../types.js';
+import type {
+	AttachmentPart,
+	ChatHistory,
+	FunctionCallPart,
+	FunctionResponsePart,
+	LLMChatSession,
+	LLMClient,
+	LLMClientOptions,
+	LLMResponse,
+	Message,
+	StreamChunkHandler,
+	TokenUsage,
+} from '../types.js';
 import { getErrorMessage } from '../utils/errorUtils.js';
+import {
+	createFunctionCallPart,
+	createFunctionResponsePart,
+	getMessageText,
+	isAttachmentPart,
+} from '../utils/messageParts.js';
+import { createTokenUsage } from '../utils/tokenUsage.js';
 import { LlamaConfigSchema } from './llamaValidation.js';
 
 /** Name of the clarification tool for detection */
@@ -30,20 +55,92 @@ interface SamplingParams {
 	temperature: number;
 	topP: number;
 	topK: number;
+	maxTokens?: number;
+}
+
+/**
+ * Converts universal ChatHistory to node-llama-cpp chat history.
+ * Only text is replayed (attachments as their text form); tool rounds are
+ * skipped since node-llama-cpp keeps them inside model responses.
+ */
+function chatHistoryToLlamaHistory(
+	systemInstruction: string,
+	history: ChatHistory,
+): ChatHistoryItem[] {
+	const items: ChatHistoryItem[] = [];
+
+	if (systemInstruction) {
+		items.push({ type: 'system', text: systemInstruction });
+	}
+
+	for (const msg of history) {
+		const text = getMessageText(msg);
+		if (msg.role === 'model') {
+			if (text) {
+				items.push({ type: 'model', response: [text] });
+			}
+			continue;
+		}
+		const content = appendAttachmentText(text, msg.parts.filter(isAttachmentPart));
+		if (content) {
+			items.push({ type: 'user', text: content });
+		}
+	}
+
+	return items;
+}
+
+/**
+ * Counts the tokens of a chat history rendered with the model's chat template,
+ * i.e. the text llama.cpp actually evaluates.
+ */
+function countTemplatedTokens(
+	model: LlamaModel,
+	chatWrapper: ChatWrapper,
+	chatHistory: ChatHistoryItem[],
+): number {
+	const { contextText } = chatWrapper.generateContextState({ chatHistory });
+	return contextText.tokenize(model.tokenizer).length;
+}
+
+/**
+ * Returns the directory with .gguf models: LLAMA_MODELS_DIR, or the directory of LLAMA_MODEL_PATH.
+ */
+function getModelsDir(): string | null {
+	if (process.env.LLAMA_MODELS_DIR) {
+		return process.env.LLAMA_MODELS_DIR;
+	}
+	return process.env.LLAMA_MODEL_PATH
+		? dirname(process.env.LLAMA_MODEL_PATH)
+		: null;
+}
+
+/**
+ * Resolves a model given as a bare file name (e.g. from /model list) against the models directory.
+ */
+function resolveModelPath(model: string): string {
+	const modelsDir = getModelsDir();
+	if (isAbsolute(model) || basename(model) !== model || !modelsDir) {
+		return model;
+	}
+	return join(modelsDir, model);
 }
 
 /**
  * Wrapper class that provides a chat session interface compatible with Gemini's interface.
  * Supports function calling with automatic tool execution.
  */
-export class LlamaChatSession {
+export class LlamaChatSession implements LLMChatSession {
 	private llamaSession: NativeLlamaChatSession;
 	private _history: ChatHistory;
 	private systemInstruction: string;
 	private samplingParams: SamplingParams;
 	private toolsEnabled: boolean;
 	private tools: ChatSessionModelFunctions | undefined;
+	private enabledTools: string[] | undefined;
 	private pendingClarification: string | null = null;
+	private pendingToolCalls: FunctionCallPart[] = [];
+	private pendingToolResults: FunctionResponsePart[] = [];
 
 	constructor(
 		llamaSession: NativeLlamaChatSession,
@@ -51,12 +148,21 @@ export class LlamaChatSession {
 		samplingParams: SamplingParams,
 		history: ChatHistory = [],
 		toolsEnabled: boolean = false,
+		enabledTools?: string[],
 	) {
 		this.llamaSession = llamaSession;
 		this.systemInstruction = systemInstruction;
 		this.samplingParams = samplingParams;
 		this._history = history;
 		this.toolsEnabled = toolsEnabled;
+		this.enabledTools = enabledTools;
+
+		// Replay previous turns so the model sees the conversation so far
+		if (history.length > 0) {
+			this.llamaSession.setChatHistory(
+				chatHistoryToLlamaHistory(systemInstruction, history),
+			);
+		}
 
 		// Create tools config with custom clarification handler
 		if (toolsEnabled) {
@@ -64,6 +170,20 @@ export class LlamaChatSession {
 		}
 	}
 
+	/**
+	 * Frees the session's llama.cpp context, which holds memory for the whole context size.
+	 */
+	async dispose(): Promise<void> {
+		// Unloading the model may have freed them already
+		const context = this.llamaSession.context;
+		if (!this.llamaSession.disposed) {
+			this.llamaSession.dispose();
+		}
+		if (!context.disposed) {
+			await context.dispose();
+		}
+	}
+
 	/**
 	 * Creates a modified tools config where the clarification handler
 	 * stores the question for later retrieval instead of executing via MCP.
@@ -78,8 +198,12 @@ export class LlamaChatSession {
 			}
 		> = {};
 
-		// Copy all tools from the pre-converted config
+		// Copy the assistant's tools from the pre-converted config
 		for (const [name, tool] of Object.entries(llamaToolConfig)) {
+			if (this.enabledTools && !this.enabledTools.includes(name)) {
+				continue;
+			}
+
 			if (name === CLARIFICATION_TOOL_NAME) {
 				// Special handler for clarification - stores the question
 				tools[name] = {
@@ -89,10 +213,12 @@ export class LlamaChatSession {
 						const question = params.question as string;
 						this.pendingClarification = question;
 						// Return a message that will be included in the response
-						return {
+						const result = {
 							status: 'clarification_requested',
 							message: 'Waiting for user clarification',
 						};
+						this.recordToolCall(name, params, result);
+						return result;
 					},
 				};
 			} else {
@@ -105,11 +231,14 @@ export class LlamaChatSession {
 						try {
 							const result = await mcpClient.executeTool(name, params);
 							printInfo(`✓ Narzędzie ${name} wykonane pomyślnie`);
+							this.recordToolCall(name, params, result);
 							return result;
 						} catch (error) {
 							const errorMessage = getErrorMessage(error);
 							printError(`✗ Błąd narzędzia ${name}: ${errorMessage}`);
-							return { error: errorMessage };
+							const result = { error: errorMessage };
+							this.recordToolCall(name, params, result);
+							return result;
 						}
 					},
 				};
@@ -119,18 +248,77 @@ export class LlamaChatSession {
 		return tools as ChatSessionModelFunctions;
 	}
 
+	/**
+	 * Remembers a tool invocation made by node-llama-cpp during the current prompt.
+	 */
+	private recordToolCall(
+		name: string,
+		params: Record<string, unknown>,
+		result: unknown,
+	): void {
+		this.pendingToolCalls.push(createFunctionCallPart(name, params || {}));
+		this.pendingToolResults.push(createFunctionResponsePart(name, result));
+	}
+
+	/**
+	 * Measures the turn with the model's tokenizer over the templated session history.
+	 * node-llama-cpp reuses its KV cache, so this is the context the answer was generated
+	 * from rather than the number of tokens evaluated in this turn.
+	 */
+	private measureUsage(responseText: string): TokenUsage | undefined {
+		try {
+			const model = this.llamaSession.model;
+			const totalTokens = countTemplatedTokens(
+				model,
+				this.llamaSession.chatWrapper,
+				this.llamaSession.getChatHistory(),
+			);
+			const completionTokens = model.tokenize(responseText).length;
+			return createTokenUsage(
+				Math.max(0, totalTokens - completionTokens),
+				completionTokens,
+			);
+		} catch {
+			return undefined;
+		}
+	}
+
+	/**
+	 * Moves tool invocations from the current prompt into the universal history.
+	 */
+	private flushToolCalls(): void {
+		if (this.pendingToolCalls.length === 0) {
+			return;
+		}
+		this._history.push({ role: 'model', parts: this.pendingToolCalls });
+		this._history.push({ role: 'user', parts: this.pendingToolResults });
+		this.pendingToolCalls = [];
+		this.pendingToolResults = [];
+	}
+
 	/**
 	 * Sends a message to the LLaMA model and returns a response object.
+	 * Text is streamed to onChunk as it is generated.
+	 * Attachments are inlined as text, since the model only accepts text prompts.
 	 * Handles function calling loop if tools are enabled.
 	 * Returns early with clarificationNeeded if the model requests clarification.
 	 */
-	async sendMessage(text: string): Promise<LLMResponse> {
+	async sendMessage(
+		text: string,
+		onChunk?: StreamChunkHandler,
+		attachments: AttachmentPart[] = [],
+	): Promise<LLMResponse> {
 		// Add user message to history
-		const userMessage: Message = { role: 'user', parts: [{ text }] };
+		const userMessage: Message = {
+			role: 'user',
+			parts: [{ text }, ...attachments],
+		};
 		this._history.push(userMessage);
 
-		// Reset pending clarification
+		// Reset pending clarification and tool calls
 		this.pendingClarification = null;
+		this.pendingToolCalls = [];
+		this.pendingToolResults = [];
 
 		try {
 			// Build prompt options
@@ -138,11 +326,15 @@ export class LlamaChatSession {
 				temperature: number;
 				topP: number;
 				topK: number;
+				maxTokens?: number;
 				functions?: ChatSessionModelFunctions;
+				onTextChunk?: StreamChunkHandler;
 			} = {
 				temperature: this.samplingParams.temperature,
 				topP: this.samplingParams.topP,
 				topK: this.samplingParams.topK,
+				maxTokens: this.samplingParams.maxTokens,
+				onTextChunk: onChunk,
 			};
 
 			// Add tools if enabled
@@ -152,7 +344,12 @@ export class LlamaChatSession {
 
 			// Generate response using LLaMA with sampling parameters and optional tools
 			// node-llama-cpp automatically handles the function call loop via handlers
-			const response = await this.llamaSession.prompt(text, promptOptions);
+			const response = await this.llamaSession.prompt(
+				appendAttachmentText(text, attachments),
+				promptOptions,
+			);
+			this.flushToolCalls();
+			const usage = this.measureUsage(response);
 
 			// Check if clarification was requested during function calling
 			if (this.pendingClarification) {
@@ -160,6 +357,7 @@ export class LlamaChatSession {
 				this.pendingClarification = null;
 				return {
 					text: '',
+					usage,
 					clarificationNeeded: { question },
 				};
 			}
@@ -175,7 +373,7 @@ export class LlamaChatSession {
 
 			return {
 				text: responseText,
-				tokensUsed: undefined, // node-llama-cpp doesn't provide token count in response
+				usage,
 			};
 		} catch (error) {
 			printError(`Błąd podczas generowania odpowiedzi LLaMA: ${error}`);
@@ -187,7 +385,7 @@ export class LlamaChatSession {
 				parts: [{ text: errorText }],
 			};
 			this._history.push(assistantMessage);
-			return { text: errorText };
+			return { text: errorText, failed: true };
 		}
 	}
 
@@ -202,14 +400,17 @@ export class LlamaChatSession {
 /**
  * Encapsulates all local LLaMA model interactions.
  */
-export class LlamaClient {
+export class LlamaClient implements LLMClient {
 	private modelName: string;
 	private modelPath: string;
 	private nGpuLayers: number;
 	private nCtx: number;
 	private samplingParams: SamplingParams;
+	private enabledTools: string[] | undefined;
 	private llamaModel: LlamaModel | null = null;
 	private llama: Llama | null = null;
+	/** Contexts of the chat sessions created so far; disposed sessions drop out */
+	private contexts = new Set<LlamaContext>();
 
 	constructor(
 		modelName: string,
@@ -217,6 +418,7 @@ export class LlamaClient {
 		nGpuLayers: number = 1,
 		nCtx: number = 8192,
 		samplingParams: SamplingParams = { temperature: 0.8, topP: 0.9, topK: 40 },
+		enabledTools?: string[],
 	) {
 		if (!modelPath) {
 			throw new Error('Model path cannot be empty');
@@ -231,6 +433,7 @@ export class LlamaClient {
 		this.nGpuLayers = nGpuLayers;
 		this.nCtx = nCtx;
 		this.samplingParams = samplingParams;
+		this.enabledTools = enabledTools;
 	}
 
 	/**
@@ -240,22 +443,53 @@ export class LlamaClient {
 		return '🦙 Przygotowywanie klienta llama.cpp...';
 	}
 
+	/**
+	 * Lists the .gguf files in LLAMA_MODELS_DIR (by default the directory of LLAMA_MODEL_PATH).
+	 */
+	static async listModels(): Promise<[string[], string | null]> {
+		config();
+
+		const modelsDir = getModelsDir();
+		if (!modelsDir) {
+			return [[], 'Ustaw LLAMA_MODELS_DIR lub LLAMA_MODEL_PATH'];
+		}
+
+		try {
+			const files = readdirSync(modelsDir)
+				.filter((file) => file.toLowerCase().endsWith('.gguf'))
+				.sort();
+			return [files, null];
+		} catch (error) {
+			return [[], `Nie można odczytać katalogu ${modelsDir}: ${error}`];
+		}
+	}
+
 	/**
 	 * Factory method that creates a LlamaClient instance from environment variables.
+	 * An assistant's model option is a path to a .gguf file and replaces LLAMA_MODEL_PATH;
+	 * a bare file name is looked up in the models directory.
 	 */
-	static fromEnvironment(): LlamaClient {
+	static fromEnvironment(options: LLMClientOptions = {}): LlamaClient {
 		config();
 
+		const modelPath = options.modelName
+			? resolveModelPath(options.modelName)
+			: process.env.LLAMA_MODEL_PATH || '';
+
 		// Validation with Zod
 		const configData = LlamaConfigSchema.parse({
 			engine: 'LLAMA_CPP',
-			modelName: process.env.LLAMA_MODEL_NAME || 'llama-3.1-8b-instruct',
-			llamaModelPath: process.env.LLAMA_MODEL_PATH || '',
+			modelName: options.modelName
+				? basename(modelPath, '.gguf')
+				: process.env.LLAMA_MODEL_NAME || 'llama-3.1-8b-instruct',
+			llamaModelPath: modelPath,
 			llamaGpuLayers: parseInt(process.env.LLAMA_GPU_LAYERS || '1', 10),
 			llamaContextSize: parseInt(process.env.LLAMA_CONTEXT_SIZE || '8192', 10),
-			llamaTemperature: parseFloat(process.env.LLAMA_TEMPERATURE || '0.8'),
-			llamaTopP: parseFloat(process.env.LLAMA_TOP_P || '0.9'),
-			llamaTopK: parseInt(process.env.LLAMA_TOP_K || '40', 10),
+			llamaTemperature:
+				options.temperature ?? parseFloat(process.env.LLAMA_TEMPERATURE || '0.8'),
+			llamaTopP: options.topP ?? parseFloat(process.env.LLAMA_TOP_P || '0.9'),
+			llamaTopK: options.topK ?? parseInt(process.env.LLAMA_TOP_K || '40', 10),
+			llamaMaxTokens: options.maxOutputTokens,
 		});
 
 		printInfo(`Ładowanie modelu LLaMA z: ${configData.llamaModelPath}`);
@@ -272,7 +506,9 @@ export class LlamaClient {
 				temperature: configData.llamaTemperature,
 				topP: configData.llamaTopP,
 				topK: configData.llamaTopK,
+				maxTokens: configData.llamaMaxTokens,
 			},
+			options.tools,
 		);
 	}
 
@@ -312,10 +548,16 @@ export class LlamaClient {
 			);
 		}
 
-		// Create context
+		// Create context; each one is freed by its session's dispose() or with the model
+		for (const context of this.contexts) {
+			if (context.disposed) {
+				this.contexts.delete(context);
+			}
+		}
 		const context = await this.llamaModel.createContext({
 			contextSize: this.nCtx,
 		});
+		this.contexts.add(context);
 
 		// Create chat session
 		const session = new NativeLlamaChatSession({
@@ -329,6 +571,7 @@ export class LlamaClient {
 			this.samplingParams,
 			history,
 			enableTools,
+			this.enabledTools,
 		);
 	}
 
@@ -345,24 +588,44 @@ export class LlamaClient {
 				throw new Error('Model not initialized');
 			}
 
-			// Build text from history
-			const textParts = history.map((msg) => msg.parts[0]?.text || '');
-			const fullText = textParts.join(' ');
-
-			// Use LLaMA's tokenizer to count tokens
-			const tokens = this.llamaModel.tokenize(fullText);
-			return tokens.length;
+			// Count the history as the chat template renders it, including role markers
+			return countTemplatedTokens(
+				this.llamaModel,
+				resolveChatWrapper(this.llamaModel),
+				chatHistoryToLlamaHistory('', history),
+			);
 		} catch (error) {
 			printError(`Błąd podczas liczenia tokenów: ${error}`);
 			// Fallback: rough estimation (4 chars per token average)
 			const totalChars = history.reduce(
-				(sum, msg) => sum + (msg.parts[0]?.text.length || 0),
+				(sum, msg) => sum + getMessageText(msg).length,
 				0,
 			);
 			return Math.floor(totalChars / 4);
 		}
 	}
 
+	/**
+	 * Unloads the model and the contexts of its chat sessions, freeing their memory.
+	 */
+	async dispose(): Promise<void> {
+		for (const context of this.contexts) {
+			if (!context.disposed) {
+				await context.dispose();
+			}
+		}
+		this.contexts.clear();
+		await this.llamaModel?.dispose();
+		this.llamaModel = null;
+	}
+
+	/**
+	 * Returns the context budget (in tokens): the size of the llama.cpp context.
+	 */
+	getMaxContextTokens(): number {
+		return this.nCtx;
+	}
+
 	/**
 	 * Returns the currently configured model name.
 	 */
@@ -41,6 +41,12 @@ export const LlamaConfigSchema = z.object({
 		.min(1)
 		.default(40)
 		.describe('Top K próbkowania (min 1)'),
+	llamaMaxTokens: z
+		.number()
+		.int()
+		.min(1)
+		.optional()
+		.describe('Maksymalna liczba tokenów odpowiedzi'),
 });
 
 export type LlamaConfig = z.infer<typeof LlamaConfigSchema>;
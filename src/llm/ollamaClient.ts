@@ -5,10 +5,40 @@
 
 import { config } from 'dotenv';
 import { printError, printInfo } from '../cli/console.js';
+import {
+	appendAttachmentText,
+	isImageAttachment,
+	readAttachmentData,
+} from '../files/attachments.js';
 import { mcpClient } from '../mcp/client.js';
-import { ollamaToolConfig, type OllamaTool } from '../tools/definitions.js';
-import type { ChatHistory, LLMResponse, Message } from '../types.js';
+import {
+	convertToOllamaTools,
+	selectTools,
+	type OllamaTool,
+} from '../tools/definitions.js';
+import type {
+	AttachmentPart,
+	ChatHistory,
+	FunctionResponsePart,
+	LLMChatSession,
+	LLMClient,
+	LLMClientOptions,
+	LLMResponse,
+	Message,
+	StreamChunkHandler,
+} from '../types.js';
 import { getErrorMessage } from '../utils/errorUtils.js';
+import {
+	createFunctionCallPart,
+	createFunctionResponsePart,
+	getMessageText,
+	isAttachmentPart,
+	isFunctionCallPart,
+	isFunctionResponsePart,
+} from '../utils/messageParts.js';
+import { readWithIdleTimeout } from '../utils/streamTimeout.js';
+import { TokenEstimator } from '../utils/tokenEstimate.js';
+import { addTokenUsage, createTokenUsage } from '../utils/tokenUsage.js';
 import { OllamaConfigSchema } from './ollamaValidation.js';
 
 /** Name of the clarification tool for detection */
@@ -42,6 +72,7 @@ interface OllamaMessage {
 	content: string;
 	tool_calls?: OllamaToolCall[];
 	tool_name?: string;
+	images?: string[]; // Base64-encoded images for multimodal models
 }
 
 /**
@@ -62,6 +93,79 @@ interface OllamaChatResponse {
 	eval_count?: number;
 }
 
+/**
+ * Builds an Ollama user message. Images go to the `images` field read by
+ * multimodal models; other attachments are inlined as text.
+ */
+function buildOllamaUserMessage(
+	text: string,
+	attachments: AttachmentPart[],
+): OllamaMessage {
+	const images: string[] = [];
+	const textAttachments: AttachmentPart[] = [];
+
+	for (const attachment of attachments) {
+		const data = isImageAttachment(attachment)
+			? readAttachmentData(attachment)
+			: null;
+		if (data) {
+			images.push(data.toString('base64'));
+		} else {
+			textAttachments.push(attachment);
+		}
+	}
+
+	return {
+		role: 'user',
+		content: appendAttachmentText(text, textAttachments),
+		...(images.length > 0 && { images }),
+	};
+}
+
+/**
+ * Converts universal ChatHistory to Ollama messages, keeping every part.
+ * Model function calls become assistant `tool_calls`, and function responses
+ * become separate `tool` messages.
+ */
+function chatHistoryToOllamaMessages(history: ChatHistory): OllamaMessage[] {
+	const messages: OllamaMessage[] = [];
+
+	for (const msg of history) {
+		const text = getMessageText(msg);
+
+		if (msg.role === 'model') {
+			const toolCalls: OllamaToolCall[] = msg.parts
+				.filter(isFunctionCallPart)
+				.map((part) => ({
+					function: {
+						name: part.functionCall.name,
+						arguments: part.functionCall.args,
+					},
+				}));
+			messages.push({
+				role: 'assistant',
+				content: text,
+				...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+			});
+			continue;
+		}
+
+		for (const part of msg.parts.filter(isFunctionResponsePart)) {
+			messages.push({
+				role: 'tool',
+				tool_name: part.functionResponse.name,
+				content: JSON.stringify(part.functionResponse.response),
+			});
+		}
+		const attachments = msg.parts.filter(isAttachmentPart);
+		if (text || attachments.length > 0) {
+			messages.push(buildOllamaUserMessage(text, attachments));
+		}
+	}
+
+	return messages;
+}
+
 /**
  * Sampling parameters for model generation
  */
@@ -69,13 +173,14 @@ interface SamplingParams {
 	temperature: number;
 	top_p: number;
 	top_k: number;
+	num_predict?: number;
 }
 
 /**
  * Wrapper class that provides a chat session interface compatible with Gemini's interface.
  * Supports function calling with automatic tool execution.
  */
-export class OllamaChatSession {
+export class OllamaChatSession implements LLMChatSession {
 	private baseUrl: string;
 	private modelName: string;
 	private timeout: number;
@@ -85,7 +190,9 @@ export class OllamaChatSession {
 	private toolsEnabled: boolean;
 	private toolsSupported: boolean = true; // Will be set to false if model doesn't support tools
 	private tools: OllamaTool[];
+	private contextSize: number;
 	private _ollamaMessages: OllamaMessage[] = [];
+	private tokenEstimator: TokenEstimator;
 
 	constructor(
 		baseUrl: string,
@@ -96,6 +203,8 @@ export class OllamaChatSession {
 		history: ChatHistory = [],
 		toolsEnabled: boolean = false,
 		tools: OllamaTool[] = [],
+		contextSize: number = 4096,
+		tokenEstimator: TokenEstimator = new TokenEstimator(),
 	) {
 		this.baseUrl = baseUrl;
 		this.modelName = modelName;
@@ -105,10 +214,12 @@ export class OllamaChatSession {
 		this._history = history;
 		this.toolsEnabled = toolsEnabled;
 		this.tools = tools;
+		this.contextSize = contextSize;
+		this.tokenEstimator = tokenEstimator;
 	}
 
 	/**
-	 * Initializes Ollama messages array with system instruction.
+	 * Initializes Ollama messages array with system instruction and history.
 	 */
 	private initializeOllamaMessages(): void {
 		this._ollamaMessages = [];
@@ -119,21 +230,20 @@ export class OllamaChatSession {
 			});
 		}
 		// Convert existing history to Ollama format
-		for (const msg of this._history) {
-			this._ollamaMessages.push({
-				role: msg.role === 'model' ? 'assistant' : 'user',
-				content: msg.parts[0]?.text || '',
-			});
-		}
+		this._ollamaMessages.push(...chatHistoryToOllamaMessages(this._history));
 	}
 
 	/**
-	 * Makes a chat API request to Ollama.
+	 * Makes a streaming chat API request to Ollama.
+	 * Text fragments are forwarded to onChunk as they arrive; the returned
+	 * response aggregates the whole stream (content, tool calls, token counts).
+	 * The timeout applies to the response headers and then to each gap between chunks.
 	 * @param includeTools - Whether to include tools in the request (respects toolsSupported flag)
 	 */
 	private async makeOllamaRequest(
 		messages: OllamaMessage[],
 		includeTools: boolean = true,
+		onChunk?: StreamChunkHandler,
 	): Promise<OllamaChatResponse> {
 		const controller = new AbortController();
 		const timeoutId = setTimeout(() => controller.abort(), this.timeout);
@@ -146,16 +256,20 @@ export class OllamaChatSession {
 				temperature: number;
 				top_p: number;
 				top_k: number;
+				num_predict?: number;
+				num_ctx: number;
 			};
 			tools?: OllamaTool[];
 		} = {
 			model: this.modelName,
 			messages: messages,
-			stream: false,
+			stream: true,
 			options: {
 				temperature: this.samplingParams.temperature,
 				top_p: this.samplingParams.top_p,
 				top_k: this.samplingParams.top_k,
+				num_predict: this.samplingParams.num_predict,
+				num_ctx: this.contextSize,
 			},
 		};
 
@@ -194,7 +308,71 @@ export class OllamaChatSession {
 			);
 		}
 
-		return (await response.json()) as OllamaChatResponse;
+		if (!response.body) {
+			throw new Error('Ollama API error: empty response body');
+		}
+
+		return await this.readOllamaStream(
+			readWithIdleTimeout(response.body, controller, this.timeout),
+			onChunk,
+		);
+	}
+
+	/**
+	 * Reads newline-delimited JSON chunks from a streaming Ollama response.
+	 * Tool calls are collected as soon as a chunk carries them.
+	 */
+	private async readOllamaStream(
+		body: AsyncIterable<Uint8Array>,
+		onChunk?: StreamChunkHandler,
+	): Promise<OllamaChatResponse> {
+		const decoder = new TextDecoder();
+		let buffer = '';
+		let content = '';
+		const toolCalls: OllamaToolCall[] = [];
+		let finalChunk: OllamaChatResponse | null = null;
+
+		const handleLine = (line: string): void => {
+			if (!line.trim()) {
+				return;
+			}
+			const chunk = JSON.parse(line) as OllamaChatResponse;
+			if (chunk.message?.content) {
+				content += chunk.message.content;
+				onChunk?.(chunk.message.content);
+			}
+			if (chunk.message?.tool_calls) {
+				toolCalls.push(...chunk.message.tool_calls);
+			}
+			if (chunk.done) {
+				finalChunk = chunk;
+			}
+		};
+
+		for await (const bytes of body) {
+			buffer += decoder.decode(bytes, { stream: true });
+			let newlineIndex = buffer.indexOf('\n');
+			while (newlineIndex !== -1) {
+				handleLine(buffer.slice(0, newlineIndex));
+				buffer = buffer.slice(newlineIndex + 1);
+				newlineIndex = buffer.indexOf('\n');
+			}
+		}
+		handleLine(buffer + decoder.decode());
+
+		if (!finalChunk) {
+			throw new Error('Ollama API error: stream ended before completion');
+		}
+
+		const done: OllamaChatResponse = finalChunk;
+		return {
+			...done,
+			message: {
+				role: done.message?.role || 'assistant',
+				content,
+				...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+			},
+		};
 	}
 
 	/**
@@ -202,10 +380,24 @@ export class OllamaChatSession {
 	 */
 	private async executeToolCalls(
 		toolCalls: OllamaToolCall[],
-	): Promise<{ messages: OllamaMessage[]; clarificationQuestion?: string }> {
+	): Promise<{
+		messages: OllamaMessage[];
+		results: FunctionResponsePart[];
+		clarificationQuestion?: string;
+	}> {
 		const toolMessages: OllamaMessage[] = [];
+		const results: FunctionResponsePart[] = [];
 		let clarificationQuestion: string | undefined;
 
+		const addResult = (toolName: string, result: unknown): void => {
+			toolMessages.push({
+				role: 'tool',
+				tool_name: toolName,
+				content: JSON.stringify(result),
+			});
+			results.push(createFunctionResponsePart(toolName, result));
+		};
+
 		for (const call of toolCalls) {
 			const toolName = call.function.name;
 			const toolArgs = call.function.arguments;
@@ -216,13 +408,9 @@ export class OllamaChatSession {
 				if (question) {
 					clarificationQuestion = question;
 					// Add a placeholder tool response
-					toolMessages.push({
-						role: 'tool',
-						tool_name: toolName,
-						content: JSON.stringify({
-							status: 'clarification_requested',
-							message: 'Waiting for user clarification',
-						}),
+					addResult(toolName, {
+						status: 'clarification_requested',
+						message: 'Waiting for user clarification',
 					});
 				}
 				continue;
@@ -232,48 +420,45 @@ export class OllamaChatSession {
 
 			try {
 				const result = await mcpClient.executeTool(toolName, toolArgs);
-				toolMessages.push({
-					role: 'tool',
-					tool_name: toolName,
-					content: JSON.stringify(result),
-				});
+				addResult(toolName, result);
 				printInfo(`✓ Narzędzie ${toolName} wykonane pomyślnie`);
 			} catch (error) {
 				const errorMessage = getErrorMessage(error);
 				printError(`✗ Błąd narzędzia ${toolName}: ${errorMessage}`);
-				toolMessages.push({
-					role: 'tool',
-					tool_name: toolName,
-					content: JSON.stringify({ error: errorMessage }),
-				});
+				addResult(toolName, { error: errorMessage });
 			}
 		}
 
-		return { messages: toolMessages, clarificationQuestion };
+		return { messages: toolMessages, results, clarificationQuestion };
 	}
 
 	/**
 	 * Sends a message to the Ollama model and returns a response object.
+	 * Text is streamed to onChunk as it is generated.
 	 * Handles function calling loop if tools are enabled.
 	 * Returns early with clarificationNeeded if the model requests clarification.
 	 */
-	async sendMessage(text: string): Promise<LLMResponse> {
-		// Add user message to history
-		const userMessage: Message = { role: 'user', parts: [{ text }] };
-		this._history.push(userMessage);
-
-		// Initialize Ollama messages if needed
+	async sendMessage(
+		text: string,
+		onChunk?: StreamChunkHandler,
+		attachments: AttachmentPart[] = [],
+	): Promise<LLMResponse> {
+		// Initialize Ollama messages from the previous history if needed
 		if (this._ollamaMessages.length === 0) {
 			this.initializeOllamaMessages();
 		}
 
-		// Add user message to Ollama messages
-		this._ollamaMessages.push({
+		// Add user message to history
+		const userMessage: Message = {
 			role: 'user',
-			content: text,
-		});
+			parts: [{ text }, ...attachments],
+		};
+		this._history.push(userMessage);
 
-		let totalTokensUsed = 0;
+		// Add user message to Ollama messages
+		this._ollamaMessages.push(buildOllamaUserMessage(text, attachments));
+
+		let usage = createTokenUsage();
 
 		try {
 			// Function calling loop
@@ -281,7 +466,11 @@ export class OllamaChatSession {
 				let data: OllamaChatResponse;
 
 				try {
-					data = await this.makeOllamaRequest(this._ollamaMessages);
+					data = await this.makeOllamaRequest(
+						this._ollamaMessages,
+						true,
+						onChunk,
+					);
 				} catch (error) {
 					// If model doesn't support tools, disable them and retry
 					if (error instanceof ToolsNotSupportedError) {
@@ -289,14 +478,20 @@ export class OllamaChatSession {
 							`⚠️ Model ${this.modelName} nie wspiera narzędzi - wyłączam function calling`,
 						);
 						this.toolsSupported = false;
-						data = await this.makeOllamaRequest(this._ollamaMessages, false);
+						data = await this.makeOllamaRequest(
+							this._ollamaMessages,
+							false,
+							onChunk,
+						);
 					} else {
 						throw error;
 					}
 				}
 
-				totalTokensUsed +=
-					(data.prompt_eval_count || 0) + (data.eval_count || 0);
+				usage = addTokenUsage(
+					usage,
+					createTokenUsage(data.prompt_eval_count || 0, data.eval_count || 0),
+				);
 
 				const toolCalls = data.message.tool_calls;
 
@@ -315,17 +510,37 @@ export class OllamaChatSession {
 					});
 
 					// Execute tool calls
-					const { messages: toolMessages, clarificationQuestion } =
-						await this.executeToolCalls(toolCalls);
+					const {
+						messages: toolMessages,
+						results,
+						clarificationQuestion,
+					} = await this.executeToolCalls(toolCalls);
 
 					// Add tool result messages
 					this._ollamaMessages.push(...toolMessages);
 
+					// Record the tool round in the universal history so it survives save/load
+					this._history.push({
+						role: 'model',
+						parts: [
+							...(data.message.content ? [{ text: data.message.content }] : []),
+							...toolCalls.map((call) =>
+								createFunctionCallPart(
+									call.function.name,
+									call.function.arguments,
+								),
+							),
+						],
+					});
+					if (results.length > 0) {
+						this._history.push({ role: 'user', parts: results });
+					}
+
 					// If clarification was requested, return early
 					if (clarificationQuestion) {
 						return {
 							text: '',
-							tokensUsed: totalTokensUsed > 0 ? totalTokensUsed : undefined,
+							usage: usage.totalTokens > 0 ? usage : undefined,
 							clarificationNeeded: { question: clarificationQuestion },
 						};
 					}
@@ -336,6 +551,8 @@ export class OllamaChatSession {
 
 				// No more tool calls - we have the final response
 				const responseText = data.message.content;
+				// The reply's exact token count calibrates the history estimates
+				this.tokenEstimator.record(responseText.length, data.eval_count || 0);
 
 				// Add assistant response to Ollama messages
 				this._ollamaMessages.push({
@@ -352,7 +569,7 @@ export class OllamaChatSession {
 
 				return {
 					text: responseText,
-					tokensUsed: totalTokensUsed > 0 ? totalTokensUsed : undefined,
+					usage: usage.totalTokens > 0 ? usage : undefined,
 				};
 			}
 		} catch (error) {
@@ -370,7 +587,7 @@ export class OllamaChatSession {
 				parts: [{ text: errorText }],
 			};
 			this._history.push(assistantMessage);
-			return { text: errorText };
+			return { text: errorText, failed: true };
 		}
 	}
 
@@ -385,12 +602,15 @@ export class OllamaChatSession {
 /**
  * Encapsulates all Ollama API interactions.
  */
-export class OllamaClient {
+export class OllamaClient implements LLMClient {
 	private modelName: string;
 	private baseUrl: string;
 	private timeout: number;
 	private samplingParams: SamplingParams;
+	private contextSize: number;
+	private enabledTools: string[] | undefined;
 	private isConnected: boolean = false;
+	private tokenEstimator = new TokenEstimator();
 
 	constructor(
 		modelName: string,
@@ -401,6 +621,8 @@ export class OllamaClient {
 			top_p: 0.9,
 			top_k: 40,
 		},
+		contextSize: number = 4096,
+		enabledTools?: string[],
 	) {
 		if (!baseUrl) {
 			throw new Error('Base URL cannot be empty');
@@ -410,6 +632,8 @@ export class OllamaClient {
 		this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
 		this.timeout = timeout;
 		this.samplingParams = samplingParams;
+		this.contextSize = contextSize;
+		this.enabledTools = enabledTools;
 	}
 
 	/**
@@ -419,21 +643,61 @@ export class OllamaClient {
 		return '🦙 Przygotowywanie klienta Ollama...';
 	}
 
+	/**
+	 * Lists the models installed on the Ollama server (GET /api/tags).
+	 */
+	static async listModels(): Promise<[string[], string | null]> {
+		config();
+		const baseUrl = (
+			process.env.OLLAMA_BASE_URL || 'http://localhost:11434'
+		).replace(/\/$/, '');
+
+		try {
+			const controller = new AbortController();
+			const timeoutId = setTimeout(() => controller.abort(), 5000);
+
+			const response = await fetch(`${baseUrl}/api/tags`, {
+				signal: controller.signal,
+			});
+
+			clearTimeout(timeoutId);
+
+			if (!response.ok) {
+				return [[], `Serwer Ollama zwrócił błąd ${response.status}`];
+			}
+
+			const data = (await response.json()) as {
+				models?: Array<{ name: string }>;
+			};
+			return [(data.models || []).map((model) => model.name).sort(), null];
+		} catch (error) {
+			return [
+				[],
+				`Nie można połączyć się z serwerem Ollama (${baseUrl}): ${error}`,
+			];
+		}
+	}
+
 	/**
 	 * Factory method that creates an OllamaClient instance from environment variables.
 	 */
-	static fromEnvironment(): OllamaClient {
+	static fromEnvironment(options: LLMClientOptions = {}): OllamaClient {
 		config();
 
 		// Validation with Zod
 		const configData = OllamaConfigSchema.parse({
 			engine: 'OLLAMA',
-			modelName: process.env.OLLAMA_MODEL_NAME || 'llama3.2',
+			modelName:
+				options.modelName || process.env.OLLAMA_MODEL_NAME || 'llama3.2',
 			ollamaBaseUrl: process.env.OLLAMA_BASE_URL || 'http://localhost:11434',
 			ollamaTimeout: parseInt(process.env.OLLAMA_TIMEOUT || '30000', 10),
-			ollamaTemperature: parseFloat(process.env.OLLAMA_TEMPERATURE || '0.8'),
-			ollamaTopP: parseFloat(process.env.OLLAMA_TOP_P || '0.9'),
-			ollamaTopK: parseInt(process.env.OLLAMA_TOP_K || '40', 10),
+			ollamaContextSize: parseInt(process.env.OLLAMA_NUM_CTX || '4096', 10),
+			ollamaTemperature:
+				options.temperature ??
+				parseFloat(process.env.OLLAMA_TEMPERATURE || '0.8'),
+			ollamaTopP: options.topP ?? parseFloat(process.env.OLLAMA_TOP_P || '0.9'),
+			ollamaTopK: options.topK ?? parseInt(process.env.OLLAMA_TOP_K || '40', 10),
+			ollamaMaxTokens: options.maxOutputTokens,
 		});
 
 		printInfo(`Łączenie z serwerem Ollama: ${configData.ollamaBaseUrl}`);
@@ -450,7 +714,10 @@ export class OllamaClient {
 				temperature: configData.ollamaTemperature,
 				top_p: configData.ollamaTopP,
 				top_k: configData.ollamaTopK,
+				num_predict: configData.ollamaMaxTokens,
 			},
+			configData.ollamaContextSize,
+			options.tools,
 		);
 	}
 
@@ -511,6 +778,10 @@ export class OllamaClient {
 			await this.checkConnection();
 		}
 
+		const tools = enableTools
+			? convertToOllamaTools(selectTools(this.enabledTools))
+			: [];
+
 		return new OllamaChatSession(
 			this.baseUrl,
 			this.modelName,
@@ -518,15 +789,17 @@ export class OllamaClient {
 			systemInstruction,
 			this.samplingParams,
 			history,
-			enableTools,
-			enableTools ? ollamaToolConfig : [],
+			tools.length > 0,
+			tools,
+			this.contextSize,
+			this.tokenEstimator,
 		);
 	}
 
 	/**
 	 * Counts tokens for the given conversation history.
-	 * Note: Ollama doesn't provide a direct token counting API,
-	 * so we use a rough estimation.
+	 * Note: Ollama doesn't provide a token counting API, so the count is estimated
+	 * from the characters per token of the replies generated so far.
 	 */
 	async countHistoryTokens(history: ChatHistory): Promise<number> {
 		if (!history || history.length === 0) {
@@ -534,19 +807,31 @@ export class OllamaClient {
 		}
 
 		try {
-			// Rough estimation: average 4 characters per token
-			// This is a common approximation for English text
 			const totalChars = history.reduce((sum, msg) => {
-				return sum + (msg.parts[0]?.text.length || 0);
+				return sum + getMessageText(msg).length;
 			}, 0);
 
-			return Math.floor(totalChars / 4);
+			return this.tokenEstimator.estimate(totalChars);
 		} catch (error) {
 			printError(`Błąd podczas liczenia tokenów: ${error}`);
 			return 0;
 		}
 	}
 
+	/**
+	 * Returns the context budget (in tokens): the num_ctx sent with every request.
+	 */
+	getMaxContextTokens(): number {
+		return this.contextSize;
+	}
+
+	/**
+	 * Ollama history token counts are estimates.
+	 */
+	estimatesTokenCounts(): boolean {
+		return true;
+	}
+
 	/**
 	 * Returns the currently configured model name.
 	 */
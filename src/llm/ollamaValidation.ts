@@ -14,6 +14,12 @@ export const OllamaConfigSchema = z.object({
 		.min(1000)
 		.default(30000)
 		.describe('Timeout dla requestów w milisekundach'),
+	ollamaContextSize: z
+		.number()
+		.int()
+		.min(512)
+		.default(4096)
+		.describe('Rozmiar kontekstu modelu (num_ctx)'),
 	ollamaTemperature: z
 		.number()
 		.min(0)
@@ -32,6 +38,12 @@ export const OllamaConfigSchema = z.object({
 		.min(1)
 		.default(40)
 		.describe('Top K próbkowania (min 1)'),
+	ollamaMaxTokens: z
+		.number()
+		.int()
+		.min(1)
+		.optional()
+		.describe('Maksymalna liczba tokenów odpowiedzi (num_predict)'),
 });
 
 export type OllamaConfig = z.infer<typeof OllamaConfigSchema>;
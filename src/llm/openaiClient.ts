@@ -0,0 +1,924 @@
+/**
+ * OpenAI-compatible LLM Client Implementation
+ * Talks to any server exposing `/v1/chat/completions` (vLLM, LM Studio,
+ * llama-server, LocalAI) with streaming and function calling support.
+ */
+
+import { config } from 'dotenv';
+import { printError, printInfo } from '../cli/console.js';
+import { appendAttachmentText } from '../files/attachments.js';
+import { mcpClient } from '../mcp/client.js';
+import {
+	convertToOllamaTools,
+	selectTools,
+	type OllamaTool,
+} from '../tools/definitions.js';
+import type {
+	AttachmentPart,
+	ChatHistory,
+	FunctionResponsePart,
+	LLMChatSession,
+	LLMClient,
+	LLMClientOptions,
+	LLMResponse,
+	Message,
+	StreamChunkHandler,
+	TokenUsage,
+} from '../types.js';
+import { getErrorMessage } from '../utils/errorUtils.js';
+import {
+	createFunctionCallPart,
+	createFunctionResponsePart,
+	getMessageText,
+	isAttachmentPart,
+	isFunctionCallPart,
+	isFunctionResponsePart,
+} from '../utils/messageParts.js';
+import { readWithIdleTimeout } from '../utils/streamTimeout.js';
+import { TokenEstimator } from '../utils/tokenEstimate.js';
+import { addTokenUsage, createTokenUsage } from '../utils/tokenUsage.js';
+import { OpenAICompatConfigSchema } from './openaiValidation.js';
+
+/** Name of the clarification tool for detection */
+const CLARIFICATION_TOOL_NAME = 'request_clarification';
+
+/**
+ * Error thrown when the server or model doesn't support tool calling
+ */
+class ToolsNotSupportedError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ToolsNotSupportedError';
+	}
+}
+
+/**
+ * Errors servers return for requests with tools they can't handle
+ * (Ollama, vLLM without a tool parser, llama.cpp without --jinja, generic wording)
+ */
+const TOOLS_NOT_SUPPORTED_PATTERNS = [
+	/does not support (tools|functions|tool calling|function calling)/i,
+	/tool choice requires/i,
+	/tools param requires/i,
+	/(tools|tool calling|function calling) (is|are) not supported/i,
+];
+
+/** Statuses of those errors: a rejected request, or llama.cpp's server error */
+const TOOLS_NOT_SUPPORTED_STATUSES = [400, 422, 500];
+
+/**
+ * Checks whether a failed response means the server rejected the request's tools.
+ */
+function isToolsNotSupportedError(status: number, errorText: string): boolean {
+	return (
+		TOOLS_NOT_SUPPORTED_STATUSES.includes(status) &&
+		TOOLS_NOT_SUPPORTED_PATTERNS.some((pattern) => pattern.test(errorText))
+	);
+}
+
+/**
+ * Tool call in chat completions format (arguments are a JSON string)
+ */
+interface OpenAIToolCall {
+	id: string;
+	type: 'function';
+	function: {
+		name: string;
+		arguments: string;
+	};
+}
+
+/**
+ * Chat completions message format for API requests
+ */
+interface OpenAIMessage {
+	role: 'system' | 'user' | 'assistant' | 'tool';
+	content: string | null;
+	tool_calls?: OpenAIToolCall[];
+	tool_call_id?: string;
+}
+
+/**
+ * Single server-sent event chunk of a streamed completion
+ */
+interface OpenAIStreamChunk {
+	choices?: Array<{
+		index: number;
+		delta: {
+			role?: string;
+			content?: string | null;
+			tool_calls?: Array<{
+				index: number;
+				id?: string;
+				type?: 'function';
+				function?: {
+					name?: string;
+					arguments?: string;
+				};
+			}>;
+		};
+		finish_reason?: string | null;
+	}>;
+	usage?: {
+		prompt_tokens?: number;
+		completion_tokens?: number;
+		total_tokens?: number;
+	};
+}
+
+/**
+ * Completed response assembled from the stream
+ */
+interface OpenAICompletion {
+	content: string;
+	toolCalls: OpenAIToolCall[];
+	usage?: TokenUsage;
+}
+
+/**
+ * Converts universal ChatHistory to chat completions messages, keeping every part.
+ * The universal format has no tool call IDs, so they are generated here and
+ * matched to the following function responses by tool name. Attachments are
+ * inlined as text.
+ */
+function chatHistoryToOpenAIMessages(history: ChatHistory): OpenAIMessage[] {
+	const messages: OpenAIMessage[] = [];
+	let pendingCalls: OpenAIToolCall[] = [];
+
+	history.forEach((msg, msgIndex) => {
+		const text = getMessageText(msg);
+
+		if (msg.role === 'model') {
+			pendingCalls = msg.parts
+				.filter(isFunctionCallPart)
+				.map((part, partIndex) => ({
+					id: `call_${msgIndex}_${partIndex}`,
+					type: 'function' as const,
+					function: {
+						name: part.functionCall.name,
+						arguments: JSON.stringify(part.functionCall.args),
+					},
+				}));
+			messages.push({
+				role: 'assistant',
+				content: text || null,
+				...(pendingCalls.length > 0 && { tool_calls: [...pendingCalls] }),
+			});
+			return;
+		}
+
+		// Responses without a matching call can't be tool messages (strict servers
+		// reject unknown ids), so they are passed on as text
+		const unmatchedResults: string[] = [];
+		for (const part of msg.parts.filter(isFunctionResponsePart)) {
+			const result = JSON.stringify(part.functionResponse.response);
+			const matchIndex = pendingCalls.findIndex(
+				(call) => call.function.name === part.functionResponse.name,
+			);
+			if (matchIndex < 0) {
+				unmatchedResults.push(
+					`Wynik narzędzia ${part.functionResponse.name}: ${result}`,
+				);
+				continue;
+			}
+			const [call] = pendingCalls.splice(matchIndex, 1);
+			messages.push({
+				role: 'tool',
+				tool_call_id: call.id,
+				content: result,
+			});
+		}
+		const userText = [...unmatchedResults, ...(text ? [text] : [])].join('\n\n');
+		const attachments = msg.parts.filter(isAttachmentPart);
+		if (userText || attachments.length > 0) {
+			messages.push({
+				role: 'user',
+				content: appendAttachmentText(userText, attachments),
+			});
+		}
+	});
+
+	return messages;
+}
+
+/**
+ * Sampling parameters for model generation
+ */
+interface SamplingParams {
+	temperature: number;
+	top_p: number;
+	max_tokens?: number;
+}
+
+/**
+ * Connection settings shared by the client and its sessions
+ */
+interface ConnectionParams {
+	baseUrl: string;
+	apiKey: string;
+	timeout: number;
+}
+
+/**
+ * Builds request headers, adding the bearer token only when an API key is set.
+ */
+function buildHeaders(apiKey: string): Record<string, string> {
+	const headers: Record<string, string> = {
+		'Content-Type': 'application/json',
+	};
+	if (apiKey) {
+		headers.Authorization = `Bearer ${apiKey}`;
+	}
+	return headers;
+}
+
+/**
+ * Wrapper class that provides a chat session interface over chat completions.
+ * Supports function calling with automatic tool execution.
+ */
+export class OpenAICompatChatSession implements LLMChatSession {
+	private connection: ConnectionParams;
+	private modelName: string;
+	private _history: ChatHistory;
+	private systemInstruction: string;
+	private samplingParams: SamplingParams;
+	private toolsEnabled: boolean;
+	private toolsSupported: boolean = true; // Will be set to false if the server rejects tools
+	private tools: OllamaTool[];
+	private _openaiMessages: OpenAIMessage[] = [];
+	private tokenEstimator: TokenEstimator;
+
+	constructor(
+		connection: ConnectionParams,
+		modelName: string,
+		systemInstruction: string,
+		samplingParams: SamplingParams,
+		history: ChatHistory = [],
+		toolsEnabled: boolean = false,
+		tools: OllamaTool[] = [],
+		tokenEstimator: TokenEstimator = new TokenEstimator(),
+	) {
+		this.connection = connection;
+		this.modelName = modelName;
+		this.systemInstruction = systemInstruction;
+		this.samplingParams = samplingParams;
+		this._history = history;
+		this.toolsEnabled = toolsEnabled;
+		this.tools = tools;
+		this.tokenEstimator = tokenEstimator;
+	}
+
+	/**
+	 * Initializes chat completions messages with system instruction and history.
+	 */
+	private initializeOpenAIMessages(): void {
+		this._openaiMessages = [];
+		if (this.systemInstruction) {
+			this._openaiMessages.push({
+				role: 'system',
+				content: this.systemInstruction,
+			});
+		}
+		this._openaiMessages.push(...chatHistoryToOpenAIMessages(this._history));
+	}
+
+	/**
+	 * Makes a streaming chat completions request.
+	 * Text deltas are forwarded to onChunk; tool call deltas are merged by index.
+	 * The timeout applies to the response headers and then to each gap between chunks.
+	 * @param includeTools - Whether to include tools in the request (respects toolsSupported flag)
+	 */
+	private async makeCompletionRequest(
+		includeTools: boolean = true,
+		onChunk?: StreamChunkHandler,
+	): Promise<OpenAICompletion> {
+		const controller = new AbortController();
+		const timeoutId = setTimeout(
+			() => controller.abort(),
+			this.connection.timeout,
+		);
+
+		const requestBody: {
+			model: string;
+			messages: OpenAIMessage[];
+			stream: boolean;
+			stream_options: { include_usage: boolean };
+			temperature: number;
+			top_p: number;
+			max_tokens?: number;
+			tools?: OllamaTool[];
+		} = {
+			model: this.modelName,
+			messages: this._openaiMessages,
+			stream: true,
+			// Without this, streamed completions carry no token counts
+			stream_options: { include_usage: true },
+			temperature: this.samplingParams.temperature,
+			top_p: this.samplingParams.top_p,
+			max_tokens: this.samplingParams.max_tokens,
+		};
+
+		if (
+			includeTools &&
+			this.toolsEnabled &&
+			this.toolsSupported &&
+			this.tools.length > 0
+		) {
+			requestBody.tools = this.tools;
+		}
+
+		const response = await fetch(
+			`${this.connection.baseUrl}/chat/completions`,
+			{
+				method: 'POST',
+				headers: buildHeaders(this.connection.apiKey),
+				body: JSON.stringify(requestBody),
+				signal: controller.signal,
+			},
+		);
+
+		clearTimeout(timeoutId);
+
+		if (!response.ok) {
+			const errorText = await response.text();
+			if (
+				requestBody.tools &&
+				isToolsNotSupportedError(response.status, errorText)
+			) {
+				throw new ToolsNotSupportedError(errorText);
+			}
+			throw new Error(
+				`OpenAI API error: ${response.status} ${response.statusText} - ${errorText}`,
+			);
+		}
+
+		if (!response.body) {
+			throw new Error('OpenAI API error: empty response body');
+		}
+
+		const completion = await this.readCompletionStream(
+			readWithIdleTimeout(response.body, controller, this.connection.timeout),
+			onChunk,
+		);
+
+		// The prompt's exact token count calibrates the history estimates
+		const promptChars = requestBody.messages.reduce(
+			(sum, message) =>
+				sum +
+				(message.content?.length || 0) +
+				(message.tool_calls || []).reduce(
+					(callSum, call) => callSum + call.function.arguments.length,
+					0,
+				),
+			requestBody.tools ? JSON.stringify(requestBody.tools).length : 0,
+		);
+		this.tokenEstimator.record(promptChars, completion.usage?.promptTokens || 0);
+
+		return completion;
+	}
+
+	/**
+	 * Reads server-sent events from a streamed completion until `[DONE]`.
+	 */
+	private async readCompletionStream(
+		body: AsyncIterable<Uint8Array>,
+		onChunk?: StreamChunkHandler,
+	): Promise<OpenAICompletion> {
+		const decoder = new TextDecoder();
+		const completion: OpenAICompletion = { content: '', toolCalls: [] };
+		let buffer = '';
+
+		const handleLine = (line: string): void => {
+			const trimmed = line.trim();
+			if (!trimmed.startsWith('data:')) {
+				return;
+			}
+			const payload = trimmed.slice(5).trim();
+			if (!payload || payload === '[DONE]') {
+				return;
+			}
+
+			const chunk = JSON.parse(payload) as OpenAIStreamChunk;
+			if (chunk.usage) {
+				completion.usage = createTokenUsage(
+					chunk.usage.prompt_tokens || 0,
+					chunk.usage.completion_tokens || 0,
+				);
+			}
+
+			const delta = chunk.choices?.[0]?.delta;
+			if (!delta) {
+				return;
+			}
+
+			if (delta.content) {
+				completion.content += delta.content;
+				onChunk?.(delta.content);
+			}
+
+			for (const toolDelta of delta.tool_calls || []) {
+				const existing = completion.toolCalls[toolDelta.index];
+				if (!existing) {
+					completion.toolCalls[toolDelta.index] = {
+						id: toolDelta.id || `call_${toolDelta.index}`,
+						type: 'function',
+						function: {
+							name: toolDelta.function?.name || '',
+							arguments: toolDelta.function?.arguments || '',
+						},
+					};
+				} else {
+					if (toolDelta.id) {
+						existing.id = toolDelta.id;
+					}
+					existing.function.name += toolDelta.function?.name || '';
+					existing.function.arguments += toolDelta.function?.arguments || '';
+				}
+			}
+		};
+
+		for await (const bytes of body) {
+			buffer += decoder.decode(bytes, { stream: true });
+			let newlineIndex = buffer.indexOf('\n');
+			while (newlineIndex !== -1) {
+				handleLine(buffer.slice(0, newlineIndex));
+				buffer = buffer.slice(newlineIndex + 1);
+				newlineIndex = buffer.indexOf('\n');
+			}
+		}
+		handleLine(buffer + decoder.decode());
+
+		// Drop holes left by servers that skip tool call indices
+		completion.toolCalls = completion.toolCalls.filter(Boolean);
+		return completion;
+	}
+
+	/**
+	 * Parses tool call arguments, tolerating empty or malformed JSON.
+	 */
+	private parseToolArguments(call: OpenAIToolCall): Record<string, unknown> {
+		if (!call.function.arguments.trim()) {
+			return {};
+		}
+		try {
+			return JSON.parse(call.function.arguments) as Record<string, unknown>;
+		} catch {
+			printError(
+				`✗ Niepoprawne argumenty narzędzia ${call.function.name}: ${call.function.arguments}`,
+			);
+			return {};
+		}
+	}
+
+	/**
+	 * Executes tool calls and returns tool result messages.
+	 * @param parsedArgs - Parsed arguments of each call, in the same order
+	 */
+	private async executeToolCalls(
+		toolCalls: OpenAIToolCall[],
+		parsedArgs: Record<string, unknown>[],
+	): Promise<{
+		messages: OpenAIMessage[];
+		results: FunctionResponsePart[];
+		clarificationQuestion?: string;
+	}> {
+		const toolMessages: OpenAIMessage[] = [];
+		const results: FunctionResponsePart[] = [];
+		let clarificationQuestion: string | undefined;
+
+		const addResult = (call: OpenAIToolCall, result: unknown): void => {
+			toolMessages.push({
+				role: 'tool',
+				tool_call_id: call.id,
+				content: JSON.stringify(result),
+			});
+			results.push(createFunctionResponsePart(call.function.name, result));
+		};
+
+		for (const [callIndex, call] of toolCalls.entries()) {
+			const toolName = call.function.name;
+			const toolArgs = parsedArgs[callIndex];
+
+			// Check for clarification request - handle it specially
+			if (toolName === CLARIFICATION_TOOL_NAME) {
+				const question = (toolArgs as { question?: string })?.question;
+				if (question) {
+					clarificationQuestion = question;
+				}
+				// Every tool call needs a matching tool message
+				addResult(call, {
+					status: 'clarification_requested',
+					message: 'Waiting for user clarification',
+				});
+				continue;
+			}
+
+			printInfo(`🔧 Wykonuję narzędzie: ${toolName}`);
+
+			try {
+				const result = await mcpClient.executeTool(toolName, toolArgs);
+				addResult(call, result);
+				printInfo(`✓ Narzędzie ${toolName} wykonane pomyślnie`);
+			} catch (error) {
+				const errorMessage = getErrorMessage(error);
+				printError(`✗ Błąd narzędzia ${toolName}: ${errorMessage}`);
+				addResult(call, { error: errorMessage });
+			}
+		}
+
+		return { messages: toolMessages, results, clarificationQuestion };
+	}
+
+	/**
+	 * Sends a message to the model and returns a response object.
+	 * Text is streamed to onChunk as it is generated.
+	 * Handles function calling loop if tools are enabled.
+	 * Returns early with clarificationNeeded if the model requests clarification.
+	 */
+	async sendMessage(
+		text: string,
+		onChunk?: StreamChunkHandler,
+		attachments: AttachmentPart[] = [],
+	): Promise<LLMResponse> {
+		if (this._openaiMessages.length === 0) {
+			this.initializeOpenAIMessages();
+		}
+
+		const userMessage: Message = {
+			role: 'user',
+			parts: [{ text }, ...attachments],
+		};
+		this._history.push(userMessage);
+
+		this._openaiMessages.push({
+			role: 'user',
+			content: appendAttachmentText(text, attachments),
+		});
+
+		let usage = createTokenUsage();
+
+		try {
+			// Function calling loop
+			while (true) {
+				let completion: OpenAICompletion;
+
+				try {
+					completion = await this.makeCompletionRequest(true, onChunk);
+				} catch (error) {
+					// If the server rejects tools, disable them and retry
+					if (error instanceof ToolsNotSupportedError) {
+						printInfo(
+							`⚠️ Model ${this.modelName} nie wspiera narzędzi - wyłączam function calling`,
+						);
+						this.toolsSupported = false;
+						completion = await this.makeCompletionRequest(false, onChunk);
+					} else {
+						throw error;
+					}
+				}
+
+				if (completion.usage) {
+					usage = addTokenUsage(usage, completion.usage);
+				}
+
+				if (
+					this.toolsEnabled &&
+					this.toolsSupported &&
+					completion.toolCalls.length > 0
+				) {
+					this._openaiMessages.push({
+						role: 'assistant',
+						content: completion.content || null,
+						tool_calls: completion.toolCalls,
+					});
+
+					const toolArgs = completion.toolCalls.map((call) =>
+						this.parseToolArguments(call),
+					);
+					const {
+						messages: toolMessages,
+						results,
+						clarificationQuestion,
+					} = await this.executeToolCalls(completion.toolCalls, toolArgs);
+
+					this._openaiMessages.push(...toolMessages);
+
+					// Record the tool round in the universal history so it survives save/load
+					this._history.push({
+						role: 'model',
+						parts: [
+							...(completion.content ? [{ text: completion.content }] : []),
+							...completion.toolCalls.map((call, callIndex) =>
+								createFunctionCallPart(call.function.name, toolArgs[callIndex]),
+							),
+						],
+					});
+					this._history.push({ role: 'user', parts: results });
+
+					if (clarificationQuestion) {
+						return {
+							text: '',
+							usage: usage.totalTokens > 0 ? usage : undefined,
+							clarificationNeeded: { question: clarificationQuestion },
+						};
+					}
+
+					continue;
+				}
+
+				// No more tool calls - we have the final response
+				const responseText = completion.content;
+
+				this._openaiMessages.push({
+					role: 'assistant',
+					content: responseText,
+				});
+
+				const assistantMessage: Message = {
+					role: 'model',
+					parts: [{ text: responseText }],
+				};
+				this._history.push(assistantMessage);
+
+				return {
+					text: responseText,
+					usage: usage.totalTokens > 0 ? usage : undefined,
+				};
+			}
+		} catch (error) {
+			if (error instanceof Error && error.name === 'AbortError') {
+				printError('Timeout podczas połączenia z serwerem OpenAI-compatible');
+			} else {
+				printError(`Błąd podczas generowania odpowiedzi: ${error}`);
+			}
+
+			const errorText =
+				'Przepraszam, wystąpił błąd podczas generowania odpowiedzi.';
+			const assistantMessage: Message = {
+				role: 'model',
+				parts: [{ text: errorText }],
+			};
+			this._history.push(assistantMessage);
+			return { text: errorText, failed: true };
+		}
+	}
+
+	/**
+	 * Returns the current conversation history.
+	 */
+	async getHistory(): Promise<ChatHistory> {
+		return this._history;
+	}
+}
+
+/**
+ * Encapsulates all OpenAI-compatible chat completions interactions.
+ */
+export class OpenAICompatClient implements LLMClient {
+	private modelName: string;
+	private connection: ConnectionParams;
+	private samplingParams: SamplingParams;
+	private contextTokens: number;
+	private enabledTools: string[] | undefined;
+	private isConnected: boolean = false;
+	private tokenEstimator = new TokenEstimator();
+
+	constructor(
+		modelName: string,
+		baseUrl: string,
+		apiKey: string = '',
+		timeout: number = 60000,
+		samplingParams: SamplingParams = { temperature: 0.8, top_p: 0.9 },
+		contextTokens: number = 8192,
+		enabledTools?: string[],
+	) {
+		if (!baseUrl) {
+			throw new Error('Base URL cannot be empty');
+		}
+
+		this.modelName = modelName;
+		this.connection = {
+			baseUrl: baseUrl.replace(/\/$/, ''), // Remove trailing slash
+			apiKey,
+			timeout,
+		};
+		this.samplingParams = samplingParams;
+		this.contextTokens = contextTokens;
+		this.enabledTools = enabledTools;
+	}
+
+	/**
+	 * Returns a message indicating that the client is being prepared.
+	 */
+	static preparingForUseMessage(): string {
+		return '🔌 Przygotowywanie klienta OpenAI-compatible...';
+	}
+
+	/**
+	 * Lists the models served by the endpoint (GET /models).
+	 */
+	static async listModels(): Promise<[string[], string | null]> {
+		config();
+		const baseUrl = (
+			process.env.OPENAI_COMPAT_BASE_URL || 'http://localhost:8000/v1'
+		).replace(/\/$/, '');
+
+		try {
+			const controller = new AbortController();
+			const timeoutId = setTimeout(() => controller.abort(), 5000);
+
+			const response = await fetch(`${baseUrl}/models`, {
+				headers: buildHeaders(
+					process.env.OPENAI_COMPAT_API_KEY?.trim() || '',
+				),
+				signal: controller.signal,
+			});
+
+			clearTimeout(timeoutId);
+
+			if (!response.ok) {
+				return [[], `Serwer zwrócił błąd ${response.status}`];
+			}
+
+			const data = (await response.json()) as { data?: Array<{ id: string }> };
+			return [(data.data || []).map((model) => model.id).sort(), null];
+		} catch (error) {
+			return [[], `Nie można połączyć się z serwerem (${baseUrl}): ${error}`];
+		}
+	}
+
+	/**
+	 * Factory method that creates an OpenAICompatClient instance from environment variables.
+	 * Chat completions has no top_k, so an assistant's topK option is ignored.
+	 */
+	static fromEnvironment(options: LLMClientOptions = {}): OpenAICompatClient {
+		config();
+
+		// Validation with Zod
+		const configData = OpenAICompatConfigSchema.parse({
+			engine: 'OPENAI_COMPAT',
+			modelName:
+				options.modelName || process.env.OPENAI_COMPAT_MODEL_NAME || '',
+			openaiBaseUrl:
+				process.env.OPENAI_COMPAT_BASE_URL || 'http://localhost:8000/v1',
+			openaiApiKey: process.env.OPENAI_COMPAT_API_KEY || '',
+			openaiTimeout: parseInt(process.env.OPENAI_COMPAT_TIMEOUT || '60000', 10),
+			openaiContextTokens: parseInt(
+				process.env.OPENAI_COMPAT_CONTEXT_TOKENS || '8192',
+				10,
+			),
+			openaiTemperature:
+				options.temperature ??
+				parseFloat(process.env.OPENAI_COMPAT_TEMPERATURE || '0.8'),
+			openaiTopP:
+				options.topP ?? parseFloat(process.env.OPENAI_COMPAT_TOP_P || '0.9'),
+			openaiMaxTokens: options.maxOutputTokens,
+		});
+
+		printInfo(`Łączenie z serwerem: ${configData.openaiBaseUrl}`);
+		printInfo(`Model: ${configData.modelName}`);
+		printInfo(
+			`Parametry: Temperature=${configData.openaiTemperature}, Top-P=${configData.openaiTopP}`,
+		);
+
+		return new OpenAICompatClient(
+			configData.modelName,
+			configData.openaiBaseUrl,
+			configData.openaiApiKey,
+			configData.openaiTimeout,
+			{
+				temperature: configData.openaiTemperature,
+				top_p: configData.openaiTopP,
+				max_tokens: configData.openaiMaxTokens,
+			},
+			configData.openaiContextTokens,
+			options.tools,
+		);
+	}
+
+	/**
+	 * Checks if the server is available by listing its models.
+	 */
+	async checkConnection(): Promise<boolean> {
+		try {
+			const controller = new AbortController();
+			const timeoutId = setTimeout(() => controller.abort(), 5000);
+
+			const response = await fetch(`${this.connection.baseUrl}/models`, {
+				headers: buildHeaders(this.connection.apiKey),
+				signal: controller.signal,
+			});
+
+			clearTimeout(timeoutId);
+
+			if (response.ok) {
+				this.isConnected = true;
+				return true;
+			}
+
+			printError(
+				`Serwer odpowiedział błędem: ${response.status} ${response.statusText}`,
+			);
+			return false;
+		} catch (error) {
+			printError(`Nie można połączyć się z serwerem: ${error}`);
+			return false;
+		}
+	}
+
+	/**
+	 * Initializes the client by checking connection.
+	 */
+	async initializeModel(): Promise<void> {
+		printInfo('Sprawdzanie połączenia z serwerem OpenAI-compatible...');
+		const connected = await this.checkConnection();
+
+		if (!connected) {
+			throw new Error(
+				`Nie można połączyć się z serwerem pod adresem ${this.connection.baseUrl}. ` +
+					'Sprawdź OPENAI_COMPAT_BASE_URL i OPENAI_COMPAT_API_KEY.',
+			);
+		}
+
+		printInfo('Połączenie z serwerem ustanowione pomyślnie');
+	}
+
+	/**
+	 * Creates a new chat session with the specified configuration.
+	 * Optionally enables tool/function calling capabilities.
+	 */
+	async createChatSession(
+		systemInstruction: string,
+		history: ChatHistory = [],
+		_thinkingBudget: number = 0,
+		enableTools: boolean = true,
+	): Promise<OpenAICompatChatSession> {
+		const tools = enableTools
+			? convertToOllamaTools(selectTools(this.enabledTools))
+			: [];
+
+		return new OpenAICompatChatSession(
+			this.connection,
+			this.modelName,
+			systemInstruction,
+			this.samplingParams,
+			history,
+			tools.length > 0,
+			tools,
+			this.tokenEstimator,
+		);
+	}
+
+	/**
+	 * Counts tokens for the given conversation history.
+	 * Note: chat completions has no standard token counting endpoint, so the count
+	 * is estimated from the characters per token of the prompts sent so far.
+	 */
+	async countHistoryTokens(history: ChatHistory): Promise<number> {
+		if (!history || history.length === 0) {
+			return 0;
+		}
+
+		const totalChars = history.reduce((sum, msg) => {
+			return sum + getMessageText(msg).length;
+		}, 0);
+
+		return this.tokenEstimator.estimate(totalChars);
+	}
+
+	/**
+	 * Returns the context budget (in tokens) configured for the served model.
+	 */
+	getMaxContextTokens(): number {
+		return this.contextTokens;
+	}
+
+	/**
+	 * Chat completions history token counts are estimates.
+	 */
+	estimatesTokenCounts(): boolean {
+		return true;
+	}
+
+	/**
+	 * Returns the currently configured model name.
+	 */
+	getModelName(): string {
+		return this.modelName;
+	}
+
+	/**
+	 * Checks if the LLM service is available and properly configured.
+	 */
+	isAvailable(): boolean {
+		return this.isConnected;
+	}
+
+	/**
+	 * Returns a ready-to-use message with model info and parameters.
+	 */
+	readyForUseMessage(): string {
+		const keyInfo = this.connection.apiKey ? 'Key: ****' : 'bez klucza';
+		return `✅ Klient OpenAI-compatible gotowy do użycia (Model: ${this.modelName}, URL: ${this.connection.baseUrl}, ${keyInfo}, T=${this.samplingParams.temperature}, TopP=${this.samplingParams.top_p})`;
+	}
+}
@@ -0,0 +1,51 @@
+import { z } from 'zod';
+
+export const OpenAICompatConfigSchema = z.object({
+	engine: z.literal('OPENAI_COMPAT').default('OPENAI_COMPAT'),
+	modelName: z
+		.string()
+		.min(1, 'OPENAI_COMPAT_MODEL_NAME nie może być pusty')
+		.describe('Nazwa modelu serwowanego przez endpoint'),
+	openaiBaseUrl: z
+		.string()
+		.url('OPENAI_COMPAT_BASE_URL musi być prawidłowym URL')
+		.default('http://localhost:8000/v1')
+		.describe('URL bazowy API (zawierający /v1)'),
+	openaiApiKey: z
+		.string()
+		.transform((val) => val.trim())
+		.default('')
+		.describe('Klucz API (opcjonalny dla serwerów lokalnych)'),
+	openaiTimeout: z
+		.number()
+		.int()
+		.min(1000)
+		.default(60000)
+		.describe('Timeout dla requestów w milisekundach'),
+	openaiContextTokens: z
+		.number()
+		.int()
+		.min(512)
+		.default(8192)
+		.describe('Rozmiar okna kontekstu modelu w tokenach'),
+	openaiTemperature: z
+		.number()
+		.min(0)
+		.max(2)
+		.default(0.8)
+		.describe('Temperatura próbkowania (0-2)'),
+	openaiTopP: z
+		.number()
+		.min(0)
+		.max(1)
+		.default(0.9)
+		.describe('Top P próbkowania (0-1)'),
+	openaiMaxTokens: z
+		.number()
+		.int()
+		.min(1)
+		.optional()
+		.describe('Maksymalna liczba tokenów odpowiedzi (max_tokens)'),
+});
+
+export type OpenAICompatConfig = z.infer<typeof OpenAICompatConfigSchema>;
@@ -40,6 +40,13 @@ function getServerConfig(): { command: string; args: string[] } {
 export interface ThreadInfo {
 	filename: string;
 	updated_at: string;
+	session_id: string;
+	title?: string;
+	tags?: string[];
+	messages_count?: number;
+	created_at?: string;
+	model?: string;
+	assistant_id?: string;
 }
 
 export interface ListThreadsResult {
@@ -72,6 +79,21 @@ export interface GetThreadDataResult {
 	messages?: ThreadMessage[];
 }
 
+export interface ThreadSearchResult {
+	session_id: string;
+	title?: string;
+	message_index: number;
+	timestamp: string;
+	score: number;
+	text: string;
+}
+
+export interface SearchThreadsResult {
+	success: boolean;
+	message?: string;
+	results: ThreadSearchResult[];
+}
+
 interface TextContent {
 	type: 'text';
 	text: string;
@@ -197,6 +219,30 @@ class MCPClient {
 		return { success: false, message: 'Unknown error' };
 	}
 
+	/**
+	 * Finds the exchanges of stored sessions semantically closest to a query.
+	 */
+	async searchThreads(
+		query: string,
+		limit?: number,
+	): Promise<SearchThreadsResult> {
+		const client = await this.ensureConnected();
+		const result = await client.callTool({
+			name: 'search_threads',
+			arguments: { query, ...(limit !== undefined && { limit }) },
+		});
+
+		const content = result.content as ToolResultContent[];
+		const textContent = content.find(
+			(c): c is TextContent => c.type === 'text',
+		);
+		if (textContent) {
+			return JSON.parse(textContent.text) as SearchThreadsResult;
+		}
+
+		return { success: false, message: 'Unknown error', results: [] };
+	}
+
 	/**
 	 * Executes a tool by name with given arguments.
 	 * Used by the LLM function calling integration.
@@ -212,6 +258,11 @@ class MCPClient {
 				return await this.deleteThread(args.filename as string);
 			case 'get_thread_data':
 				return await this.getThreadData(args.filename as string);
+			case 'search_threads':
+				return await this.searchThreads(
+					args.query as string,
+					args.limit as number | undefined,
+				);
 			default:
 				throw new Error(`Unknown tool: ${name}`);
 		}
@@ -3,7 +3,6 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
 	existsSync,
-	readdirSync,
 	readFileSync,
 	statSync,
 	unlinkSync,
@@ -11,6 +10,9 @@ import {
 import { join } from 'path';
 import { z } from 'zod';
 import { LOG_DIR } from '../files/config.js';
+import { listSessions, removeSessionFile } from '../files/sessionFiles.js';
+import { recallExchanges } from '../files/vectorIndex.js';
+import { createEmbeddingProvider } from '../llm/embeddings.js';
 import { getErrorMessage } from '../utils/errorUtils.js';
 
 const server = new McpServer({
@@ -75,20 +77,27 @@ function createResponse<T extends object>(output: T) {
 
 /**
  * Tool: list_threads
- * Scans ~/.azor/ directory for .json files and returns their filenames with modification timestamps.
+ * Lists the sessions stored in ~/.azor/ with their metadata, read from the session index.
  */
 server.registerTool(
 	'list_threads',
 	{
 		title: 'List Threads',
 		description:
-			'Scans the ~/.azor/ directory for .json files and returns a list with filenames and last modified timestamps.',
+			'Lists the chat sessions stored in the ~/.azor/ directory with their filenames, last modified timestamps and metadata (title, tags, message count, model, assistant).',
 		inputSchema: {},
 		outputSchema: {
 			threads: z.array(
 				z.object({
 					filename: z.string(),
 					updated_at: z.string(),
+					session_id: z.string(),
+					title: z.string().optional(),
+					tags: z.array(z.string()).optional(),
+					messages_count: z.number().optional(),
+					created_at: z.string().optional(),
+					model: z.string().optional(),
+					assistant_id: z.string().optional(),
 				}),
 			),
 		},
@@ -98,17 +107,21 @@ server.registerTool(
 			return createResponse({ threads: [] });
 		}
 
-		const files = readdirSync(LOG_DIR);
-		const jsonFiles = files.filter((f) => f.endsWith('.json'));
-
-		const threads = jsonFiles.map((filename) => {
-			const filePath = join(LOG_DIR, filename);
-			const stats = statSync(filePath);
-			return {
-				filename,
-				updated_at: stats.mtime.toISOString(),
-			};
-		});
+		const threads = listSessions().map((session) => ({
+			filename: `${session.id}-log.json`,
+			updated_at:
+				session.modified_at ||
+				statSync(join(LOG_DIR, `${session.id}-log.json`)).mtime.toISOString(),
+			session_id: session.id,
+			...(session.title && { title: session.title }),
+			...(session.tags && { tags: session.tags }),
+			...(session.messages_count !== undefined && {
+				messages_count: session.messages_count,
+			}),
+			...(session.created_at && { created_at: session.created_at }),
+			...(session.model && { model: session.model }),
+			...(session.assistant_id && { assistant_id: session.assistant_id }),
+		}));
 
 		return createResponse({ threads });
 	},
@@ -153,7 +166,17 @@ server.registerTool(
 		}
 
 		try {
-			unlinkSync(filePath);
+			if (filename.endsWith('-log.json')) {
+				// Also leaves a WAL tombstone and drops the session from the index
+				const [success, error] = removeSessionFile(
+					filename.replace('-log.json', ''),
+				);
+				if (!success) {
+					throw new Error(error || 'Unknown error');
+				}
+			} else {
+				unlinkSync(filePath);
+			}
 			return createResponse({
 				success: true,
 				message: `Successfully deleted "${filename}".`,
@@ -250,6 +273,70 @@ server.registerTool(
 	},
 );
 
+/**
+ * Tool: search_threads
+ * Finds the exchanges of stored sessions semantically closest to a query.
+ */
+server.registerTool(
+	'search_threads',
+	{
+		title: 'Search Threads',
+		description:
+			'Searches all stored sessions in the ~/.azor/ directory by meaning and returns the most relevant exchanges (prompt and answer) with their similarity scores.',
+		inputSchema: {
+			query: z
+				.string()
+				.min(1, 'Query cannot be empty')
+				.describe('What to look for, e.g. a question or a topic'),
+			limit: z
+				.number()
+				.int()
+				.min(1)
+				.max(20)
+				.default(5)
+				.describe('Maximum number of results'),
+		},
+		outputSchema: {
+			success: z.boolean(),
+			message: z.string().optional(),
+			results: z.array(
+				z.object({
+					session_id: z.string(),
+					title: z.string().optional(),
+					message_index: z.number(),
+					timestamp: z.string(),
+					score: z.number(),
+					text: z.string(),
+				}),
+			),
+		},
+	},
+	async ({ query, limit }) => {
+		const [provider, providerError] = createEmbeddingProvider();
+		if (!provider) {
+			return createResponse({
+				success: false,
+				message: providerError || 'Embeddings are not configured.',
+				results: [],
+			});
+		}
+
+		const [hits, error] = await recallExchanges(provider, query, limit);
+		return createResponse({
+			success: hits.length > 0 || !error,
+			...(error && { message: error }),
+			results: hits.map((hit) => ({
+				session_id: hit.sessionId,
+				...(hit.title && { title: hit.title }),
+				message_index: hit.messageIndex,
+				timestamp: hit.timestamp,
+				score: Math.round(hit.score * 1000) / 1000,
+				text: hit.text,
+			})),
+		});
+	},
+);
+
 // Connect via stdio transport
 const transport = new StdioServerTransport();
 await server.connect(transport);
@@ -0,0 +1,75 @@
+/**
+ * Conversation branches
+ * A session stores a tree of messages. Each branch is named by its last message;
+ * the session history is the path of the checked out branch, from its first message
+ * to that head.
+ */
+
+import type { Branch, ChatHistory, SessionBranches } from '../types.js';
+
+/** Branch every session starts on */
+export const MAIN_BRANCH = 'main';
+
+const BRANCH_NAME_PATTERN = /^[\w.-]+$/;
+
+/**
+ * A branch with the messages on its path.
+ */
+export interface BranchInfo {
+	branch: Branch;
+	path: ChatHistory;
+	active: boolean;
+}
+
+/**
+ * Creates the branches of a new session: a single, empty main branch.
+ */
+export function createSessionBranches(): SessionBranches {
+	return {
+		active: MAIN_BRANCH,
+		branches: [
+			{ name: MAIN_BRANCH, headId: null, createdAt: new Date().toISOString() },
+		],
+		messages: [],
+	};
+}
+
+/**
+ * Returns the first free name of the form `branch-N`.
+ */
+export function nextBranchName(branches: Branch[]): string {
+	const names = new Set(branches.map((branch) => branch.name));
+	let number = branches.length;
+	while (names.has(`branch-${number}`)) {
+		number++;
+	}
+	return `branch-${number}`;
+}
+
+/**
+ * Returns the name under which a branch keeps its previous variant when an exchange
+ * is regenerated: `<branch>.v1`, `<branch>.v2`, ...
+ */
+export function nextVariantName(branchName: string, branches: Branch[]): string {
+	const names = new Set(branches.map((branch) => branch.name));
+	let number = 1;
+	while (names.has(`${branchName}.v${number}`)) {
+		number++;
+	}
+	return `${branchName}.v${number}`;
+}
+
+/**
+ * Checks that a name can be given to a new branch.
+ * @throws Error if the name is invalid or already taken
+ */
+export function validateBranchName(name: string, branches: Branch[]): void {
+	if (!BRANCH_NAME_PATTERN.test(name)) {
+		throw new Error(
+			`Nazwa gałęzi może zawierać tylko litery, cyfry, '_', '-' i '.', otrzymano: '${name}'`,
+		);
+	}
+	if (branches.some((branch) => branch.name === name)) {
+		throw new Error(`Gałąź '${name}' już istnieje`);
+	}
+}
@@ -0,0 +1,72 @@
+/**
+ * Budget tests
+ * Usage is logged to a WAL in a temporary HOME; spend must not depend on the WAL files
+ * that rotation may drop.
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+
+// Paths under ~/.azor are fixed when the config module loads, so HOME is set first
+process.env.HOME = mkdtempSync(join(tmpdir(), 'azor-budget-test-'));
+
+const { USAGE_LEDGER_FILE, WAL_FILE } = await import('../files/config.js');
+const { appendToWAL, appendUsageToWAL } = await import('../files/wal.js');
+const { computeSpend, loadBudgetLimits } = await import('./budget.js');
+
+/** 1M prompt and 1M completion tokens of gemini-2.5-flash cost $2.80 */
+const MILLION_TOKENS = { promptTokens: 1_000_000, completionTokens: 1_000_000, totalTokens: 2_000_000 };
+
+describe('computeSpend', () => {
+  it('counts turns and title requests of the session and of today', () => {
+    appendToWAL('budget-a', 'one', 'echo: one', 10, 'gemini-2.5-flash', 'azor', [], MILLION_TOKENS);
+    appendUsageToWAL('budget-a', 'gemini-2.5-flash', MILLION_TOKENS, 'title');
+    appendToWAL('budget-b', 'two', 'echo: two', 10, 'local-model', 'azor', [], MILLION_TOKENS);
+
+    const [spend] = computeSpend('budget-a');
+
+    assert.equal(spend.sessionCost.toFixed(2), '5.60');
+    assert.equal(spend.dailyCost.toFixed(2), '5.60');
+    assert.equal(spend.unpricedSessionTurns, 0);
+    assert.equal(spend.unpricedDailyTurns, 1);
+  });
+
+  it('keeps the totals once the WAL file is gone', () => {
+    const [before] = computeSpend('budget-a');
+
+    rmSync(WAL_FILE);
+    appendToWAL('budget-a', 'three', 'echo: three', 10, 'gemini-2.5-flash', 'azor', [], MILLION_TOKENS);
+
+    const [after] = computeSpend('budget-a');
+    assert.equal((after.sessionCost - before.sessionCost).toFixed(2), '2.80');
+    assert.equal((after.dailyCost - before.dailyCost).toFixed(2), '2.80');
+  });
+
+  it('rebuilds a missing ledger from the WAL files still on disk', () => {
+    rmSync(USAGE_LEDGER_FILE);
+
+    // Only the turn logged after the WAL file was removed is left
+    const [spend] = computeSpend('budget-a');
+    assert.equal(spend.sessionCost.toFixed(2), '2.80');
+  });
+});
+
+describe('loadBudgetLimits', () => {
+  it('reports invalid limits and keeps the valid ones', () => {
+    process.env.BUDGET_SESSION_HARD_USD = '1,50';
+    process.env.BUDGET_DAILY_HARD_USD = '5';
+    try {
+      const [limits, error] = loadBudgetLimits();
+
+      assert.equal(limits.sessionHard, null);
+      assert.equal(limits.dailyHard, 5);
+      assert.match(error ?? '', /BUDGET_SESSION_HARD_USD/);
+    } finally {
+      delete process.env.BUDGET_SESSION_HARD_USD;
+      delete process.env.BUDGET_DAILY_HARD_USD;
+    }
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Cost estimation and budget limits
+ * Spend is computed from the usage ledger and the pricing table, so it survives
+ * restarts and WAL rotation.
+ * Soft limits only warn; once a hard limit is reached no further messages are sent.
+ */
+
+import { z } from 'zod';
+import {
+	estimateCost,
+	findModelPrice,
+	loadPricingTable,
+	type PricingTable,
+} from '../files/pricing.js';
+import type { TotalsByModel } from '../files/usageLedger.js';
+import { getLocalDay, readUsageLedger } from '../files/wal.js';
+import type { TokenUsage } from '../types.js';
+
+const LimitSchema = z.number().positive().nullable();
+
+const BudgetConfigSchema = z.object({
+	sessionSoft: LimitSchema.describe('Miękki limit kosztu sesji (USD)'),
+	sessionHard: LimitSchema.describe('Twardy limit kosztu sesji (USD)'),
+	dailySoft: LimitSchema.describe('Miękki dzienny limit kosztu (USD)'),
+	dailyHard: LimitSchema.describe('Twardy dzienny limit kosztu (USD)'),
+});
+
+export type BudgetLimits = z.infer<typeof BudgetConfigSchema>;
+
+/**
+ * Estimated spend of a session and of the current day (USD).
+ */
+export interface Spend {
+	sessionCost: number;
+	dailyCost: number;
+	/** Requests of the session with token counts but no price for their model */
+	unpricedSessionTurns: number;
+	/** Today's requests with token counts but no price for their model */
+	unpricedDailyTurns: number;
+}
+
+export type BudgetLevel = 'ok' | 'soft' | 'hard';
+
+export interface BudgetStatus {
+	level: BudgetLevel;
+	messages: string[];
+}
+
+/** Environment variable of each limit */
+const LIMIT_VARIABLES: Record<keyof BudgetLimits, string> = {
+	sessionSoft: 'BUDGET_SESSION_SOFT_USD',
+	sessionHard: 'BUDGET_SESSION_HARD_USD',
+	dailySoft: 'BUDGET_DAILY_SOFT_USD',
+	dailyHard: 'BUDGET_DAILY_HARD_USD',
+};
+
+function readLimit(name: string): number | null {
+	const value = process.env[name];
+	return value ? Number(value) : null;
+}
+
+/**
+ * Reads the budget limits from BUDGET_SESSION_SOFT_USD, BUDGET_SESSION_HARD_USD,
+ * BUDGET_DAILY_SOFT_USD and BUDGET_DAILY_HARD_USD. Unset limits are null;
+ * limits that are not positive numbers are reported and left unset.
+ *
+ * @returns [limits, error_message]
+ */
+export function loadBudgetLimits(): [BudgetLimits, string | null] {
+	const values = {
+		sessionSoft: readLimit(LIMIT_VARIABLES.sessionSoft),
+		sessionHard: readLimit(LIMIT_VARIABLES.sessionHard),
+		dailySoft: readLimit(LIMIT_VARIABLES.dailySoft),
+		dailyHard: readLimit(LIMIT_VARIABLES.dailyHard),
+	};
+
+	const parsed = BudgetConfigSchema.safeParse(values);
+	if (parsed.success) {
+		return [parsed.data, null];
+	}
+
+	const limits = { ...values };
+	const issues = parsed.error.issues.map((issue) => {
+		const key = issue.path[0] as keyof BudgetLimits;
+		limits[key] = null;
+		return `${LIMIT_VARIABLES[key]}: ${issue.message}`;
+	});
+	return [
+		limits,
+		`Nieprawidłowe limity budżetu (pominięte): ${issues.join('; ')}`,
+	];
+}
+
+/**
+ * Checks whether any budget limit is configured.
+ */
+export function hasBudgetLimits(limits: BudgetLimits): boolean {
+	return Object.values(limits).some((limit) => limit !== null);
+}
+
+/**
+ * Prices per-model token totals.
+ *
+ * @returns [cost, unpriced_requests]
+ */
+function priceTotals(
+	pricing: PricingTable,
+	totalsByModel: TotalsByModel = {},
+): [number, number] {
+	let cost = 0;
+	let unpriced = 0;
+	for (const [model, totals] of Object.entries(totalsByModel)) {
+		const price = findModelPrice(pricing, model);
+		if (price) {
+			cost += estimateCost(price, totals.prompt_tokens, totals.completion_tokens);
+		} else {
+			unpriced += totals.metered;
+		}
+	}
+	return [cost, unpriced];
+}
+
+/**
+ * Estimates the cost of the session and of today from the usage ledger,
+ * including the requests for titles and context summaries.
+ * Turns logged without token counts cost nothing in the estimate.
+ *
+ * @returns [spend, warning_message] - warning is set if the pricing file is invalid
+ */
+export function computeSpend(sessionId: string): [Spend, string | null] {
+	const [pricing, pricingError] = loadPricingTable();
+	const ledger = readUsageLedger();
+
+	const [sessionCost, unpricedSessionTurns] = priceTotals(
+		pricing,
+		ledger.sessions[sessionId],
+	);
+	const [dailyCost, unpricedDailyTurns] = priceTotals(
+		pricing,
+		ledger.days[getLocalDay(new Date())],
+	);
+
+	return [
+		{ sessionCost, dailyCost, unpricedSessionTurns, unpricedDailyTurns },
+		pricingError,
+	];
+}
+
+/**
+ * Estimates the cost of a single turn, or null if the model has no price.
+ */
+export function estimateTurnCost(
+	modelName: string,
+	usage: TokenUsage,
+): number | null {
+	const [pricing] = loadPricingTable();
+	const price = findModelPrice(pricing, modelName);
+	return price
+		? estimateCost(price, usage.promptTokens, usage.completionTokens)
+		: null;
+}
+
+/**
+ * Formats a cost in USD with enough precision for single turns.
+ */
+export function formatCost(cost: number): string {
+	return `$${cost.toFixed(4)}`;
+}
+
+/**
+ * Compares spend with the limits. Hard limits take precedence over soft ones.
+ */
+export function checkBudget(spend: Spend, limits: BudgetLimits): BudgetStatus {
+	const checks: Array<[number, number | null, BudgetLevel, string]> = [
+		[spend.sessionCost, limits.sessionHard, 'hard', 'Twardy limit sesji'],
+		[spend.dailyCost, limits.dailyHard, 'hard', 'Twardy limit dzienny'],
+		[spend.sessionCost, limits.sessionSoft, 'soft', 'Miękki limit sesji'],
+		[spend.dailyCost, limits.dailySoft, 'soft', 'Miękki limit dzienny'],
+	];
+
+	const status: BudgetStatus = { level: 'ok', messages: [] };
+	for (const [cost, limit, level, label] of checks) {
+		if (limit === null || cost < limit) {
+			continue;
+		}
+		status.messages.push(
+			`${label} został osiągnięty: ${formatCost(cost)} z ${formatCost(limit)}.`,
+		);
+		if (status.level !== 'hard') {
+			status.level = level;
+		}
+	}
+
+	return status;
+}
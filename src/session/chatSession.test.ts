@@ -0,0 +1,242 @@
+/**
+ * Chat session tests
+ * Sessions run on a scripted engine with HOME in a temporary directory.
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { before, beforeEach, describe, it } from 'node:test';
+import type { AttachmentPart, ChatHistory, LLMClient, StreamChunkHandler } from '../types.js';
+
+// Paths under ~/.azor are fixed when the config module loads, so HOME is set first
+process.env.HOME = mkdtempSync(join(tmpdir(), 'azor-session-test-'));
+process.env.ENGINE = 'SESSION_TEST';
+
+const { registerEngine } = await import('../llm/engineRegistry.js');
+const { createAssistant } = await import('../assistant/assistants.js');
+const { ChatSession } = await import('./chatSession.js');
+const { loadSessionHistory } = await import('../files/sessionFiles.js');
+const { readWALRecords } = await import('../files/wal.js');
+const { recoverSessionsFromWAL } = await import('../files/walRecovery.js');
+
+/** Number of the reply (counted from 1 across all sessions) that gets the error fallback */
+let failingReply: number | null = null;
+/** Number of the reply whose request throws, like a dropped connection */
+let throwingReply: number | null = null;
+let replies = 0;
+/** Engine sessions not disposed yet */
+let openSessions = 0;
+
+/**
+ * Client answering every prompt with "echo: <prompt>", or with the error fallback
+ * the local engines return for the reply numbered failingReply. The request for the
+ * reply numbered throwingReply throws before anything is recorded.
+ */
+function createEchoClient(): LLMClient {
+  return {
+    createChatSession(_systemInstruction: string, history: ChatHistory = []) {
+      const messages = [...history];
+      openSessions++;
+      return {
+        async sendMessage(text: string, _onChunk?: StreamChunkHandler, attachments: AttachmentPart[] = []) {
+          if (++replies === throwingReply) {
+            throw new Error('connection reset');
+          }
+          const failed = replies === failingReply;
+          const reply = failed ? 'error' : `echo: ${text}`;
+          messages.push(
+            { role: 'user', parts: [{ text }, ...attachments] },
+            { role: 'model', parts: [{ text: reply }] }
+          );
+          return { text: reply, ...(failed && { failed }) };
+        },
+        async getHistory() {
+          return messages;
+        },
+        async dispose() {
+          openSessions--;
+        }
+      };
+    },
+    async countHistoryTokens(history: ChatHistory) {
+      return history.length;
+    },
+    getModelName: () => 'echo',
+    getMaxContextTokens: () => 100000,
+    isAvailable: () => true,
+    readyForUseMessage: () => 'echo ready'
+  };
+}
+
+/**
+ * Starts a session and sends the given prompts.
+ */
+async function startSession(prompts: string[]): Promise<InstanceType<typeof ChatSession>> {
+  const session = new ChatSession(createAssistant('azor'));
+  await session.initialize();
+  for (const prompt of prompts) {
+    await session.sendMessage(prompt);
+  }
+  return session;
+}
+
+/**
+ * Returns the texts of a history.
+ */
+function texts(history: ChatHistory): string[] {
+  return history.map(message => message.parts.map(part => ('text' in part ? part.text : '')).join(''));
+}
+
+/**
+ * Counts the WAL entries logged for a session.
+ */
+function countWALEntries(sessionId: string): number {
+  const [records] = readWALRecords();
+  return records.filter(record => record.session_id === sessionId).length;
+}
+
+const ATTACHMENT: AttachmentPart = {
+  attachment: { hash: 'abc123', filename: 'notes.txt', mimeType: 'text/plain', size: 5 }
+};
+
+describe('ChatSession', () => {
+  before(() => {
+    registerEngine({
+      name: 'SESSION_TEST',
+      preparingForUseMessage: () => 'echo preparing',
+      createClient: async () => createEchoClient()
+    });
+  });
+
+  beforeEach(() => {
+    failingReply = null;
+    throwingReply = null;
+  });
+
+  describe('sendMessage', () => {
+    it('keeps queued attachments when the engine call throws', async () => {
+      const session = await startSession(['one']);
+      session.addAttachment(ATTACHMENT);
+      throwingReply = replies + 1;
+
+      await assert.rejects(session.sendMessage('two'), /connection reset/);
+      assert.deepEqual(session.getPendingAttachments(), [ATTACHMENT]);
+
+      await session.sendMessage('two');
+      assert.deepEqual(session.getPendingAttachments(), []);
+      const history = await session.getHistory();
+      assert.deepEqual(history[2].parts, [{ text: 'two' }, ATTACHMENT]);
+    });
+  });
+
+  describe('sendRoundtableMessage', () => {
+    it('adds the round once every participant has answered', async () => {
+      const session = await startSession(['one']);
+      await session.startRoundtable([createAssistant('azor'), createAssistant('optymista')]);
+      const walEntries = countWALEntries(session.getSessionId());
+
+      const roundReplies = await session.sendRoundtableMessage('two');
+
+      assert.equal(roundReplies.length, 2);
+      const history = await session.getHistory();
+      // The second participant's prompt also carries the replies given before it
+      assert.equal(history.length, 5);
+      assert.deepEqual(texts(history).slice(2, 4), ['two', 'echo: two']);
+      assert.deepEqual(history.slice(3).map(message => message.speaker?.id), ['azor', 'optymista']);
+      assert.equal(countWALEntries(session.getSessionId()), walEntries + 2);
+    });
+
+    it('drops the round when a participant answers with an error', async () => {
+      const session = await startSession(['one']);
+      await session.startRoundtable([createAssistant('azor'), createAssistant('optymista')]);
+      session.addAttachment(ATTACHMENT);
+      const walEntries = countWALEntries(session.getSessionId());
+      failingReply = replies + 2;
+
+      await assert.rejects(session.sendRoundtableMessage('two'), /runda nie została zapisana/);
+
+      assert.deepEqual(texts(await session.getHistory()), ['one', 'echo: one']);
+      assert.deepEqual(session.getPendingAttachments(), [ATTACHMENT]);
+      assert.equal(countWALEntries(session.getSessionId()), walEntries);
+
+      recoverSessionsFromWAL();
+      const [stored] = loadSessionHistory(session.getSessionId());
+      assert.deepEqual(texts(stored), ['one', 'echo: one']);
+    });
+
+    it('frees the engine sessions it no longer uses', async () => {
+      const session = await startSession(['one']);
+      const open = openSessions;
+
+      await session.startRoundtable([createAssistant('azor'), createAssistant('optymista')]);
+      await session.sendRoundtableMessage('two');
+      await session.endRoundtable();
+      await session.retryLastExchange();
+      assert.equal(openSessions, open);
+
+      await session.dispose();
+      assert.equal(openSessions, open - 1);
+    });
+  });
+
+  describe('branches', () => {
+    it('checks out a forked branch and back, also after a reload', async () => {
+      const session = await startSession(['one', 'two']);
+      const main = session.getActiveBranch();
+
+      await session.forkBranch('alt', 2);
+      await session.sendMessage('three');
+      assert.deepEqual(texts(await session.getHistory()), ['one', 'echo: one', 'three', 'echo: three']);
+
+      await session.checkoutBranch(main);
+      assert.deepEqual(texts(await session.getHistory()), ['one', 'echo: one', 'two', 'echo: two']);
+
+      const [reloaded, error] = await ChatSession.loadFromFile(createAssistant('azor'), session.getSessionId());
+      assert.equal(error, null);
+      assert.deepEqual(reloaded!.getBranches().map(info => info.branch.name), [main, 'alt']);
+      await reloaded!.checkoutBranch('alt');
+      assert.deepEqual(texts(await reloaded!.getHistory()), ['one', 'echo: one', 'three', 'echo: three']);
+    });
+
+    it('refuses a fork ending inside an exchange and an unknown branch', async () => {
+      const session = await startSession(['one', 'two']);
+
+      await assert.rejects(session.forkBranch('alt', 3), /pełnej wymianie/);
+      await assert.rejects(session.checkoutBranch('missing'), /Nie ma gałęzi 'missing'/);
+      assert.equal(session.getBranches().length, 1);
+      assert.equal((await session.getHistory()).length, 4);
+    });
+
+    it('keeps the previous answer as a variant of a retried exchange', async () => {
+      const session = await startSession(['one']);
+
+      await session.retryLastExchange();
+
+      const variants = session.getVariants();
+      assert.equal(variants.length, 2);
+      assert.deepEqual(variants.map(info => texts(info.path)), [
+        ['one', 'echo: one'],
+        ['one', 'echo: one']
+      ]);
+      assert.notEqual(variants[0].path[1].id, variants[1].path[1].id);
+    });
+
+    it('rolls back a retry the engine answers with an error', async () => {
+      const session = await startSession(['one']);
+      const branches = session.getBranches().length;
+      failingReply = replies + 1;
+
+      await assert.rejects(session.retryLastExchange(), /poprzednia wersja pozostała bez zmian/);
+
+      assert.deepEqual(texts(await session.getHistory()), ['one', 'echo: one']);
+      assert.equal(session.getBranches().length, branches);
+      assert.equal(session.getVariants().length, 1);
+
+      recoverSessionsFromWAL();
+      const [stored] = loadSessionHistory(session.getSessionId());
+      assert.deepEqual(texts(stored), ['one', 'echo: one']);
+    });
+  });
+});
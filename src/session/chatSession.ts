@@ -6,35 +6,67 @@ import {
 	loadSessionHistory,
 	saveSessionHistory,
 } from '../files/sessionFiles.js';
-import { appendToWAL } from '../files/wal.js';
+import { indexSession } from '../files/searchIndex.js';
+import { appendToWAL, appendUsageToWAL, type WALUsageEntry } from '../files/wal.js';
+import { getEngine } from '../llm/engineRegistry.js';
+import { getMessageText, isAttachmentPart } from '../utils/messageParts.js';
 import {
-	GeminiChatSessionWrapper,
-	GeminiLLMClient,
-} from '../llm/geminiClient.js';
-import { LlamaChatSession, LlamaClient } from '../llm/llamaClient.js';
-import { OllamaChatSession, OllamaClient } from '../llm/ollamaClient.js';
-import type { ChatHistory, LLMResponse } from '../types.js';
-
-// Engine to Client Class mapping
-interface LLMClientClass {
-	preparingForUseMessage(): string;
-	fromEnvironment(): any;
-}
+	buildBranchPath,
+	collectBranchMessages,
+	commonPrefixLength,
+	linkMessages,
+} from '../utils/messageTree.js';
+import {
+	createSessionBranches,
+	nextVariantName,
+	type BranchInfo,
+	validateBranchName,
+} from './branches.js';
+import {
+	buildContextHistory,
+	buildMeasuredMessages,
+	buildSystemPrompt,
+	compactContext,
+	COMPACTION_THRESHOLD,
+	createContextState,
+	getExchangeRange,
+	isExchangeStart,
+	restrictContextState,
+} from './contextManager.js';
+import { createSessionOrganization } from './organization.js';
+import {
+	buildRoundtablePrompt,
+	buildSpeakerView,
+	MIN_ROUNDTABLE_PARTICIPANTS,
+	splitSpeakerPrompt,
+	toSpeaker,
+	type RoundtableReply,
+} from './roundtable.js';
+import type {
+	AttachmentPart,
+	Branch,
+	ChatHistory,
+	ContextState,
+	ContextStrategy,
+	LLMChatSession,
+	LLMClient,
+	LLMClientOptions,
+	LLMResponse,
+	MessageSpeaker,
+	ModelChange,
+	SessionBranches,
+	SessionOrganization,
+	StreamChunkHandler,
+	TokenUsage,
+} from '../types.js';
 
-type LLMClientType =
-	| typeof GeminiLLMClient
-	| typeof LlamaClient
-	| typeof OllamaClient;
-type ChatSessionType =
-	| GeminiChatSessionWrapper
-	| LlamaChatSession
-	| OllamaChatSession;
-
-const ENGINE_MAPPING: Record<string, LLMClientType> = {
-	LLAMA_CPP: LlamaClient,
-	GEMINI: GeminiLLMClient,
-	OLLAMA: OllamaClient,
-};
+/**
+ * Options for answering an exchange again with /retry or /edit.
+ */
+export interface RegenerateOptions {
+	assistant?: Assistant; // Answers instead of the session's assistant, for this reply only
+	temperature?: number;
+}
 
 /**
  * Manages everything related to a single chat session.
@@ -44,22 +76,44 @@ export class ChatSession {
 	private assistant: Assistant;
 	private sessionId: string;
 	private _history: ChatHistory;
-	private _llmClient: GeminiLLMClient | LlamaClient | OllamaClient | null =
-		null;
-	private _llmChatSession: ChatSessionType | null = null;
-	private _maxContextTokens: number = 32768;
+	private _llmClient: LLMClient | null = null;
+	private _engineName: string | null = null;
+	private _clients: Map<string, { client: LLMClient; engineName: string }> =
+		new Map();
+	private _llmChatSession: LLMChatSession | null = null;
+	private _llmSyncedLength: number = 0;
 	private _title: string | null = null;
+	private _pendingAttachments: AttachmentPart[] = [];
+	private _context: ContextState;
+	private _modelChanges: ModelChange[];
+	private _roundtable: Assistant[];
+	private _branches: SessionBranches;
+	private _organization: SessionOrganization;
+	/** Sequence number of the last WAL entry logged for this session */
+	private _walSeq: number;
 
 	constructor(
 		assistant: Assistant,
 		sessionId?: string,
 		history?: ChatHistory,
 		title?: string | null,
+		context?: ContextState | null,
+		modelChanges?: ModelChange[],
+		roundtable?: Assistant[],
+		branches?: SessionBranches | null,
+		organization?: SessionOrganization | null,
+		walSeq?: number,
 	) {
 		this.assistant = assistant;
 		this.sessionId = sessionId || randomUUID();
 		this._history = history || [];
 		this._title = title || null;
+		this._context = context || createContextState();
+		this._modelChanges = modelChanges || [];
+		this._roundtable = roundtable || [];
+		this._branches = branches || createSessionBranches();
+		this._organization = organization || createSessionOrganization();
+		this._walSeq = walSeq || 0;
 	}
 
 	/**
@@ -71,48 +125,128 @@ export class ChatSession {
 	}
 
 	/**
-	 * Creates or recreates the LLM chat session with current history.
+	 * Returns the client for an assistant's engine configuration, creating it on first use.
+	 * The engine and model come from the last /model switch, then the assistant, then ENGINE.
+	 * @param overrides - Options replacing the assistant's ones, e.g. a temperature for /retry
+	 * @param followModelChanges - false for round-table participants, which keep their own engine and model
+	 *
+	 * @returns [client, engine_name]
 	 */
-	private async _initializeLLMSession(): Promise<void> {
-		// Validate ENGINE variable
-		const engine = (process.env.ENGINE || 'GEMINI').toUpperCase();
-		if (!(engine in ENGINE_MAPPING)) {
-			const validEngines = Object.keys(ENGINE_MAPPING).join(', ');
-			throw new Error(
-				`ENGINE musi być jedną z wartości: ${validEngines}, otrzymano: ${engine}`,
-			);
+	private async _getClient(
+		assistant: Assistant,
+		overrides?: LLMClientOptions,
+		followModelChanges: boolean = true,
+	): Promise<[LLMClient, string]> {
+		const modelChange = followModelChanges ? this._modelChanges.at(-1) : undefined;
+		const engineName = (
+			modelChange?.engine ||
+			assistant.engine ||
+			process.env.ENGINE ||
+			'GEMINI'
+		).toUpperCase();
+		const clientOptions: LLMClientOptions = {
+			...(modelChange
+				? { ...assistant.clientOptions, modelName: modelChange.model }
+				: assistant.clientOptions),
+			...overrides,
+		};
+		const clientKey = JSON.stringify([engineName, clientOptions]);
+
+		let client = this._clients.get(clientKey)?.client;
+		if (!client) {
+			// Throws with the list of registered engines if the engine is unknown
+			const engine = getEngine(engineName);
+			await this._evictClients(engineName);
+			printInfo(engine.preparingForUseMessage());
+
+			client = await engine.createClient(clientOptions);
+			this._clients.set(clientKey, { client, engineName });
+
+			printInfo(client.readyForUseMessage());
 		}
 
-		// Initialize LLM client if not already created
-		if (this._llmClient === null) {
-			// Engine is validated above, so this lookup is guaranteed to succeed
-			const SelectedClientClass = ENGINE_MAPPING[engine];
-			printInfo(
-				(SelectedClientClass as LLMClientClass).preparingForUseMessage(),
-			);
+		return [client, engineName];
+	}
 
-			if (SelectedClientClass === LlamaClient) {
-				const client = LlamaClient.fromEnvironment();
-				await client.initializeModel();
-				this._llmClient = client;
-			} else if (SelectedClientClass === OllamaClient) {
-				const client = OllamaClient.fromEnvironment();
-				await client.initializeModel();
-				this._llmClient = client;
-			} else {
-				this._llmClient = (
-					SelectedClientClass as typeof GeminiLLMClient
-				).fromEnvironment();
+	/**
+	 * Drops the cached clients of an engine that hold local resources (llama.cpp models),
+	 * except the one the session is using, so that a model switch doesn't keep the
+	 * previous model loaded.
+	 */
+	private async _evictClients(engineName: string): Promise<void> {
+		for (const [key, cached] of this._clients) {
+			if (
+				cached.engineName === engineName &&
+				cached.client.dispose &&
+				cached.client !== this._llmClient
+			) {
+				this._clients.delete(key);
+				await cached.client.dispose();
 			}
+		}
+	}
 
-			printInfo(this._llmClient.readyForUseMessage());
+	/**
+	 * Frees the local resources of the LLM session and all cached clients. Called once
+	 * the session is replaced by another one; the session can't send messages afterwards.
+	 */
+	async dispose(): Promise<void> {
+		await this._llmChatSession?.dispose?.();
+		this._llmChatSession = null;
+		for (const { client } of this._clients.values()) {
+			await client.dispose?.();
 		}
+		this._clients.clear();
+	}
 
-		this._llmChatSession = await this._llmClient.createChatSession(
-			this.assistant.systemPrompt,
-			this._history,
+	/**
+	 * Creates or recreates the LLM chat session from the current context:
+	 * the messages within the context window and the summary of older ones.
+	 * The client is recreated only when the engine configuration changes.
+	 * @param responder - Assistant answering through the session (the session's assistant by default)
+	 * @param overrides - Client options replacing the responder's ones
+	 */
+	private async _initializeLLMSession(
+		responder: Assistant = this.assistant,
+		overrides?: LLMClientOptions,
+	): Promise<void> {
+		const [client, engineName] = await this._getClient(responder, overrides);
+
+		const chatSession = await client.createChatSession(
+			buildSystemPrompt(responder.systemPrompt, this._context),
+			buildSpeakerView(
+				buildContextHistory(this._history, this._context),
+				responder.id,
+				toSpeaker(this.assistant),
+			),
 			0,
 		);
+
+		// Commit only once everything succeeded, so a failed switch keeps the old session
+		const previousSession = this._llmChatSession;
+		this._llmClient = client;
+		this._engineName = engineName;
+		this._llmChatSession = chatSession;
+		this._llmSyncedLength = (await chatSession.getHistory()).length;
+		await previousSession?.dispose?.();
+		await this._evictClients(engineName);
+	}
+
+	/**
+	 * Appends messages added by the LLM session since the last sync to the full history.
+	 * The LLM session only holds the context window, so its history can't replace ours.
+	 */
+	private async _syncHistory(): Promise<void> {
+		if (!this._llmChatSession) {
+			return;
+		}
+
+		const llmHistory = await this._llmChatSession.getHistory();
+		const timestamp = new Date().toISOString();
+		for (const message of llmHistory.slice(this._llmSyncedLength)) {
+			this._history.push({ ...message, timestamp: message.timestamp || timestamp });
+		}
+		this._llmSyncedLength = llmHistory.length;
 	}
 
 	/**
@@ -124,7 +258,18 @@ export class ChatSession {
 		assistant: Assistant,
 		sessionId: string,
 	): Promise<[ChatSession | null, string | null]> {
-		const [history, error, title, assistantId] = loadSessionHistory(sessionId);
+		const [
+			history,
+			error,
+			title,
+			assistantId,
+			context,
+			modelChanges,
+			roundtableIds,
+			branches,
+			organization,
+			walSeq,
+		] = loadSessionHistory(sessionId);
 
 		if (error) {
 			return [null, error];
@@ -143,11 +288,27 @@ export class ChatSession {
 			}
 		}
 
+		// Participants whose definitions were removed leave the round-table
+		const roundtable: Assistant[] = [];
+		for (const id of roundtableIds) {
+			try {
+				roundtable.push(createAssistant(id));
+			} catch {
+				printWarning(`Nieznany asystent '${id}' przy okrągłym stole. Pomijam.`);
+			}
+		}
+
 		const session = new ChatSession(
 			sessionAssistant,
 			sessionId,
 			history,
 			title,
+			context,
+			modelChanges,
+			roundtable.length >= MIN_ROUNDTABLE_PARTICIPANTS ? roundtable : [],
+			branches,
+			organization,
+			walSeq,
 		);
 		await session.initialize();
 		return [session, null];
@@ -156,32 +317,103 @@ export class ChatSession {
 	/**
 	 * Saves this session to disk.
 	 * Only saves if history has at least one complete exchange.
+	 * The search index is updated with the saved history.
 	 */
 	async saveToFile(): Promise<[boolean, string | null]> {
 		// Sync history from LLM session before saving
-		if (this._llmChatSession) {
-			this._history = await this._llmChatSession.getHistory();
-		}
+		await this._syncHistory();
 
 		if (!this._llmClient) {
 			return [false, 'LLM client not initialized'];
 		}
 
-		return saveSessionHistory(
+		const result = saveSessionHistory(
 			this.sessionId,
 			this._history,
 			this.assistant.systemPrompt,
 			this._llmClient.getModelName(),
 			this._title,
 			this.assistant.id,
+			this._context,
+			this._modelChanges,
+			this._roundtable.map((participant) => participant.id),
+			this._branches,
+			this._organization,
+			this._walSeq,
 		);
+
+		// The search index is only a cache, so a failed update doesn't fail the save
+		if (result[0]) {
+			const [, indexError] = indexSession(
+				this.sessionId,
+				this._history.map((message) => getMessageText(message)),
+			);
+			if (indexError) {
+				printWarning(indexError);
+			}
+		}
+
+		return result;
+	}
+
+	/**
+	 * Queues an attachment to be sent with the next user message.
+	 * @returns false if the same file is already queued
+	 */
+	addAttachment(attachment: AttachmentPart): boolean {
+		if (
+			this._pendingAttachments.some(
+				(pending) => pending.attachment.hash === attachment.attachment.hash,
+			)
+		) {
+			return false;
+		}
+		this._pendingAttachments.push(attachment);
+		return true;
+	}
+
+	/**
+	 * Returns attachments queued for the next user message.
+	 */
+	getPendingAttachments(): AttachmentPart[] {
+		return [...this._pendingAttachments];
+	}
+
+	/**
+	 * Drops all queued attachments.
+	 */
+	clearPendingAttachments(): void {
+		this._pendingAttachments = [];
+	}
+
+	/**
+	 * Compacts the context if the next prompt would overflow it, reporting what happened.
+	 */
+	private async _compactBeforeSending(text: string): Promise<void> {
+		const [compacted, compactWarning] = await this.compactContext(text);
+		if (compactWarning) {
+			printWarning(compactWarning);
+		}
+		if (compacted) {
+			const action =
+				this._context.strategy === 'summarize' ? 'podsumowane' : 'pominięte';
+			printInfo(
+				`Kontekst zbliżał się do limitu: wiadomości 1-${this._context.cutoff} zostały ${action}. Szczegóły: /context`,
+			);
+		}
 	}
 
 	/**
 	 * Sends a message to the LLM and returns the response.
-	 * Updates internal history automatically and logs to WAL.
+	 * Queued attachments are sent along with the text and cleared once the engine answered.
+	 * If the context would overflow, older exchanges are compacted first.
+	 * Response text is streamed to onChunk as it arrives; history and WAL
+	 * are only updated once the stream has completed.
 	 */
-	async sendMessage(text: string): Promise<LLMResponse> {
+	async sendMessage(
+		text: string,
+		onChunk?: StreamChunkHandler,
+	): Promise<LLMResponse> {
 		if (!this._llmChatSession) {
 			throw new Error('LLM session not initialized');
 		}
@@ -190,10 +422,27 @@ export class ChatSession {
 			throw new Error('LLM client not initialized');
 		}
 
-		const response = await this._llmChatSession.sendMessage(text);
+		await this._compactBeforeSending(text);
 
-		// Sync history after message
-		this._history = await this._llmChatSession.getHistory();
+		const attachments = this._pendingAttachments;
+		const response = await this._llmChatSession.sendMessage(
+			text,
+			onChunk,
+			attachments,
+		);
+		// Kept queued if the engine call throws, so they go with the next attempt
+		this._pendingAttachments = [];
+
+		// Sync history after message; the turn's usage is kept on its last model message
+		const syncedFrom = this._history.length;
+		await this._syncHistory();
+		const answer = this._history
+			.slice(syncedFrom)
+			.reverse()
+			.find((message) => message.role === 'model');
+		if (answer && response.usage) {
+			answer.usage = response.usage;
+		}
 
 		// Log to WAL
 		const totalTokens = await this.countTokens();
@@ -203,6 +452,11 @@ export class ChatSession {
 			response.text,
 			totalTokens,
 			this._llmClient.getModelName(),
+			this.assistant.id,
+			attachments,
+			response.usage,
+			undefined,
+			++this._walSeq,
 		);
 
 		if (!success && error) {
@@ -225,25 +479,55 @@ export class ChatSession {
 
 	/**
 	 * Clears all conversation history and reinitializes the LLM session.
+	 * The context summary and pins are reset; the strategy is kept.
 	 */
 	async clearHistory(): Promise<void> {
+		const removed = this._history;
 		this._history = [];
+		this._keepBranchMessages(removed);
+		this._context = {
+			strategy: this._context.strategy,
+			summary: null,
+			cutoff: 0,
+			pinned: [],
+		};
 		await this._initializeLLMSession();
 		await this.saveToFile();
 	}
 
+	/**
+	 * Returns the index of the user message that starts the last complete exchange,
+	 * or -1 if the history doesn't end with an answered prompt.
+	 */
+	getLastExchangeStart(): number {
+		let exchangeStart = this._history.length - 1;
+		while (exchangeStart >= 0 && !isExchangeStart(this._history[exchangeStart])) {
+			exchangeStart--;
+		}
+
+		return exchangeStart === this._history.length - 1 ? -1 : exchangeStart;
+	}
+
 	/**
 	 * Removes the last user-assistant exchange from history.
+	 * An exchange starts at the last user message carrying text, so tool calls
+	 * and tool results made while answering it are removed as well.
 	 */
 	async popLastExchange(): Promise<boolean> {
 		const currentHistory = await this.getHistory();
+		const exchangeStart = this.getLastExchangeStart();
 
-		if (currentHistory.length < 2) {
+		if (exchangeStart < 0) {
 			return false;
 		}
 
-		// Remove last 2 entries (user + assistant)
-		this._history = currentHistory.slice(0, -2);
+		this._history = currentHistory.slice(0, exchangeStart);
+		this._keepBranchMessages(currentHistory.slice(exchangeStart));
+		this._context = {
+			...this._context,
+			cutoff: Math.min(this._context.cutoff, exchangeStart),
+			pinned: this._context.pinned.filter((index) => index < exchangeStart),
+		};
 
 		// Reinitialize LLM session with modified history
 		await this._initializeLLMSession();
@@ -253,28 +537,630 @@ export class ChatSession {
 		return true;
 	}
 
+	/**
+	 * Returns the heads of all branches, the active one ending where the history does.
+	 */
+	private _currentBranches(): Branch[] {
+		linkMessages(this._history);
+		const headId = this._history.at(-1)?.id ?? null;
+		return this._branches.branches.map((branch) =>
+			branch.name === this._branches.active ? { ...branch, headId } : branch,
+		);
+	}
+
+	/**
+	 * Keeps messages removed from the history that inactive branches still share.
+	 */
+	private _keepBranchMessages(removed: ChatHistory): void {
+		const inactiveHeads = this._branches.branches
+			.filter((branch) => branch.name !== this._branches.active)
+			.map((branch) => branch.headId);
+		this._branches = {
+			...this._branches,
+			messages: collectBranchMessages(
+				this._history,
+				[...this._branches.messages, ...removed],
+				inactiveHeads,
+			),
+		};
+	}
+
+	/**
+	 * Makes a branch active with the given path as the history and rebuilds the chat
+	 * session. Context state is kept for the messages both paths share.
+	 */
+	private async _setActiveBranch(
+		active: string,
+		branches: Branch[],
+		path: ChatHistory,
+	): Promise<void> {
+		const previous = {
+			history: this._history,
+			branches: this._branches,
+			context: this._context,
+		};
+
+		const pool = [...this._history, ...this._branches.messages];
+		const inactiveHeads = branches
+			.filter((branch) => branch.name !== active)
+			.map((branch) => branch.headId);
+		this._branches = {
+			active,
+			branches,
+			messages: collectBranchMessages(path, pool, inactiveHeads),
+		};
+		this._context = restrictContextState(
+			this._context,
+			commonPrefixLength(this._history, path),
+		);
+		this._history = path;
+
+		try {
+			await this._initializeLLMSession();
+		} catch (error) {
+			this._history = previous.history;
+			this._branches = previous.branches;
+			this._context = previous.context;
+			throw error;
+		}
+
+		await this.saveToFile();
+	}
+
+	/**
+	 * Creates a branch holding the first `messageCount` messages and checks it out.
+	 * The current branch keeps all its messages and can be checked out again.
+	 * @throws Error if the name is taken or the branch would end inside an exchange
+	 */
+	async forkBranch(
+		name: string,
+		messageCount: number = this._history.length,
+	): Promise<void> {
+		validateBranchName(name, this._branches.branches);
+
+		if (messageCount < 0 || messageCount > this._history.length) {
+			throw new Error(
+				`Numer wiadomości musi być z zakresu 0-${this._history.length}`,
+			);
+		}
+		if (
+			messageCount > 0 &&
+			messageCount < this._history.length &&
+			!isExchangeStart(this._history[messageCount])
+		) {
+			const [start, end] = getExchangeRange(this._history, messageCount - 1);
+			throw new Error(
+				`Gałąź musi kończyć się na pełnej wymianie. Wybierz wiadomość ${start} lub ${end}.`,
+			);
+		}
+
+		const branches = this._currentBranches();
+		const path = this._history.slice(0, messageCount);
+		branches.push({
+			name,
+			headId: path.at(-1)?.id ?? null,
+			createdAt: new Date().toISOString(),
+		});
+
+		await this._setActiveBranch(name, branches, path);
+	}
+
+	/**
+	 * Switches the history to the path of another branch.
+	 * @throws Error if there is no such branch
+	 */
+	async checkoutBranch(name: string): Promise<void> {
+		const target = this._branches.branches.find((branch) => branch.name === name);
+		if (!target) {
+			const names = this._branches.branches.map((branch) => branch.name);
+			throw new Error(`Nie ma gałęzi '${name}'. Dostępne: ${names.join(', ')}`);
+		}
+
+		const branches = this._currentBranches();
+		const path = buildBranchPath(
+			[...this._history, ...this._branches.messages],
+			target.headId,
+		);
+
+		await this._setActiveBranch(name, branches, path);
+	}
+
+	/**
+	 * Returns all branches with their paths, in creation order.
+	 */
+	getBranches(): BranchInfo[] {
+		const pool = [...this._history, ...this._branches.messages];
+		return this._currentBranches().map((branch) => {
+			const active = branch.name === this._branches.active;
+			return {
+				branch,
+				path: active ? this._history : buildBranchPath(pool, branch.headId),
+				active,
+			};
+		});
+	}
+
+	/**
+	 * Returns the name of the checked out branch.
+	 */
+	getActiveBranch(): string {
+		return this._branches.active;
+	}
+
+	/**
+	 * Answers the exchange starting at `index` again, with a new prompt text.
+	 * The current path is kept as a variant branch (`<branch>.vN`) and the active
+	 * branch continues with the new answer. If sending fails, the engine answers with
+	 * an error or the model asks for clarification instead, nothing changes.
+	 */
+	private async _regenerate(
+		index: number,
+		text: string,
+		options: RegenerateOptions,
+		onChunk?: StreamChunkHandler,
+	): Promise<LLMResponse> {
+		const previous = {
+			history: this._history,
+			branches: this._branches,
+			context: this._context,
+		};
+		const queuedAttachments = this._pendingAttachments;
+		const walSeq = this._walSeq;
+
+		const branches = this._currentBranches();
+		branches.push({
+			name: nextVariantName(this._branches.active, branches),
+			headId: this._history.at(-1)?.id ?? null,
+			createdAt: new Date().toISOString(),
+		});
+		this._branches = { ...this._branches, branches };
+		const prompt = this._history[index];
+		this._history = this._history.slice(0, index);
+		this._keepBranchMessages(previous.history.slice(index));
+		this._context = restrictContextState(this._context, index);
+
+		const responder = options.assistant || this.assistant;
+		const overrides =
+			options.temperature !== undefined
+				? { temperature: options.temperature }
+				: undefined;
+
+		let response: LLMResponse;
+		try {
+			await this._initializeLLMSession(responder, overrides);
+			this._pendingAttachments = prompt.parts.filter(isAttachmentPart);
+			const answerStart = this._history.length;
+			response = await this.sendMessage(text, onChunk);
+			if (response.failed) {
+				throw new Error(
+					'Model nie wygenerował odpowiedzi; poprzednia wersja pozostała bez zmian',
+				);
+			}
+			if (response.clarificationNeeded) {
+				throw new Error(
+					`Model prosi o wyjaśnienie: ${response.clarificationNeeded.question}. Poprzednia wersja pozostała bez zmian; uzupełnij pytanie przez /edit`,
+				);
+			}
+
+			if (responder !== this.assistant) {
+				for (const message of this._history.slice(answerStart)) {
+					if (message.role === 'model') {
+						message.speaker = toSpeaker(responder);
+					}
+				}
+			}
+		} catch (error) {
+			this._history = previous.history;
+			this._branches = previous.branches;
+			this._context = previous.context;
+			await this._initializeLLMSession();
+			// The rejected answer is already in the WAL; saving marks it as applied
+			if (this._walSeq !== walSeq) {
+				await this.saveToFile();
+			}
+			throw error;
+		} finally {
+			this._pendingAttachments = queuedAttachments;
+		}
+
+		if (responder !== this.assistant || overrides) {
+			await this._initializeLLMSession();
+		}
+		await this.saveToFile();
+		return response;
+	}
+
+	/**
+	 * Generates a new answer to the last prompt, keeping the previous one as a variant.
+	 * @throws Error if the history doesn't end with an answered prompt
+	 */
+	async retryLastExchange(
+		options: RegenerateOptions = {},
+		onChunk?: StreamChunkHandler,
+	): Promise<LLMResponse> {
+		const exchangeStart = this.getLastExchangeStart();
+		if (exchangeStart < 0) {
+			throw new Error('Brak odpowiedzi, którą można wygenerować ponownie');
+		}
+
+		return this._regenerate(
+			exchangeStart,
+			getMessageText(this._history[exchangeStart]),
+			options,
+			onChunk,
+		);
+	}
+
+	/**
+	 * Replaces the text of a user prompt and continues the conversation from it.
+	 * Messages after the prompt are kept, with the original prompt, as a variant.
+	 * @param index - Index of the prompt in the history
+	 * @throws Error if the message at `index` is not a user prompt
+	 */
+	async editMessage(
+		index: number,
+		text: string,
+		onChunk?: StreamChunkHandler,
+	): Promise<LLMResponse> {
+		const message = this._history[index];
+		if (!message || !isExchangeStart(message)) {
+			throw new Error(`Wiadomość ${index + 1} nie jest Twoim pytaniem`);
+		}
+
+		return this._regenerate(index, text, {}, onChunk);
+	}
+
+	/**
+	 * Returns the variants of the last exchange: the active branch and every branch
+	 * that shares the history up to that exchange but answers it differently.
+	 */
+	getVariants(): BranchInfo[] {
+		const exchangeStart = this.getLastExchangeStart();
+		if (exchangeStart < 0) {
+			return [];
+		}
+
+		const seen = new Set<string | undefined>();
+		return this.getBranches().filter((info) => {
+			const divergesHere =
+				info.active ||
+				(info.path.length > exchangeStart &&
+					commonPrefixLength(info.path, this._history) === exchangeStart);
+			if (!divergesHere || seen.has(info.path[exchangeStart].id)) {
+				return false;
+			}
+			seen.add(info.path[exchangeStart].id);
+			return true;
+		});
+	}
+
 	/**
 	 * Switches to a different assistant while preserving conversation history.
-	 * Reinitializes the LLM session with the new assistant's system prompt.
+	 * Reinitializes the LLM session with the new assistant's system prompt,
+	 * moving to the engine and model the assistant pins, if any.
+	 * If the new configuration can't be used, the previous assistant stays active.
 	 */
 	async switchAssistant(newAssistant: Assistant): Promise<void> {
+		const previousAssistant = this.assistant;
 		this.assistant = newAssistant;
 
 		// Reinitialize LLM session with new system prompt
-		await this._initializeLLMSession();
+		try {
+			await this._initializeLLMSession();
+		} catch (error) {
+			this.assistant = previousAssistant;
+			throw error;
+		}
 
 		// Save session with new assistant
 		await this.saveToFile();
 	}
 
 	/**
-	 * Counts total tokens in the conversation history.
+	 * Switches the session to another engine and model, rebuilding the chat session
+	 * from the full history. The change is recorded in the session file.
+	 * If the client can't be created, the previous model stays active.
+	 * @param model - Model name; the engine's default when omitted
+	 */
+	async switchModel(engine: string, model?: string): Promise<void> {
+		this._modelChanges.push({
+			engine: engine.toUpperCase(),
+			...(model && { model }),
+			timestamp: new Date().toISOString(),
+			messageIndex: this._history.length,
+		});
+
+		try {
+			await this._initializeLLMSession();
+		} catch (error) {
+			this._modelChanges.pop();
+			throw error;
+		}
+
+		await this.saveToFile();
+	}
+
+	/**
+	 * Returns the model changes made with /model switch, oldest first.
+	 */
+	getModelChanges(): ModelChange[] {
+		return this._modelChanges;
+	}
+
+	/**
+	 * Starts a round-table: every following message is answered by each participant in turn.
+	 * Clients are created up front, so a participant that can't be used is reported now.
+	 * @throws Error if there are too few participants or a client can't be created
+	 */
+	async startRoundtable(participants: Assistant[]): Promise<void> {
+		if (participants.length < MIN_ROUNDTABLE_PARTICIPANTS) {
+			throw new Error(
+				`Przy okrągłym stole musi zasiąść co najmniej ${MIN_ROUNDTABLE_PARTICIPANTS} asystentów`,
+			);
+		}
+
+		for (const participant of participants) {
+			await this._getClient(participant, undefined, false);
+		}
+
+		this._roundtable = participants;
+		await this.saveToFile();
+	}
+
+	/**
+	 * Ends the round-table; the session's assistant continues with the replies in its context.
+	 */
+	async endRoundtable(): Promise<void> {
+		this._roundtable = [];
+		await this._initializeLLMSession();
+		await this.saveToFile();
+	}
+
+	/**
+	 * Returns the round-table participants (empty when the mode is off).
+	 */
+	getRoundtable(): Assistant[] {
+		return [...this._roundtable];
+	}
+
+	/**
+	 * Checks whether messages are answered by a round-table.
+	 */
+	isRoundtable(): boolean {
+		return this._roundtable.length > 0;
+	}
+
+	/**
+	 * Sends a message to every round-table participant in turn. Each one sees the
+	 * conversation and the replies given before it in this round. Tools are disabled,
+	 * so a reply is always plain text. Participants use their own engine and model,
+	 * whatever /model switch chose for the session's assistant.
+	 * The round is added to the history, with each reply's speaker, and logged to the WAL
+	 * only once every participant has answered; if one fails or its engine answers with
+	 * an error, nothing changes.
+	 *
+	 * @param handlers.onSpeaker - Called before a participant answers; returns its chunk handler
+	 * @param handlers.onReply - Called once a participant's reply is complete
+	 */
+	async sendRoundtableMessage(
+		text: string,
+		handlers: {
+			onSpeaker?: (speaker: MessageSpeaker) => StreamChunkHandler | undefined;
+			onReply?: (reply: RoundtableReply) => void;
+		} = {},
+	): Promise<RoundtableReply[]> {
+		await this._compactBeforeSending(text);
+
+		const attachments = this._pendingAttachments;
+		const round: ChatHistory = [
+			{
+				role: 'user',
+				parts: [{ text }, ...attachments],
+				timestamp: new Date().toISOString(),
+			},
+		];
+
+		const participants = this._roundtable;
+		const replies: RoundtableReply[] = [];
+
+		// Nothing is kept until every participant has answered; queued attachments stay for a retry
+		for (const participant of participants) {
+			const speaker = toSpeaker(participant);
+			const [client] = await this._getClient(participant, undefined, false);
+
+			const [history, prompt, promptAttachments] = splitSpeakerPrompt(
+				buildSpeakerView(
+					buildContextHistory([...this._history, ...round], this._context),
+					participant.id,
+					toSpeaker(this.assistant),
+				),
+			);
+			const chatSession = await client.createChatSession(
+				buildSystemPrompt(
+					buildRoundtablePrompt(participant, participants),
+					this._context,
+				),
+				history,
+				0,
+				false,
+			);
+
+			let response: LLMResponse;
+			try {
+				response = await chatSession.sendMessage(
+					prompt,
+					handlers.onSpeaker?.(speaker),
+					promptAttachments,
+				);
+			} finally {
+				await chatSession.dispose?.();
+			}
+			if (response.failed) {
+				throw new Error(
+					`${speaker.name}: model nie wygenerował odpowiedzi; runda nie została zapisana`,
+				);
+			}
+
+			round.push({
+				role: 'model',
+				parts: [{ text: response.text }],
+				timestamp: new Date().toISOString(),
+				...(response.usage && { usage: response.usage }),
+				speaker,
+			});
+			const reply = { speaker, modelName: client.getModelName(), response };
+			replies.push(reply);
+			handlers.onReply?.(reply);
+		}
+
+		this._pendingAttachments = [];
+		this._history.push(...round);
+
+		const totalTokens = await this.countTokens();
+		replies.forEach((reply, index) => {
+			const [success, error] = appendToWAL(
+				this.sessionId,
+				text,
+				reply.response.text,
+				totalTokens,
+				reply.modelName,
+				reply.speaker.id,
+				index === 0 ? attachments : [],
+				reply.response.usage,
+				{ speaker: reply.speaker, continuesRound: index > 0 },
+				++this._walSeq,
+			);
+			if (!success && error) {
+				printWarning(`WAL logging failed: ${error}`);
+			}
+		});
+
+		return replies;
+	}
+
+	/**
+	 * Counts tokens of the history currently sent to the model (the context window).
 	 */
 	async countTokens(): Promise<number> {
 		if (!this._llmClient) {
 			return 0;
 		}
-		return await this._llmClient.countHistoryTokens(this._history);
+		return await this._llmClient.countHistoryTokens(
+			buildContextHistory(this._history, this._context),
+		);
+	}
+
+	/**
+	 * Moves older exchanges out of the context window and recreates the LLM session.
+	 * Unless forced, nothing happens while the system prompt, context and next prompt
+	 * stay under COMPACTION_THRESHOLD of the engine's budget.
+	 *
+	 * @param nextPrompt - Prompt about to be sent, counted towards the budget
+	 * @returns [compacted, warning_message]
+	 */
+	async compactContext(
+		nextPrompt: string = '',
+		force: boolean = false,
+	): Promise<[boolean, string | null]> {
+		if (!this._llmClient) {
+			return [false, null];
+		}
+
+		const usedTokens = await this._llmClient.countHistoryTokens(
+			buildMeasuredMessages(
+				this.assistant.systemPrompt,
+				this._history,
+				this._context,
+				nextPrompt,
+			),
+		);
+		const threshold = this._llmClient.getMaxContextTokens() * COMPACTION_THRESHOLD;
+		if (!force && usedTokens <= threshold) {
+			return [false, null];
+		}
+
+		const [newContext, warning] = await compactContext(
+			this._llmClient,
+			this.assistant.systemPrompt,
+			this._history,
+			this._context,
+			usedTokens,
+			nextPrompt,
+			(usage) => this.recordUsage(usage, 'summary'),
+		);
+		if (!newContext) {
+			return [false, warning];
+		}
+
+		this._context = newContext;
+		await this._initializeLLMSession();
+		return [true, warning];
+	}
+
+	/**
+	 * Logs the token usage of a request made outside the conversation, so that
+	 * budgets and /usage count it.
+	 */
+	recordUsage(usage: TokenUsage, usageOf: WALUsageEntry['usage_of']): void {
+		const [success, error] = appendUsageToWAL(
+			this.sessionId,
+			this._llmClient?.getModelName() || '',
+			usage,
+			usageOf,
+		);
+		if (!success && error) {
+			printWarning(`WAL logging failed: ${error}`);
+		}
+	}
+
+	/**
+	 * Pins or unpins the exchange containing a message, so that it stays in the
+	 * context even after older messages are summarized or dropped.
+	 *
+	 * @param messageNumber - 1-based message number, as shown by /session display
+	 * @returns [success, error_message]
+	 */
+	async setPinned(
+		messageNumber: number,
+		pinned: boolean,
+	): Promise<[boolean, string | null]> {
+		const index = messageNumber - 1;
+		if (!Number.isInteger(index) || index < 0 || index >= this._history.length) {
+			return [
+				false,
+				`Nieprawidłowy numer wiadomości: ${messageNumber} (zakres 1-${this._history.length}).`,
+			];
+		}
+
+		const [start, end] = getExchangeRange(this._history, index);
+		const range = Array.from({ length: end - start }, (_, i) => start + i);
+		const others = this._context.pinned.filter((i) => !range.includes(i));
+		this._context = {
+			...this._context,
+			pinned: pinned ? [...others, ...range].sort((a, b) => a - b) : others,
+		};
+
+		// Pins only change what is sent once the exchange is before the cutoff
+		if (start < this._context.cutoff) {
+			await this._initializeLLMSession();
+		}
+		await this.saveToFile();
+		return [true, null];
+	}
+
+	/**
+	 * Changes the strategy used when the context overflows.
+	 */
+	async setContextStrategy(strategy: ContextStrategy): Promise<void> {
+		this._context = { ...this._context, strategy };
+		await this.saveToFile();
+	}
+
+	/**
+	 * Returns the current context window state.
+	 */
+	getContextState(): ContextState {
+		return { ...this._context, pinned: [...this._context.pinned] };
 	}
 
 	/**
@@ -289,17 +1175,26 @@ export class ChatSession {
 	 */
 	async getRemainingTokens(): Promise<number> {
 		const total = await this.countTokens();
-		return this._maxContextTokens - total;
+		return this.getMaxContextTokens() - total;
+	}
+
+	/**
+	 * Returns the context budget of the current engine.
+	 */
+	getMaxContextTokens(): number {
+		return this._llmClient ? this._llmClient.getMaxContextTokens() : 0;
 	}
 
 	/**
 	 * Gets comprehensive token information for this session.
+	 * @returns [total, remaining, max, estimated] - estimated when the engine can't count tokens exactly
 	 */
-	async getTokenInfo(): Promise<[number, number, number]> {
+	async getTokenInfo(): Promise<[number, number, number, boolean]> {
 		const totalTokens = await this.countTokens();
-		const remainingTokens = this._maxContextTokens - totalTokens;
-		const maxTokens = this._maxContextTokens;
-		return [totalTokens, remainingTokens, maxTokens];
+		const maxTokens = this.getMaxContextTokens();
+		const remainingTokens = maxTokens - totalTokens;
+		const estimated = this._llmClient?.estimatesTokenCounts?.() ?? false;
+		return [totalTokens, remainingTokens, maxTokens, estimated];
 	}
 
 	/**
@@ -337,10 +1232,63 @@ export class ChatSession {
 		this._title = title;
 	}
 
+	/**
+	 * Gets the session's tags, folder and pin.
+	 */
+	getOrganization(): SessionOrganization {
+		return { ...this._organization, tags: [...this._organization.tags] };
+	}
+
+	/**
+	 * Adds a tag to the session.
+	 * @returns false if the session already had the tag
+	 */
+	addTag(tag: string): boolean {
+		if (this._organization.tags.includes(tag)) {
+			return false;
+		}
+		this._organization.tags.push(tag);
+		return true;
+	}
+
+	/**
+	 * Removes a tag from the session.
+	 * @returns false if the session didn't have the tag
+	 */
+	removeTag(tag: string): boolean {
+		const index = this._organization.tags.indexOf(tag);
+		if (index === -1) {
+			return false;
+		}
+		this._organization.tags.splice(index, 1);
+		return true;
+	}
+
+	/**
+	 * Pins the session to the top of session lists, or unpins it.
+	 */
+	setSessionPinned(pinned: boolean): void {
+		this._organization.pinned = pinned;
+	}
+
+	/**
+	 * Moves the session to a folder; null takes it out of its folder.
+	 */
+	setFolder(folder: string | null): void {
+		this._organization.folder = folder;
+	}
+
 	/**
 	 * Gets the LLM client instance (for title generation).
 	 */
-	getLLMClient(): GeminiLLMClient | LlamaClient | OllamaClient | null {
+	getLLMClient(): LLMClient | null {
 		return this._llmClient;
 	}
+
+	/**
+	 * Gets the name of the engine the LLM client was created for.
+	 */
+	getEngineName(): string | null {
+		return this._engineName;
+	}
 }
@@ -0,0 +1,300 @@
+/**
+ * Context window management
+ * Decides which part of the session history is sent to the model, so that it fits
+ * the engine's context budget. Older exchanges are either dropped (truncate) or
+ * folded into a running summary (summarize); pinned messages are always sent.
+ */
+
+import type {
+	ChatHistory,
+	ContextState,
+	ContextStrategy,
+	LLMClient,
+	LLMResponse,
+	Message,
+	TokenUsage,
+} from '../types.js';
+import { describeMessage, getMessageText } from '../utils/messageParts.js';
+
+export const CONTEXT_STRATEGIES: ContextStrategy[] = ['truncate', 'summarize'];
+
+/** Share of the budget above which older exchanges are moved out of the context */
+export const COMPACTION_THRESHOLD = 0.8;
+
+/** Share of the budget the context is reduced to, leaving room for the next turns */
+const COMPACTION_TARGET = 0.5;
+
+/** Share of the budget the transcript sent for summarization may take */
+const SUMMARY_INPUT_SHARE = 0.6;
+
+const SUMMARY_HEADER = 'Podsumowanie wcześniejszej części rozmowy:';
+
+/**
+ * Checks whether a value names a supported context strategy.
+ */
+export function isContextStrategy(value: string): value is ContextStrategy {
+	return (CONTEXT_STRATEGIES as string[]).includes(value);
+}
+
+/**
+ * Creates the context state of a new session, using the CONTEXT_STRATEGY environment variable.
+ * @throws Error if CONTEXT_STRATEGY names an unknown strategy
+ */
+export function createContextState(): ContextState {
+	const strategy = (process.env.CONTEXT_STRATEGY || 'summarize').toLowerCase();
+
+	if (!isContextStrategy(strategy)) {
+		throw new Error(
+			`CONTEXT_STRATEGY musi być jedną z wartości: ${CONTEXT_STRATEGIES.join(', ')}, otrzymano: ${strategy}`,
+		);
+	}
+
+	return { strategy, summary: null, cutoff: 0, pinned: [] };
+}
+
+/**
+ * Checks whether a message starts an exchange: a user message carrying text.
+ * Tool results are user messages too, but belong to the exchange before them.
+ */
+export function isExchangeStart(message: Message): boolean {
+	return message.role === 'user' && getMessageText(message).length > 0;
+}
+
+/**
+ * Returns the [start, end) range of the exchange containing a message, so that
+ * a prompt, its tool rounds and the answer are always kept or dropped together.
+ */
+export function getExchangeRange(
+	history: ChatHistory,
+	index: number,
+): [number, number] {
+	let start = index;
+	while (start > 0 && !isExchangeStart(history[start])) {
+		start--;
+	}
+
+	let end = index + 1;
+	while (end < history.length && !isExchangeStart(history[end])) {
+		end++;
+	}
+
+	return [start, end];
+}
+
+/**
+ * Returns the context state for a history of which only the first `length` messages
+ * remain, e.g. after checking out another branch. A summary covering messages that
+ * are gone is dropped together with the cutoff.
+ */
+export function restrictContextState(state: ContextState, length: number): ContextState {
+	const pinned = state.pinned.filter((index) => index < length);
+	if (state.cutoff <= length) {
+		return { ...state, pinned };
+	}
+	return { strategy: state.strategy, summary: null, cutoff: 0, pinned };
+}
+
+/**
+ * Returns the messages sent to the model: pinned messages from before the
+ * cutoff, followed by everything from the cutoff on.
+ */
+export function buildContextHistory(
+	history: ChatHistory,
+	state: ContextState,
+): ChatHistory {
+	const pinned = state.pinned
+		.filter((index) => index < state.cutoff && index < history.length)
+		.sort((a, b) => a - b)
+		.map((index) => history[index]);
+
+	return [...pinned, ...history.slice(state.cutoff)];
+}
+
+/**
+ * Returns the system prompt extended with the summary of left-out messages.
+ */
+export function buildSystemPrompt(
+	systemPrompt: string,
+	state: ContextState,
+): string {
+	return state.summary
+		? `${systemPrompt}\n\n${SUMMARY_HEADER}\n${state.summary}`
+		: systemPrompt;
+}
+
+/**
+ * Builds the message list used to measure the context: system prompt (with summary),
+ * context history and the prompt about to be sent.
+ */
+export function buildMeasuredMessages(
+	systemPrompt: string,
+	history: ChatHistory,
+	state: ContextState,
+	nextPrompt: string = '',
+): ChatHistory {
+	return [
+		{ role: 'user', parts: [{ text: buildSystemPrompt(systemPrompt, state) }] },
+		...buildContextHistory(history, state),
+		...(nextPrompt ? [{ role: 'user' as const, parts: [{ text: nextPrompt }] }] : []),
+	];
+}
+
+/**
+ * Cheap local token estimate (~4 characters per token), used to compare candidate cutoffs.
+ */
+function estimateTokens(messages: ChatHistory): number {
+	const chars = messages.reduce(
+		(sum, msg) => sum + describeMessage(msg).length,
+		0,
+	);
+	return Math.ceil(chars / 4);
+}
+
+/**
+ * Picks the first exchange boundary after which the context fits targetTokens.
+ * The latest exchange is always kept, so the result may still exceed the target.
+ *
+ * @param scale - Ratio between the engine's token count and the local estimate
+ * @returns New cutoff, or null if no further exchange can be left out
+ */
+function selectCutoff(
+	systemPrompt: string,
+	history: ChatHistory,
+	state: ContextState,
+	nextPrompt: string,
+	targetTokens: number,
+	scale: number,
+): number | null {
+	const candidates = history
+		.map((msg, index) => (isExchangeStart(msg) ? index : -1))
+		.filter((index) => index > state.cutoff)
+		.slice(0, -1);
+
+	if (candidates.length === 0) {
+		return null;
+	}
+
+	for (const cutoff of candidates) {
+		const measured = buildMeasuredMessages(
+			systemPrompt,
+			history,
+			{ ...state, cutoff },
+			nextPrompt,
+		);
+		if (estimateTokens(measured) * scale <= targetTokens) {
+			return cutoff;
+		}
+	}
+
+	return candidates[candidates.length - 1];
+}
+
+/**
+ * Asks the model to fold the previous summary and the left-out messages into a new summary.
+ * Only the most recent part of a transcript longer than maxChars is sent.
+ */
+async function summarizeMessages(
+	llmClient: LLMClient,
+	previousSummary: string | null,
+	messages: ChatHistory,
+	maxChars: number,
+	onUsage?: (usage: TokenUsage) => void,
+): Promise<string> {
+	const transcript = messages
+		.map(
+			(msg) =>
+				`${msg.role === 'user' ? 'Użytkownik' : 'Asystent'}: ${describeMessage(msg)}`,
+		)
+		.join('\n\n')
+		.slice(-maxChars);
+
+	const prompt = [
+		'Streść poniższy fragment rozmowy w maksymalnie 200 słowach. Zachowaj fakty, decyzje, ustalenia, preferencje użytkownika i otwarte wątki. Odpowiedz samym podsumowaniem.',
+		previousSummary ? `Dotychczasowe podsumowanie:\n${previousSummary}` : '',
+		`Fragment rozmowy:\n${transcript}`,
+	]
+		.filter(Boolean)
+		.join('\n\n');
+
+	const tempSession = await llmClient.createChatSession(
+		'Jesteś asystentem streszczającym rozmowy.',
+		[],
+		0,
+		false,
+	);
+	let response: LLMResponse;
+	try {
+		response = await tempSession.sendMessage(prompt);
+	} finally {
+		await tempSession.dispose?.();
+	}
+	if (response.usage) {
+		onUsage?.(response.usage);
+	}
+	if (response.failed) {
+		throw new Error('model zwrócił błąd zamiast podsumowania');
+	}
+	return response.text.trim();
+}
+
+/**
+ * Moves older exchanges out of the context until it fits COMPACTION_TARGET of the budget.
+ * With the summarize strategy the left-out messages are added to the summary; if that
+ * fails the context stays as it was and a warning is returned.
+ *
+ * @param usedTokens - Engine token count of the current measured context
+ * @param onUsage - Called with the token usage of the summary request
+ * @returns [new_state, warning_message] - new_state is null if nothing could be left out or summarized
+ */
+export async function compactContext(
+	llmClient: LLMClient,
+	systemPrompt: string,
+	history: ChatHistory,
+	state: ContextState,
+	usedTokens: number,
+	nextPrompt: string = '',
+	onUsage?: (usage: TokenUsage) => void,
+): Promise<[ContextState | null, string | null]> {
+	const budget = llmClient.getMaxContextTokens();
+	const estimated = estimateTokens(
+		buildMeasuredMessages(systemPrompt, history, state, nextPrompt),
+	);
+	const scale = usedTokens / Math.max(1, estimated);
+
+	const cutoff = selectCutoff(
+		systemPrompt,
+		history,
+		state,
+		nextPrompt,
+		budget * COMPACTION_TARGET,
+		scale,
+	);
+	if (cutoff === null) {
+		return [null, null];
+	}
+
+	const leftOut = history
+		.slice(state.cutoff, cutoff)
+		.filter((_, offset) => !state.pinned.includes(state.cutoff + offset));
+
+	// Pinned messages stay in the context, so there may be nothing to summarize
+	if (state.strategy === 'truncate' || leftOut.length === 0) {
+		return [{ ...state, cutoff }, null];
+	}
+
+	try {
+		const summary = await summarizeMessages(
+			llmClient,
+			state.summary,
+			leftOut,
+			Math.floor((budget * SUMMARY_INPUT_SHARE * 4) / Math.max(1, scale)),
+			onUsage,
+		);
+		return [{ ...state, cutoff, summary: summary || state.summary }, null];
+	} catch (error) {
+		return [
+			null,
+			`Nie udało się podsumować starszych wiadomości (${error}); kontekst pozostał bez zmian.`,
+		];
+	}
+}
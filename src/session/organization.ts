@@ -0,0 +1,79 @@
+/**
+ * Session organization
+ * Sessions can carry tags, belong to a folder (project) and be pinned. Lists and the
+ * /switch picker show pinned sessions first, then folders, then the rest, each by recency.
+ */
+
+import type { SessionOrganization } from '../types.js';
+
+const TAG_PATTERN = /^[\p{L}\p{N}_.-]+$/u;
+const MAX_FOLDER_LENGTH = 60;
+
+/**
+ * Session fields the list order depends on.
+ */
+export interface OrganizedSession {
+	pinned?: boolean;
+	folder?: string;
+	updatedAt?: string; // ISO timestamp of the last message
+}
+
+/**
+ * Creates the organization of a new session: no tags, no folder, not pinned.
+ */
+export function createSessionOrganization(): SessionOrganization {
+	return { tags: [], folder: null, pinned: false };
+}
+
+/**
+ * Normalizes a tag: without a leading '#', in lower case.
+ * @throws Error if the tag contains characters other than letters, digits, '_', '-' and '.'
+ */
+export function normalizeTag(tag: string): string {
+	const normalized = tag.trim().replace(/^#/, '').toLowerCase();
+	if (!TAG_PATTERN.test(normalized)) {
+		throw new Error(
+			`Tag może zawierać tylko litery, cyfry, '_', '-' i '.', otrzymano: '${tag}'`,
+		);
+	}
+	return normalized;
+}
+
+/**
+ * Normalizes a folder name.
+ * @throws Error if the name is empty or too long
+ */
+export function normalizeFolderName(folder: string): string {
+	const normalized = folder.trim().replace(/\s+/g, ' ');
+	if (!normalized || normalized.length > MAX_FOLDER_LENGTH) {
+		throw new Error(
+			`Nazwa folderu musi mieć od 1 do ${MAX_FOLDER_LENGTH} znaków`,
+		);
+	}
+	return normalized;
+}
+
+/**
+ * Returns the group a session is listed under: pinned, its folder, or none (null).
+ */
+export function getSessionGroup(session: OrganizedSession): string | null {
+	if (session.pinned) {
+		return '📌 Przypięte';
+	}
+	return session.folder ? `📁 ${session.folder}` : null;
+}
+
+/**
+ * Orders sessions for listing: pinned first, then folders alphabetically, then
+ * sessions outside any folder; most recent first within each group.
+ */
+export function compareSessions(a: OrganizedSession, b: OrganizedSession): number {
+	const rank = (session: OrganizedSession): number =>
+		session.pinned ? 0 : session.folder ? 1 : 2;
+
+	return (
+		rank(a) - rank(b) ||
+		(a.pinned ? 0 : (a.folder || '').localeCompare(b.folder || '', 'pl')) ||
+		(b.updatedAt || '').localeCompare(a.updatedAt || '')
+	);
+}
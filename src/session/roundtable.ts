@@ -0,0 +1,147 @@
+/**
+ * Round-table conversations
+ * Several assistants answer each user message in turn. Every speaker gets its own view
+ * of the history: its replies stay model messages, while the replies of the others are
+ * passed on as user content labelled with the speaker's name.
+ */
+
+import type { Assistant } from '../assistant/assistant.js';
+import type {
+	AttachmentPart,
+	ChatHistory,
+	LLMResponse,
+	Message,
+	MessageSpeaker,
+} from '../types.js';
+import {
+	getMessageText,
+	isAttachmentPart,
+	isToolResultMessage,
+} from '../utils/messageParts.js';
+
+/** A round-table needs at least this many assistants */
+export const MIN_ROUNDTABLE_PARTICIPANTS = 2;
+
+/**
+ * Reply of one speaker in a round-table round.
+ */
+export interface RoundtableReply {
+	speaker: MessageSpeaker;
+	modelName: string;
+	response: LLMResponse;
+}
+
+/**
+ * Returns the speaker attribution stored on an assistant's round-table replies.
+ */
+export function toSpeaker(assistant: Assistant): MessageSpeaker {
+	return { id: assistant.id, name: assistant.name };
+}
+
+/**
+ * Extends a speaker's system prompt with the rules of the round-table.
+ */
+export function buildRoundtablePrompt(
+	speaker: Assistant,
+	participants: Assistant[],
+): string {
+	const names = participants.map((participant) => participant.name).join(', ');
+	return [
+		speaker.systemPrompt,
+		'',
+		`Bierzesz udział w rozmowie przy okrągłym stole. Uczestnicy: ${names}. Ty jesteś ${speaker.name}.`,
+		'Wypowiedzi pozostałych uczestników widzisz w wiadomościach jako "[NAZWA]: treść".',
+		'Odpowiadaj tylko we własnym imieniu, bez etykiety z nazwą. Odnoś się do wypowiedzi innych, zamiast je powtarzać.',
+	].join('\n');
+}
+
+/**
+ * Adds text to the end of a user message, returning a new message.
+ */
+function appendText(message: Message, text: string): Message {
+	return { ...message, parts: [...message.parts, { text }] };
+}
+
+/**
+ * Builds the history as seen by one speaker. Replies of other speakers are folded
+ * into the neighbouring user messages as "[NAME]: text", so user and model turns keep
+ * alternating; their tool rounds are left out.
+ *
+ * @param ownId - ID of the assistant the view is built for
+ * @param sessionAssistant - Author of model messages without a speaker
+ */
+export function buildSpeakerView(
+	history: ChatHistory,
+	ownId: string,
+	sessionAssistant: MessageSpeaker,
+): ChatHistory {
+	const view: ChatHistory = [];
+	let pending: string[] = [];
+	let foreignTurn = false;
+
+	const flushPending = (): void => {
+		if (pending.length === 0) {
+			return;
+		}
+		const text = pending.join('\n\n');
+		const last = view[view.length - 1];
+		if (last && last.role === 'user') {
+			view[view.length - 1] = appendText(last, text);
+		} else {
+			view.push({ role: 'user', parts: [{ text }] });
+		}
+		pending = [];
+	};
+
+	for (const message of history) {
+		if (message.role === 'model') {
+			const author = message.speaker || sessionAssistant;
+			foreignTurn = author.id !== ownId;
+			if (foreignTurn) {
+				const text = getMessageText(message);
+				if (text) {
+					pending.push(`[${author.name}]: ${text}`);
+				}
+				continue;
+			}
+		} else if (isToolResultMessage(message)) {
+			if (foreignTurn) {
+				continue;
+			}
+		} else if (pending.length > 0) {
+			// Replies of others came before this prompt: show them first
+			view.push({
+				...message,
+				parts: [{ text: pending.join('\n\n') }, ...message.parts],
+			});
+			pending = [];
+			continue;
+		}
+
+		flushPending();
+		view.push(message);
+	}
+
+	flushPending();
+	return view;
+}
+
+/**
+ * Splits a speaker's view into the history and the final user message to send.
+ *
+ * @returns [history, prompt_text, prompt_attachments]
+ */
+export function splitSpeakerPrompt(
+	view: ChatHistory,
+): [ChatHistory, string, AttachmentPart[]] {
+	const last = view[view.length - 1];
+	if (!last || last.role !== 'user') {
+		return [view, '', []];
+	}
+
+	return [
+		view.slice(0, -1),
+		getMessageText(last),
+		last.parts.filter(isAttachmentPart),
+	];
+}
@@ -35,6 +35,15 @@ export class SessionManager {
 		return this._currentSession !== null;
 	}
 
+	/**
+	 * Makes a session the current one and frees the models loaded by the previous one.
+	 */
+	private async _replaceCurrentSession(session: ChatSession): Promise<void> {
+		const previous = this._currentSession;
+		this._currentSession = session;
+		await previous?.dispose();
+	}
+
 	/**
 	 * Creates a new session, optionally saving the current one.
 	 *
@@ -61,7 +70,7 @@ export class SessionManager {
 		const assistant = createAssistant('azor');
 		const newSession = new ChatSession(assistant);
 		await newSession.initialize();
-		this._currentSession = newSession;
+		await this._replaceCurrentSession(newSession);
 
 		return [newSession, saveAttempted, previousSessionId, saveError];
 	}
@@ -123,7 +132,7 @@ export class SessionManager {
 		}
 
 		// Successfully loaded - update current session
-		this._currentSession = newSession;
+		await this._replaceCurrentSession(newSession);
 		const hasHistory = !newSession.isEmpty();
 
 		return [
@@ -157,7 +166,7 @@ export class SessionManager {
 		const assistant = createAssistant('azor');
 		const newSession = new ChatSession(assistant);
 		await newSession.initialize();
-		this._currentSession = newSession;
+		await this._replaceCurrentSession(newSession);
 
 		return [newSession, removedSessionId, removeSuccess, removeError];
 	}
@@ -1,7 +1,7 @@
 /**
  * Tool definitions for LLM function calling.
  * These definitions tell the LLM what tools are available.
- * Supports both Gemini and Llama (node-llama-cpp) formats.
+ * Supports Gemini, Llama (node-llama-cpp), Ollama and OpenAI-compatible formats.
  */
 
 import { SchemaType, type FunctionDeclaration } from '@google/generative-ai';
@@ -16,7 +16,7 @@ import { getErrorMessage } from '../utils/errorUtils.js';
 export const listThreadsTool: FunctionDeclaration = {
 	name: 'list_threads',
 	description:
-		'Lists all chat session threads stored in the ~/.azor/ directory. Returns a list of filenames with their last modified timestamps (updated_at in ISO format). Use this to see what threads exist and when they were last active.',
+		'Lists all chat session threads stored in the ~/.azor/ directory. Returns a list of filenames with their last modified timestamps (updated_at in ISO format) and metadata: session_id, title, tags, messages_count, created_at, model and assistant_id. Use this to see what threads exist and when they were last active.',
 	parameters: {
 		type: SchemaType.OBJECT,
 		properties: {},
@@ -64,6 +64,30 @@ export const getThreadDataTool: FunctionDeclaration = {
 	},
 };
 
+/**
+ * Tool definition for semantic search over past threads.
+ */
+export const searchThreadsTool: FunctionDeclaration = {
+	name: 'search_threads',
+	description:
+		'Searches all stored chat threads by meaning and returns the most relevant exchanges (the user prompt and the answer) with session_id, title, timestamp and similarity score. Use this when the user refers to something discussed in an earlier session or when earlier conversations could help answer the question.',
+	parameters: {
+		type: SchemaType.OBJECT,
+		properties: {
+			query: {
+				type: SchemaType.STRING,
+				description:
+					'What to look for, phrased as a question or a topic (e.g., "docker networking setup")',
+			},
+			limit: {
+				type: SchemaType.INTEGER,
+				description: 'Maximum number of results (1-20, default 5)',
+			},
+		},
+		required: ['query'],
+	},
+};
+
 /**
  * Tool definition for requesting clarification from the user.
  * This is a special tool that interrupts the conversation flow to get user input.
@@ -92,9 +116,19 @@ export const azorTools: FunctionDeclaration[] = [
 	listThreadsTool,
 	deleteThreadTool,
 	getThreadDataTool,
+	searchThreadsTool,
 	requestClarificationTool,
 ];
 
+/**
+ * Returns the tools enabled by an assistant's tool list; all tools when no list is given.
+ */
+export function selectTools(enabledTools?: string[]): FunctionDeclaration[] {
+	return enabledTools
+		? azorTools.filter((tool) => enabledTools.includes(tool.name))
+		: azorTools;
+}
+
 /**
  * Tool configuration for Gemini model.
  */
@@ -268,3 +302,9 @@ export function convertToOllamaTools(
  * Pre-converted tool configuration for Ollama models.
  */
 export const ollamaToolConfig = convertToOllamaTools(azorTools);
+
+/**
+ * Pre-converted tool configuration for OpenAI-compatible chat completions.
+ * The `/v1/chat/completions` function tool schema matches the Ollama format.
+ */
+export const openAIToolConfig: OllamaTool[] = convertToOllamaTools(azorTools);
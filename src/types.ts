@@ -3,18 +3,98 @@
  */
 
 // Message types
-export interface MessagePart {
+export interface TextPart {
   text: string;
 }
 
+export interface FunctionCallPart {
+  functionCall: {
+    name: string;
+    args: Record<string, unknown>;
+  };
+}
+
+export interface FunctionResponsePart {
+  functionResponse: {
+    name: string;
+    response: Record<string, unknown>;
+  };
+}
+
+export interface AttachmentPart {
+  attachment: {
+    hash: string; // SHA-256 of the content, also its key in the attachment store
+    filename: string; // Original file name
+    mimeType: string;
+    size: number; // Size in bytes
+  };
+}
+
+export type MessagePart = TextPart | FunctionCallPart | FunctionResponsePart | AttachmentPart;
+
+// Tokens used by one turn, summed over every request made for it (tool rounds included)
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// Assistant that wrote a model message in a round-table
+export interface MessageSpeaker {
+  id: string;
+  name: string;
+}
+
 export interface Message {
+  id?: string; // Assigned when the session is saved; links branches of the message tree
+  parentId?: string | null; // Previous message on the message's branch (null for the first one)
   role: 'user' | 'model';
   parts: MessagePart[];
   timestamp?: string;
+  usage?: TokenUsage; // Set on the model message that ends a turn
+  speaker?: MessageSpeaker; // Round-table replies only; otherwise the session's assistant
 }
 
 export type ChatHistory = Message[];
 
+// Context window management
+export type ContextStrategy = 'truncate' | 'summarize';
+
+export interface ContextState {
+  strategy: ContextStrategy;
+  summary: string | null; // Summary of the messages before `cutoff` (summarize strategy)
+  cutoff: number; // Messages before this index are no longer sent to the model
+  pinned: number[]; // Indices of pinned messages, sent even when before `cutoff`
+}
+
+// Engine and model chosen with /model switch; the latest one applies to the session
+export interface ModelChange {
+  engine: string;
+  model?: string; // Engine default when omitted
+  timestamp: string;
+  messageIndex: number; // Number of messages in the history when the switch happened
+}
+
+// Branches of the message tree; the session history is the path of the active branch
+export interface Branch {
+  name: string;
+  headId: string | null; // Last message of the branch (null for an empty branch)
+  createdAt: string;
+}
+
+export interface SessionBranches {
+  active: string; // Name of the checked out branch
+  branches: Branch[];
+  messages: ChatHistory; // Messages found only on inactive branches, linked by parentId
+}
+
+// Tags, folder and pin of a session, used to filter and group session lists
+export interface SessionOrganization {
+  tags: string[];
+  folder: string | null; // Folder (project) the session is grouped under
+  pinned: boolean; // Pinned sessions are listed first
+}
+
 // Session types
 export interface SessionMetadata {
   session_id: string;
@@ -40,8 +120,56 @@ export interface ClarificationRequest {
 // LLM Response
 export interface LLMResponse {
   text: string;
-  tokensUsed?: number;
+  usage?: TokenUsage;
   clarificationNeeded?: ClarificationRequest;
+  failed?: boolean; // Set when the engine answered with an error message in place of a reply
+}
+
+// Callback invoked with each text fragment while a response is being streamed
+export type StreamChunkHandler = (chunk: string) => void;
+
+// LLM abstractions implemented by every engine
+
+/**
+ * A single conversation with a model, holding its own provider-specific state.
+ */
+export interface LLMChatSession {
+  sendMessage(
+    text: string,
+    onChunk?: StreamChunkHandler,
+    attachments?: AttachmentPart[]
+  ): Promise<LLMResponse>;
+  getHistory(): Promise<ChatHistory>;
+  dispose?(): Promise<void>; // Frees local resources (a llama.cpp context); the session is unusable afterwards
+}
+
+// Per-assistant overrides of the engine configuration read from the environment
+export interface LLMClientOptions {
+  modelName?: string; // For LLAMA_CPP: path to a .gguf model file
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  tools?: string[]; // Names of enabled tools; all tools when omitted
+}
+
+/**
+ * A configured connection to a model backend that can open chat sessions.
+ */
+export interface LLMClient {
+  createChatSession(
+    systemInstruction: string,
+    history?: ChatHistory,
+    thinkingBudget?: number,
+    enableTools?: boolean
+  ): LLMChatSession | Promise<LLMChatSession>;
+  countHistoryTokens(history: ChatHistory): Promise<number>;
+  estimatesTokenCounts?(): boolean; // True when countHistoryTokens approximates instead of counting
+  getModelName(): string;
+  getMaxContextTokens(): number;
+  isAvailable(): boolean;
+  readyForUseMessage(): string;
+  dispose?(): Promise<void>; // Frees local resources (a loaded model); the client is unusable afterwards
 }
 
 // Assistant configuration
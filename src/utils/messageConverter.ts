@@ -3,11 +3,80 @@
  * Provides conversions between universal ChatHistory format and provider-specific formats.
  */
 
-import type { Content } from '@google/generative-ai';
-import type { ChatHistory, Message } from '../types.js';
+import type { Content, Part } from '@google/generative-ai';
+import {
+  attachmentFromInlineData,
+  attachmentToText,
+  readAttachmentData
+} from '../files/attachments.js';
+import type { ChatHistory, Message, MessagePart } from '../types.js';
+import { isAttachmentPart, isFunctionCallPart, isFunctionResponsePart } from './messageParts.js';
+
+/**
+ * Converts a universal message part to a Gemini Part.
+ * Attachments are sent as inline data read from the attachment store.
+ * Returns null for empty text parts, which Gemini rejects.
+ */
+function messagePartToGeminiPart(part: MessagePart): Part | null {
+  if (isFunctionCallPart(part)) {
+    return { functionCall: { name: part.functionCall.name, args: part.functionCall.args } };
+  }
+  if (isFunctionResponsePart(part)) {
+    return {
+      functionResponse: { name: part.functionResponse.name, response: part.functionResponse.response }
+    };
+  }
+  if (isAttachmentPart(part)) {
+    const data = readAttachmentData(part);
+    return data
+      ? { inlineData: { mimeType: part.attachment.mimeType, data: data.toString('base64') } }
+      : { text: attachmentToText(part) };
+  }
+  return part.text ? { text: part.text } : null;
+}
+
+/**
+ * Converts universal message parts to Gemini Parts, dropping empty text parts.
+ * @param parts - Parts of a single message
+ * @returns Parts ready to be sent to Gemini
+ */
+export function messagePartsToGeminiParts(parts: MessagePart[]): Part[] {
+  return parts.map(messagePartToGeminiPart).filter((part): part is Part => part !== null);
+}
+
+/**
+ * Converts a Gemini Part to a universal message part.
+ * Returns null for part types the universal format doesn't carry.
+ */
+function geminiPartToMessagePart(part: Part): MessagePart | null {
+  if (part.functionCall) {
+    return {
+      functionCall: {
+        name: part.functionCall.name,
+        args: (part.functionCall.args as Record<string, unknown>) || {}
+      }
+    };
+  }
+  if (part.functionResponse) {
+    return {
+      functionResponse: {
+        name: part.functionResponse.name,
+        response: part.functionResponse.response as Record<string, unknown>
+      }
+    };
+  }
+  if (part.inlineData) {
+    return attachmentFromInlineData(part.inlineData.mimeType, part.inlineData.data);
+  }
+  if ('text' in part && part.text) {
+    return { text: part.text };
+  }
+  return null;
+}
 
 /**
  * Converts universal ChatHistory format to Gemini Content format.
+ * Messages made only of tool results are sent with Gemini's 'function' role.
  * @param history - The conversation history in universal format
  * @returns Array of Gemini Content objects
  */
@@ -15,13 +84,17 @@ export function chatHistoryToGeminiContent(history: ChatHistory): Content[] {
   const geminiHistory: Content[] = [];
 
   for (const entry of history) {
-    const text = entry.parts[0]?.text || '';
-    if (text) {
-      geminiHistory.push({
-        role: entry.role,
-        parts: [{ text }]
-      });
+    const parts = messagePartsToGeminiParts(entry.parts || []);
+
+    if (parts.length === 0) {
+      continue;
     }
+
+    const isFunctionResult = entry.parts.every(isFunctionResponsePart);
+    geminiHistory.push({
+      role: isFunctionResult ? 'function' : entry.role,
+      parts
+    });
   }
 
   return geminiHistory;
@@ -29,6 +102,7 @@ export function chatHistoryToGeminiContent(history: ChatHistory): Content[] {
 
 /**
  * Converts Gemini Content format to universal ChatHistory format.
+ * Gemini's 'function' role (tool results) is stored as a 'user' message.
  * @param contents - Array of Gemini Content objects
  * @returns Conversation history in universal format
  */
@@ -36,24 +110,21 @@ export function geminiContentToChatHistory(contents: Content[]): ChatHistory {
   const universalHistory: ChatHistory = [];
 
   for (const content of contents) {
-    let textPart = '';
-    if (content.parts && content.parts.length > 0) {
-      for (const part of content.parts) {
-        if ('text' in part && part.text) {
-          textPart = part.text;
-          break;
-        }
-      }
-    }
+    const parts = (content.parts || [])
+      .map(geminiPartToMessagePart)
+      .filter((part): part is MessagePart => part !== null);
 
-    if (textPart) {
-      const universalContent: Message = {
-        role: content.role as 'user' | 'model',
-        parts: [{ text: textPart }]
-      };
-      universalHistory.push(universalContent);
+    if (parts.length === 0) {
+      continue;
     }
+
+    const universalContent: Message = {
+      role: content.role === 'model' ? 'model' : 'user',
+      parts
+    };
+    universalHistory.push(universalContent);
   }
 
   return universalHistory;
 }
+
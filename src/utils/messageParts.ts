@@ -0,0 +1,121 @@
+/**
+ * Message part utilities
+ * Type guards and text extraction for multi-part messages.
+ */
+
+import type {
+  AttachmentPart,
+  FunctionCallPart,
+  FunctionResponsePart,
+  Message,
+  MessagePart,
+  TextPart
+} from '../types.js';
+
+/**
+ * Checks whether a part carries plain text.
+ */
+export function isTextPart(part: MessagePart): part is TextPart {
+  return 'text' in part && typeof part.text === 'string';
+}
+
+/**
+ * Checks whether a part is a tool invocation requested by the model.
+ */
+export function isFunctionCallPart(part: MessagePart): part is FunctionCallPart {
+  return 'functionCall' in part;
+}
+
+/**
+ * Checks whether a part is the result of a tool invocation.
+ */
+export function isFunctionResponsePart(part: MessagePart): part is FunctionResponsePart {
+  return 'functionResponse' in part;
+}
+
+/**
+ * Checks whether a part references a file attached by the user.
+ */
+export function isAttachmentPart(part: MessagePart): part is AttachmentPart {
+  return 'attachment' in part;
+}
+
+/**
+ * Creates a part recording a tool invocation requested by the model.
+ * @param name - Tool name
+ * @param args - Arguments passed to the tool
+ */
+export function createFunctionCallPart(name: string, args: Record<string, unknown>): FunctionCallPart {
+  return { functionCall: { name, args } };
+}
+
+/**
+ * Creates a part recording a tool result (or error).
+ * Non-object results are wrapped as `{ result }` since responses must be objects.
+ * @param name - Tool name
+ * @param result - Value returned by the tool
+ */
+export function createFunctionResponsePart(name: string, result: unknown): FunctionResponsePart {
+  const response =
+    result !== null && typeof result === 'object' && !Array.isArray(result)
+      ? (result as Record<string, unknown>)
+      : { result };
+  return { functionResponse: { name, response } };
+}
+
+/**
+ * Returns true if every part of the message is a tool result.
+ */
+export function isToolResultMessage(message: Message): boolean {
+  return message.parts.length > 0 && message.parts.every(isFunctionResponsePart);
+}
+
+/**
+ * Returns all text parts of a message joined with newlines.
+ * @param message - Message to extract text from
+ * @returns Joined text (empty string for tool-only messages)
+ */
+export function getMessageText(message: Message): string {
+  return (message.parts || [])
+    .filter(isTextPart)
+    .map(part => part.text)
+    .join('\n');
+}
+
+/**
+ * Renders a single part as human-readable text, including tool calls, tool results and attachments.
+ * @param part - Message part to describe
+ * @param maxResultLength - Tool results longer than this are truncated
+ * @returns Display text for the part
+ */
+export function describePart(part: MessagePart, maxResultLength: number = 500): string {
+  if (isFunctionCallPart(part)) {
+    return `🔧 ${part.functionCall.name}(${JSON.stringify(part.functionCall.args)})`;
+  }
+
+  if (isFunctionResponsePart(part)) {
+    const result = JSON.stringify(part.functionResponse.response);
+    const displayResult =
+      result.length > maxResultLength ? result.substring(0, maxResultLength) + '...' : result;
+    return `↳ ${part.functionResponse.name}: ${displayResult}`;
+  }
+
+  if (isAttachmentPart(part)) {
+    const { filename, mimeType, size } = part.attachment;
+    return `📎 ${filename} (${mimeType}, ${Math.max(1, Math.round(size / 1024))} KB)`;
+  }
+
+  return part.text;
+}
+
+/**
+ * Renders every part of a message as text, one part per paragraph.
+ * @param message - Message to render
+ * @returns Display text covering text, tool calls, tool results and attachments
+ */
+export function describeMessage(message: Message, maxResultLength?: number): string {
+  return (message.parts || [])
+    .map(part => describePart(part, maxResultLength))
+    .filter(text => text.length > 0)
+    .join('\n\n');
+}
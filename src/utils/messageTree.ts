@@ -0,0 +1,89 @@
+/**
+ * Message tree utilities
+ * Messages are linked to their predecessor by parentId, so the branches of a session
+ * share the messages before the point where they were forked.
+ */
+
+import { randomUUID } from 'crypto';
+import type { ChatHistory } from '../types.js';
+
+/**
+ * Creates a short random message ID, unique within a session.
+ */
+export function createMessageId(): string {
+  return randomUUID().replace(/-/g, '').slice(0, 12);
+}
+
+/**
+ * Gives every message of a branch path an ID and links it to the message before it.
+ * Messages are updated in place, so IDs stay stable between saves.
+ */
+export function linkMessages(path: ChatHistory): void {
+  let parentId: string | null = null;
+  for (const message of path) {
+    message.id = message.id || createMessageId();
+    message.parentId = parentId;
+    parentId = message.id;
+  }
+}
+
+/**
+ * Returns the path from the first message of a branch to its head.
+ * @param messages - Messages to search, from any branch
+ * @param headId - Last message of the branch; null for an empty branch
+ */
+export function buildBranchPath(messages: ChatHistory, headId: string | null): ChatHistory {
+  const byId = new Map(messages.map(message => [message.id, message]));
+  const path: ChatHistory = [];
+  const visited = new Set<string>();
+
+  let current = headId ? byId.get(headId) : undefined;
+  while (current?.id && !visited.has(current.id)) {
+    visited.add(current.id);
+    path.push(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path.reverse();
+}
+
+/**
+ * Returns the messages that other branches still need but the active path doesn't hold.
+ * @param path - Active branch path
+ * @param messages - Candidate messages, e.g. inactive branches plus messages dropped from the path
+ * @param headIds - Heads of the inactive branches
+ */
+export function collectBranchMessages(
+  path: ChatHistory,
+  messages: ChatHistory,
+  headIds: Array<string | null>
+): ChatHistory {
+  const onPath = new Set(path.map(message => message.id));
+  const pool = [...path, ...messages];
+  const needed = new Set<string | undefined>();
+  for (const headId of headIds) {
+    for (const message of buildBranchPath(pool, headId)) {
+      needed.add(message.id);
+    }
+  }
+
+  const seen = new Set<string | undefined>();
+  return messages.filter(message => {
+    if (onPath.has(message.id) || !needed.has(message.id) || seen.has(message.id)) {
+      return false;
+    }
+    seen.add(message.id);
+    return true;
+  });
+}
+
+/**
+ * Returns the number of leading messages two branch paths share.
+ */
+export function commonPrefixLength(a: ChatHistory, b: ChatHistory): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length].id === b[length].id) {
+    length++;
+  }
+  return length;
+}
@@ -0,0 +1,27 @@
+/**
+ * Stream timeout utilities
+ * Guards streamed HTTP responses against servers that stop sending mid-response.
+ */
+
+/**
+ * Yields the chunks of a response body, aborting the request when no chunk arrives
+ * within timeoutMs. The abort makes the read fail with an AbortError.
+ *
+ * @param controller - Controller whose signal was passed to fetch
+ */
+export async function* readWithIdleTimeout(
+  body: ReadableStream<Uint8Array>,
+  controller: AbortController,
+  timeoutMs: number
+): AsyncGenerator<Uint8Array> {
+  let timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    for await (const bytes of body) {
+      clearTimeout(timeoutId);
+      yield bytes;
+      timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    }
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
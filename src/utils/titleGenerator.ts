@@ -3,9 +3,7 @@
  * Generates short, descriptive titles from user prompts using LLM with keyword fallback.
  */
 
-import type { GeminiLLMClient } from '../llm/geminiClient.js';
-import type { LlamaClient } from '../llm/llamaClient.js';
-import type { OllamaClient } from '../llm/ollamaClient.js';
+import type { LLMClient, LLMResponse, TokenUsage } from '../types.js';
 import { printWarning } from '../cli/console.js';
 
 /**
@@ -15,7 +13,7 @@ import { printWarning } from '../cli/console.js';
  * @param prompt - The user's first message
  * @returns A truncated title (max 50 chars)
  */
-function generateTitleFromKeywords(prompt: string): string {
+export function generateTitleFromKeywords(prompt: string): string {
   const maxLength = 50;
   const cleanedPrompt = prompt.trim().replace(/\s+/g, ' ');
 
@@ -39,11 +37,13 @@ function generateTitleFromKeywords(prompt: string): string {
  *
  * @param prompt - The user's first message
  * @param llmClient - The LLM client instance
+ * @param onUsage - Called with the token usage of the request
  * @returns Promise<string | null> - Generated title or null if failed
  */
 async function generateTitleWithLLM(
   prompt: string,
-  llmClient: GeminiLLMClient | LlamaClient | OllamaClient
+  llmClient: LLMClient,
+  onUsage?: (usage: TokenUsage) => void
 ): Promise<string | null> {
   try {
     // Create a temporary chat session for title generation
@@ -55,7 +55,18 @@ async function generateTitleWithLLM(
       0
     );
 
-    const response = await tempSession.sendMessage(metaPrompt);
+    let response: LLMResponse;
+    try {
+      response = await tempSession.sendMessage(metaPrompt);
+    } finally {
+      await tempSession.dispose?.();
+    }
+    if (response.usage) {
+      onUsage?.(response.usage);
+    }
+    if (response.failed) {
+      return null;
+    }
 
     // Clean up the response (remove quotes, extra whitespace, etc.)
     let title = response.text.trim();
@@ -80,14 +91,16 @@ async function generateTitleWithLLM(
  *
  * @param prompt - The user's first message
  * @param llmClient - The LLM client instance
+ * @param onUsage - Called with the token usage of the LLM request
  * @returns Promise<string> - Generated title (always returns a valid title)
  */
 export async function generateTitleFromPrompt(
   prompt: string,
-  llmClient: GeminiLLMClient | LlamaClient | OllamaClient
+  llmClient: LLMClient,
+  onUsage?: (usage: TokenUsage) => void
 ): Promise<string> {
   // Try LLM generation first
-  const llmTitle = await generateTitleWithLLM(prompt, llmClient);
+  const llmTitle = await generateTitleWithLLM(prompt, llmClient, onUsage);
 
   if (llmTitle) {
     return llmTitle;
@@ -0,0 +1,35 @@
+/**
+ * Token estimation
+ * For engines that can't count tokens before sending (Ollama, OpenAI-compatible servers),
+ * counts are estimated from the characters-per-token ratio of the text the engine has
+ * already reported token counts for.
+ */
+
+/** Ratio used until the engine has reported a count */
+const DEFAULT_CHARS_PER_TOKEN = 4;
+
+/**
+ * Learns a model's characters-per-token ratio from the token counts it reports.
+ */
+export class TokenEstimator {
+  private chars = 0;
+  private tokens = 0;
+
+  /**
+   * Records text of a known token count, e.g. a reply and its completion tokens.
+   */
+  record(chars: number, tokens: number): void {
+    if (chars > 0 && tokens > 0) {
+      this.chars += chars;
+      this.tokens += tokens;
+    }
+  }
+
+  /**
+   * Estimates the token count of text with the given number of characters.
+   */
+  estimate(chars: number): number {
+    const charsPerToken = this.tokens > 0 ? this.chars / this.tokens : DEFAULT_CHARS_PER_TOKEN;
+    return Math.ceil(chars / charsPerToken);
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Token usage utilities
+ * Helpers for summing the prompt/completion token counts reported by engines.
+ */
+
+import type { TokenUsage } from '../types.js';
+
+/**
+ * Creates a usage record from prompt and completion token counts.
+ */
+export function createTokenUsage(promptTokens: number = 0, completionTokens: number = 0): TokenUsage {
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens
+  };
+}
+
+/**
+ * Adds two usage records, e.g. the requests of a single tool-calling turn.
+ */
+export function addTokenUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return createTokenUsage(a.promptTokens + b.promptTokens, a.completionTokens + b.completionTokens);
+}